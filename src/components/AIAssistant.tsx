@@ -5,36 +5,46 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Card, CardContent } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
-import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
-import { Bot, Send, Loader2, Sparkles, X, MessageCircle, Copy, ExternalLink } from 'lucide-react';
+import {
+  ActionResolution,
+  AssistantConversation,
+  AssistantMessage,
+  deleteAssistantConversation,
+  fetchAssistantConversations,
+  fetchAssistantMessages,
+  saveAssistantMessageData,
+  streamAssistantMessage,
+} from '@/lib/assistant';
+import AssistantActionCard from './AIAssistant/AssistantActionCard';
+import AssistantConversationList from './AIAssistant/AssistantConversationList';
+import AssistantPinResults from './AIAssistant/AssistantPinResults';
+import { Bot, Send, Loader2, Sparkles, X, History, Plus, Copy, ExternalLink, Square } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { motion, AnimatePresence, useSpring } from 'framer-motion';
 
-interface Message {
-  id: string;
-  content: string;
-  isUser: boolean;
-  timestamp: Date;
-  data?: any;
-}
-
 interface AIAssistantProps {
   className?: string;
 }
 
+const createIntroMessage = (): AssistantMessage => ({
+  id: 'intro',
+  content: "Hi! I'm your PinBoard AI assistant. I can help you create groups, generate content templates, and more! Try asking me to 'create a group named [name]', 'create a board named [name]' or 'search pins for [topic]'.",
+  isUser: false,
+  timestamp: new Date()
+});
+
 export const AIAssistant = ({ className }: AIAssistantProps) => {
   const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState<Message[]>([
-    {
-      id: '1',
-      content: "Hi! I'm your PinBoard AI assistant. I can help you create groups, generate content templates, and more! Try asking me to 'create a group named [name]' or 'make a template for [topic]'.",
-      isUser: false,
-      timestamp: new Date()
-    }
-  ]);
+  const [messages, setMessages] = useState<AssistantMessage[]>([createIntroMessage()]);
+  const [conversationId, setConversationId] = useState<string | null>(null);
+  const [conversations, setConversations] = useState<AssistantConversation[]>([]);
+  const [showHistory, setShowHistory] = useState(false);
   const [inputMessage, setInputMessage] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [streamingId, setStreamingId] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const hasLoadedHistory = useRef(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
@@ -46,36 +56,151 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
     scrollToBottom();
   }, [messages]);
 
+  // Pick up the most recent conversation the first time the panel opens
+  useEffect(() => {
+    if (!isOpen || hasLoadedHistory.current) return;
+    hasLoadedHistory.current = true;
+
+    const restoreLatest = async () => {
+      try {
+        const list = await fetchAssistantConversations();
+        setConversations(list);
+        if (list.length > 0) {
+          await openConversation(list[0].id);
+        }
+      } catch (error) {
+        console.error('Error loading assistant conversations:', error);
+      }
+    };
+
+    restoreLatest();
+  }, [isOpen]);
+
+  const refreshConversations = async () => {
+    try {
+      setConversations(await fetchAssistantConversations());
+    } catch (error) {
+      console.error('Error loading assistant conversations:', error);
+    }
+  };
+
+  const openConversation = async (id: string) => {
+    abortRef.current?.abort();
+    setShowHistory(false);
+    setIsLoading(true);
+    try {
+      const history = await fetchAssistantMessages(id);
+      setConversationId(id);
+      setMessages(history.length > 0 ? history : [createIntroMessage()]);
+    } catch (error) {
+      console.error('Error loading assistant conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load this conversation",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const startNewConversation = () => {
+    abortRef.current?.abort();
+    setShowHistory(false);
+    setConversationId(null);
+    setMessages([createIntroMessage()]);
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await deleteAssistantConversation(id);
+      setConversations(prev => prev.filter(conversation => conversation.id !== id));
+      if (id === conversationId) {
+        setConversationId(null);
+        setMessages([createIntroMessage()]);
+      }
+    } catch (error) {
+      console.error('Error deleting assistant conversation:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete this conversation",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Store the card outcome on its message so a reopened conversation shows it
+  const handleActionResolved = (messageId: string, actionId: string, resolution: ActionResolution) => {
+    const message = messages.find(m => m.id === messageId);
+    if (!message?.data?.proposedActions) return;
+
+    const data = {
+      ...message.data,
+      proposedActions: message.data.proposedActions.map(action =>
+        action.id === actionId ? { ...action, resolution } : action
+      ),
+    };
+
+    setMessages(prev => prev.map(m => (m.id === messageId ? { ...m, data } : m)));
+    saveAssistantMessageData(messageId, data).catch(error => {
+      console.error('Error saving assistant action outcome:', error);
+    });
+  };
+
   const handleSendMessage = async () => {
     if (!inputMessage.trim() || isLoading) return;
 
-    const userMessage: Message = {
+    const userMessage: AssistantMessage = {
       id: Date.now().toString(),
       content: inputMessage.trim(),
       isUser: true,
       timestamp: new Date()
     };
 
+    const replyId = `reply-${userMessage.id}`;
+    const controller = new AbortController();
+    abortRef.current = controller;
+
     setMessages(prev => [...prev, userMessage]);
     setInputMessage('');
     setIsLoading(true);
+    setStreamingId(replyId);
 
     try {
-      const { data, error } = await supabase.functions.invoke('ai-assistant', {
-        body: { message: userMessage.content }
+      const data = await streamAssistantMessage(userMessage.content, conversationId ?? undefined, {
+        signal: controller.signal,
+        onConversation: setConversationId,
+        onDelta: (text) => {
+          setMessages(prev => {
+            if (!prev.some(m => m.id === replyId)) {
+              return [...prev, { id: replyId, content: text, isUser: false, timestamp: new Date() }];
+            }
+            return prev.map(m => (m.id === replyId ? { ...m, content: m.content + text } : m));
+          });
+        },
       });
 
-      if (error) throw error;
+      // Stopped: keep the partial text, but never attach actions from an unfinished reply.
+      // The server stores the reply the same way.
+      if (!data) {
+        setMessages(prev => {
+          if (!prev.some(m => m.id === replyId)) {
+            return [...prev, { id: replyId, content: '(stopped)', isUser: false, timestamp: new Date() }];
+          }
+          return prev.map(m => (m.id === replyId ? { ...m, content: `${m.content}\n\n(stopped)` } : m));
+        });
+        return;
+      }
 
-      const aiMessage: Message = {
-        id: (Date.now() + 1).toString(),
+      const aiMessage: AssistantMessage = {
+        id: data.messageId ?? replyId,
         content: data.response,
         isUser: false,
         timestamp: new Date(),
         data: data.data
       };
 
-      setMessages(prev => [...prev, aiMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== replyId), aiMessage]);
 
       if (data.success && data.data?.inviteLink) {
         toast({
@@ -85,13 +210,13 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
       }
     } catch (error) {
       console.error('Error sending message:', error);
-      const errorMessage: Message = {
+      const errorMessage: AssistantMessage = {
         id: (Date.now() + 1).toString(),
         content: "Sorry, I'm having trouble processing your request right now. Please try again later.",
         isUser: false,
         timestamp: new Date()
       };
-      setMessages(prev => [...prev, errorMessage]);
+      setMessages(prev => [...prev.filter(m => m.id !== replyId), errorMessage]);
       
       toast({
         title: "Error",
@@ -99,10 +224,17 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
         variant: "destructive",
       });
     } finally {
+      abortRef.current = null;
+      setStreamingId(null);
       setIsLoading(false);
+      refreshConversations();
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -257,22 +389,50 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
                   </motion.p>
                 </div>
               </div>
-              <motion.div
-                whileHover={{ scale: 1.1 }}
-                whileTap={{ scale: 0.9 }}
-              >
+              <div className="flex items-center gap-1">
                 <Button
                   variant="ghost"
                   size="sm"
-                  onClick={() => setIsOpen(false)}
+                  onClick={startNewConversation}
                   className="h-8 w-8 p-0"
+                  aria-label="New conversation"
                 >
-                  <X className="h-4 w-4" />
+                  <Plus className="h-4 w-4" />
                 </Button>
-              </motion.div>
+                <Button
+                  variant={showHistory ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => setShowHistory(prev => !prev)}
+                  className="h-8 w-8 p-0"
+                  aria-label="Conversation history"
+                >
+                  <History className="h-4 w-4" />
+                </Button>
+                <motion.div
+                  whileHover={{ scale: 1.1 }}
+                  whileTap={{ scale: 0.9 }}
+                >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setIsOpen(false)}
+                    className="h-8 w-8 p-0"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </motion.div>
+              </div>
             </motion.div>
 
-        {/* Enhanced Messages */}
+        {showHistory ? (
+          <AssistantConversationList
+            conversations={conversations}
+            activeId={conversationId}
+            onSelect={openConversation}
+            onDelete={handleDeleteConversation}
+          />
+        ) : (
+        /* Enhanced Messages */
         <ScrollArea className="flex-1 p-4">
           <motion.div 
             className="space-y-4"
@@ -382,6 +542,22 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
                             </p>
                           </motion.div>
                         )}
+
+                        {message.data.proposedActions && (
+                          <div className="space-y-2">
+                            {message.data.proposedActions.map((action) => (
+                              <AssistantActionCard
+                                key={action.id}
+                                action={action}
+                                onResolve={(resolution) => handleActionResolved(message.id, action.id, resolution)}
+                              />
+                            ))}
+                          </div>
+                        )}
+
+                        {message.data.actionResult?.result.pins && (
+                          <AssistantPinResults pins={message.data.actionResult.result.pins} />
+                        )}
                       </motion.div>
                     )}
                   </motion.div>
@@ -399,7 +575,7 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
               ))}
             </AnimatePresence>
             
-            {isLoading && (
+            {isLoading && !messages.some(m => m.id === streamingId) && (
               <motion.div 
                 className="flex gap-2"
                 initial={{ opacity: 0, y: 20 }}
@@ -436,6 +612,7 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
           </motion.div>
           <div ref={messagesEndRef} />
         </ScrollArea>
+        )}
 
         {/* Enhanced Input */}
         <motion.div 
@@ -463,24 +640,24 @@ export const AIAssistant = ({ className }: AIAssistantProps) => {
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
             >
-              <Button
-                onClick={handleSendMessage}
-                disabled={!inputMessage.trim() || isLoading}
-                size="sm"
-              >
-                <motion.div
-                  animate={{ 
-                    x: isLoading ? [0, 2, 0] : 0,
-                    rotate: isLoading ? [0, 5, -5, 0] : 0
-                  }}
-                  transition={{ 
-                    duration: isLoading ? 0.5 : 0,
-                    repeat: isLoading ? Infinity : 0
-                  }}
+              {streamingId ? (
+                <Button
+                  onClick={handleStop}
+                  variant="outline"
+                  size="sm"
+                  aria-label="Stop generating"
+                >
+                  <Square className="h-4 w-4" />
+                </Button>
+              ) : (
+                <Button
+                  onClick={handleSendMessage}
+                  disabled={!inputMessage.trim() || isLoading}
+                  size="sm"
                 >
                   <Send className="h-4 w-4" />
-                </motion.div>
-              </Button>
+                </Button>
+              )}
             </motion.div>
           </div>
           <motion.p 
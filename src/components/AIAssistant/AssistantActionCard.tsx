@@ -0,0 +1,130 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/hooks/use-toast';
+import { Check, Loader2, Undo2, X } from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  ActionResolution,
+  ActionResult,
+  ProposedAction,
+  actionMeta,
+  confirmAssistantAction,
+  undoAssistantAction,
+} from '@/lib/assistant';
+
+type CardStatus = 'pending' | 'running' | 'done' | 'undoing' | 'undone' | 'cancelled' | 'failed';
+
+interface AssistantActionCardProps {
+  action: ProposedAction;
+  onResolve?: (resolution: ActionResolution) => void;
+}
+
+// Nothing is written until the user presses Confirm; Undo reverses the write
+const AssistantActionCard = ({ action, onResolve }: AssistantActionCardProps) => {
+  const [status, setStatus] = useState<CardStatus>(action.resolution?.status ?? 'pending');
+  const [outcome, setOutcome] = useState<ActionResult | null>(action.resolution?.outcome ?? null);
+  const [note, setNote] = useState<string | null>(action.resolution?.note ?? null);
+  const { toast } = useToast();
+  const { label, icon: Icon } = actionMeta[action.type];
+
+  const resolve = (resolution: ActionResolution) => {
+    setStatus(resolution.status);
+    onResolve?.(resolution);
+  };
+
+  const handleConfirm = async () => {
+    setStatus('running');
+    try {
+      const data = await confirmAssistantAction(action);
+      setNote(data.response);
+      if (data.success && data.data?.actionResult) {
+        setOutcome(data.data.actionResult);
+        resolve({ status: 'done', outcome: data.data.actionResult, note: data.response });
+      } else {
+        resolve({ status: 'failed', note: data.response });
+      }
+    } catch (error) {
+      console.error('Error running assistant action:', error);
+      resolve({ status: 'failed' });
+      toast({
+        title: 'Error',
+        description: 'Failed to run this action',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleUndo = async () => {
+    if (!outcome) return;
+
+    setStatus('undoing');
+    try {
+      const data = await undoAssistantAction(outcome);
+      setNote(data.response);
+      if (data.success) {
+        resolve({ status: 'undone', outcome, note: data.response });
+      } else {
+        setStatus('done');
+      }
+    } catch (error) {
+      console.error('Error undoing assistant action:', error);
+      setStatus('done');
+      toast({
+        title: 'Error',
+        description: 'Failed to undo this action',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  return (
+    <motion.div
+      className="space-y-2 rounded-md border border-border/40 bg-background/40 p-2"
+      initial={{ opacity: 0, y: 10 }}
+      animate={{ opacity: 1, y: 0 }}
+    >
+      <Badge variant="secondary" className="text-xs">
+        <Icon className="h-3 w-3 mr-1" />
+        {label}
+      </Badge>
+      <p className="text-xs">{action.summary}</p>
+      {note && status !== 'pending' && (
+        <p className="text-xs opacity-80">{note}</p>
+      )}
+
+      {status === 'pending' && (
+        <div className="flex gap-2">
+          <Button size="sm" className="h-7 text-xs" onClick={handleConfirm}>
+            <Check className="h-3 w-3 mr-1" />
+            Confirm
+          </Button>
+          <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={() => resolve({ status: 'cancelled' })}>
+            <X className="h-3 w-3 mr-1" />
+            Cancel
+          </Button>
+        </div>
+      )}
+
+      {(status === 'running' || status === 'undoing') && (
+        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+          <Loader2 className="h-3 w-3 animate-spin" />
+          {status === 'running' ? 'Working...' : 'Undoing...'}
+        </div>
+      )}
+
+      {status === 'done' && outcome?.undoable && (
+        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={handleUndo}>
+          <Undo2 className="h-3 w-3 mr-1" />
+          Undo
+        </Button>
+      )}
+
+      {status === 'cancelled' && (
+        <p className="text-xs text-muted-foreground">Cancelled</p>
+      )}
+    </motion.div>
+  );
+};
+
+export default AssistantActionCard;
@@ -0,0 +1,69 @@
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { MessageSquare, Trash2 } from 'lucide-react';
+import { formatDistanceToNow } from 'date-fns';
+import { cn } from '@/lib/utils';
+import { AssistantConversation } from '@/lib/assistant';
+
+interface AssistantConversationListProps {
+  conversations: AssistantConversation[];
+  activeId: string | null;
+  onSelect: (conversationId: string) => void;
+  onDelete: (conversationId: string) => void;
+}
+
+const AssistantConversationList = ({
+  conversations,
+  activeId,
+  onSelect,
+  onDelete,
+}: AssistantConversationListProps) => {
+  if (conversations.length === 0) {
+    return (
+      <div className="flex-1 flex items-center justify-center p-4 text-sm text-muted-foreground">
+        No saved conversations yet
+      </div>
+    );
+  }
+
+  return (
+    <ScrollArea className="flex-1 p-2">
+      <div className="space-y-1">
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={cn(
+              "group flex items-center gap-2 rounded-md px-2 py-2 hover:bg-muted",
+              conversation.id === activeId && "bg-muted"
+            )}
+          >
+            <button
+              type="button"
+              className="flex flex-1 min-w-0 items-center gap-2 text-left"
+              onClick={() => onSelect(conversation.id)}
+            >
+              <MessageSquare className="h-4 w-4 shrink-0 text-muted-foreground" />
+              <div className="min-w-0">
+                <p className="truncate text-sm">{conversation.title}</p>
+                <p className="text-xs text-muted-foreground">
+                  {formatDistanceToNow(new Date(conversation.updated_at))} ago
+                </p>
+              </div>
+            </button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0 opacity-0 group-hover:opacity-100 focus:opacity-100"
+              onClick={() => onDelete(conversation.id)}
+              aria-label="Delete conversation"
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+        ))}
+      </div>
+    </ScrollArea>
+  );
+};
+
+export default AssistantConversationList;
@@ -0,0 +1,35 @@
+import { useNavigate } from 'react-router-dom';
+import { PinSearchResult } from '@/lib/assistant';
+
+interface AssistantPinResultsProps {
+  pins: PinSearchResult[];
+}
+
+const AssistantPinResults = ({ pins }: AssistantPinResultsProps) => {
+  const navigate = useNavigate();
+
+  if (pins.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-1">
+      {pins.map((pin) => (
+        <button
+          key={pin.id}
+          type="button"
+          className="aspect-square overflow-hidden rounded focus:outline-none focus:ring-2 focus:ring-ring"
+          onClick={() => navigate(`/pin/${pin.id}`)}
+          title={pin.title}
+        >
+          <img
+            src={pin.image_url}
+            alt={pin.title}
+            className="h-full w-full object-cover"
+            loading="lazy"
+          />
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default AssistantPinResults;
@@ -0,0 +1,259 @@
+import { useState, useEffect } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Search, UserPlus, X } from "lucide-react";
+import {
+  BOARD_ROLES,
+  BoardCollaborator,
+  BoardRole,
+  CollaboratorProfile,
+  fetchBoardCollaborators,
+  inviteCollaborator,
+  removeCollaborator,
+  updateCollaboratorRole,
+} from "@/lib/boardCollaborators";
+import { searchProfiles } from "@/lib/profiles";
+
+interface BoardCollaboratorsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  boardId: string;
+  ownerId: string;
+  currentUserId?: string;
+  collaborators: BoardCollaborator[];
+  onCollaboratorsChange: (collaborators: BoardCollaborator[]) => void;
+}
+
+const displayName = (profile?: CollaboratorProfile) => profile?.full_name || profile?.email || "Unknown user";
+
+const BoardCollaboratorsDialog = ({
+  isOpen,
+  onClose,
+  boardId,
+  ownerId,
+  currentUserId,
+  collaborators,
+  onCollaboratorsChange,
+}: BoardCollaboratorsDialogProps) => {
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<CollaboratorProfile[]>([]);
+  const [inviteRole, setInviteRole] = useState<BoardRole>("editor");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  const isOwner = currentUserId === ownerId;
+
+  useEffect(() => {
+    if (!isOpen || !isOwner) return;
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const excluded = [ownerId, ...collaborators.map((collaborator) => collaborator.user_id)];
+        const profiles = await searchProfiles(query, excluded);
+        if (!cancelled) setResults(profiles);
+      } catch (error) {
+        console.error('Error searching profiles:', error);
+      }
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query, isOpen, isOwner, ownerId, collaborators]);
+
+  const refresh = async () => {
+    onCollaboratorsChange(await fetchBoardCollaborators(boardId));
+  };
+
+  const handleInvite = async (profile: CollaboratorProfile) => {
+    if (!currentUserId) return;
+    setBusyId(profile.user_id);
+    try {
+      await inviteCollaborator({ boardId, userId: profile.user_id, role: inviteRole, invitedBy: currentUserId });
+      await refresh();
+      setQuery("");
+      toast({
+        title: "Collaborator added",
+        description: `${displayName(profile)} can now ${inviteRole === 'editor' ? 'pin to' : 'view'} this board`,
+      });
+    } catch (error) {
+      console.error('Error inviting collaborator:', error);
+      toast({
+        title: "Error",
+        description: (error as { code?: string }).code === '23505' ? "They're already a collaborator" : "Failed to add collaborator",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRoleChange = async (collaborator: BoardCollaborator, role: BoardRole) => {
+    setBusyId(collaborator.user_id);
+    try {
+      await updateCollaboratorRole(collaborator.id, role);
+      onCollaboratorsChange(collaborators.map((item) => item.id === collaborator.id ? { ...item, role } : item));
+    } catch (error) {
+      console.error('Error updating collaborator role:', error);
+      toast({
+        title: "Error",
+        description: "Failed to change role",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRemove = async (collaborator: BoardCollaborator) => {
+    setBusyId(collaborator.user_id);
+    try {
+      await removeCollaborator(collaborator.id);
+      onCollaboratorsChange(collaborators.filter((item) => item.id !== collaborator.id));
+      if (collaborator.user_id === currentUserId) {
+        toast({ title: "You left this board" });
+        onClose();
+      }
+    } catch (error) {
+      console.error('Error removing collaborator:', error);
+      toast({
+        title: "Error",
+        description: "Failed to remove collaborator",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Collaborators</DialogTitle>
+          <DialogDescription>
+            {isOwner
+              ? "Invite people to curate this board with you"
+              : "People who curate this board"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isOwner && (
+          <div className="space-y-2">
+            <div className="flex gap-2">
+              <div className="relative flex-1">
+                <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search by name or email"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className="pl-9 rounded-xl"
+                />
+              </div>
+              <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as BoardRole)}>
+                <SelectTrigger className="w-28 rounded-xl">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BOARD_ROLES.map((role) => (
+                    <SelectItem key={role.value} value={role.value}>
+                      {role.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {results.length > 0 && (
+              <div className="rounded-xl border divide-y max-h-48 overflow-y-auto">
+                {results.map((profile) => (
+                  <button
+                    key={profile.user_id}
+                    type="button"
+                    className="flex w-full items-center gap-3 p-2 text-left hover:bg-muted disabled:opacity-50"
+                    disabled={busyId === profile.user_id}
+                    onClick={() => handleInvite(profile)}
+                  >
+                    <Avatar className="h-8 w-8">
+                      <AvatarImage src={profile.avatar_url} />
+                      <AvatarFallback>{profile.email?.charAt(0).toUpperCase()}</AvatarFallback>
+                    </Avatar>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{displayName(profile)}</p>
+                      {profile.full_name && (
+                        <p className="text-xs text-muted-foreground truncate">{profile.email}</p>
+                      )}
+                    </div>
+                    <UserPlus className="h-4 w-4 text-muted-foreground" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="space-y-2">
+          {collaborators.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">No collaborators yet</p>
+          ) : (
+            collaborators.map((collaborator) => (
+              <div key={collaborator.id} className="flex items-center gap-3">
+                <Avatar className="h-8 w-8">
+                  <AvatarImage src={collaborator.profiles?.avatar_url} />
+                  <AvatarFallback>{collaborator.profiles?.email?.charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <p className="flex-1 min-w-0 text-sm font-medium truncate">
+                  {displayName(collaborator.profiles)}
+                  {collaborator.user_id === currentUserId && (
+                    <span className="text-muted-foreground font-normal"> (you)</span>
+                  )}
+                </p>
+                {isOwner ? (
+                  <Select
+                    value={collaborator.role}
+                    onValueChange={(value) => handleRoleChange(collaborator, value as BoardRole)}
+                    disabled={busyId === collaborator.user_id}
+                  >
+                    <SelectTrigger className="w-28 h-8 rounded-lg">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {BOARD_ROLES.map((role) => (
+                        <SelectItem key={role.value} value={role.value}>
+                          {role.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <span className="text-xs text-muted-foreground">
+                    {BOARD_ROLES.find((role) => role.value === collaborator.role)?.label}
+                  </span>
+                )}
+                {(isOwner || collaborator.user_id === currentUserId) && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    disabled={busyId === collaborator.user_id}
+                    onClick={() => handleRemove(collaborator)}
+                    aria-label={isOwner ? "Remove collaborator" : "Leave board"}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BoardCollaboratorsDialog;
@@ -3,6 +3,7 @@ import { Button } from "@/components/ui/button";
 import { Camera, Upload, X } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { ACCEPTED_IMAGE_TYPES, uploadImage, validateImageFile } from "@/lib/imageUpload";
 
 interface BoardImageUploadProps {
   boardId: string;
@@ -20,28 +21,20 @@ const BoardImageUpload = ({
   const fileInputRef = useRef<HTMLInputElement>(null);
   const { toast } = useToast();
 
-  const uploadImage = async (file: File) => {
+  const uploadCover = async (file: File) => {
     try {
       setUploading(true);
       
-      const fileExt = file.name.split('.').pop();
-      const fileName = `boards/${boardId}/cover.${fileExt}`;
-      
-      // Upload to Supabase storage
-      const { error: uploadError } = await supabase.storage
-        .from('pin-images')
-        .upload(fileName, file, { upsert: true });
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      // Get the public URL
-      const { data } = supabase.storage
-        .from('pin-images')
-        .getPublicUrl(fileName);
+      // The cover is overwritten in place, so version the URL to keep caches from serving the old one
+      const { publicUrl } = await uploadImage({
+        file,
+        kind: "cover",
+        bucket: "pin-images",
+        pathWithoutExtension: `boards/${boardId}/cover`,
+        upsert: true,
+      });
 
-      const imageUrl = data.publicUrl;
+      const imageUrl = `${publicUrl}?v=${Date.now()}`;
 
       // Update the board's cover image
       const { error: updateError } = await supabase
@@ -109,27 +102,18 @@ const BoardImageUpload = ({
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select an image file",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Validate file size (10MB max for board covers)
-    if (file.size > 10 * 1024 * 1024) {
+    try {
+      validateImageFile(file, "cover");
+    } catch (error) {
       toast({
-        title: "File too large",
-        description: "Please select an image smaller than 10MB",
+        title: "Invalid image",
+        description: (error as Error).message,
         variant: "destructive",
       });
       return;
     }
 
-    uploadImage(file);
+    uploadCover(file);
     
     // Reset the input value
     if (fileInputRef.current) {
@@ -232,7 +216,7 @@ const BoardImageUpload = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
         onChange={handleFileSelect}
         className="hidden"
       />
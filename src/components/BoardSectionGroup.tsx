@@ -0,0 +1,103 @@
+import { useState, ReactNode } from "react";
+import { Button } from "@/components/ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { ChevronDown, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface BoardSectionGroupProps {
+  title: string;
+  count: number;
+  children: ReactNode;
+  // Rename and delete are offered only when both are set
+  onRename?: () => void;
+  onDelete?: () => void;
+}
+
+const BoardSectionGroup = ({ title, count, children, onRename, onDelete }: BoardSectionGroupProps) => {
+  const [open, setOpen] = useState(true);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-8">
+      <div className="flex items-center gap-2 px-4 mb-4">
+        <CollapsibleTrigger asChild>
+          <button
+            type="button"
+            className="flex items-center gap-2 text-left rounded-md focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+          >
+            <ChevronDown className={cn("h-5 w-5 transition-transform", !open && "-rotate-90")} />
+            <h2 className="text-lg md:text-xl font-semibold">{title}</h2>
+            <span className="text-sm text-muted-foreground">
+              {count} {count === 1 ? 'pin' : 'pins'}
+            </span>
+          </button>
+        </CollapsibleTrigger>
+        {onRename && onDelete && (
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-full" aria-label="Section options">
+                <MoreHorizontal className="h-4 w-4" />
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="start">
+              <DropdownMenuItem onClick={onRename}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Rename Section
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => setShowDeleteDialog(true)}
+                className="text-destructive focus:text-destructive"
+              >
+                <Trash2 className="mr-2 h-4 w-4" />
+                Delete Section
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+        )}
+      </div>
+
+      <CollapsibleContent>
+        {count === 0 ? (
+          <p className="px-4 text-sm text-muted-foreground">No pins in this section yet</p>
+        ) : (
+          children
+        )}
+      </CollapsibleContent>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Section</AlertDialogTitle>
+            <AlertDialogDescription>
+              Delete "{title}"? Its pins stay on the board and move back to unsorted.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={onDelete} className="bg-destructive hover:bg-destructive/90">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Collapsible>
+  );
+};
+
+export default BoardSectionGroup;
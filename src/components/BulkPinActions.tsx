@@ -0,0 +1,203 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidatePins } from "@/data";
+import { Copy, EyeOff, FolderInput, Trash2, X } from "lucide-react";
+import { EditableBoard, fetchEditableBoards } from "@/lib/boardCollaborators";
+import { BulkPinAction, BulkPinResult, applyBulkPinAction, summarizeBulkResults } from "@/lib/bulkPins";
+
+interface BulkPinActionsProps {
+  selectedPins: { id: string; saved_pin_id?: string }[];
+  totalCount: number;
+  currentUserId: string;
+  // Left out of the move and copy targets, e.g. the board being viewed
+  currentBoardId?: string;
+  onSelectAll: () => void;
+  onClear: () => void;
+  onExit: () => void;
+  onApplied: (action: BulkPinAction, results: BulkPinResult[], options: { targetBoardId?: string; nsfw?: boolean }) => void;
+}
+
+const VERBS: Record<BulkPinAction, string> = {
+  move: "moved",
+  copy: "copied",
+  delete: "deleted",
+  set_nsfw: "updated",
+};
+
+const BulkPinActions = ({
+  selectedPins,
+  totalCount,
+  currentUserId,
+  currentBoardId,
+  onSelectAll,
+  onClear,
+  onExit,
+  onApplied,
+}: BulkPinActionsProps) => {
+  const [boards, setBoards] = useState<EditableBoard[]>([]);
+  const [boardAction, setBoardAction] = useState<"move" | "copy" | null>(null);
+  const [showDeleteDialog, setShowDeleteDialog] = useState(false);
+  const [applying, setApplying] = useState(false);
+  const { toast } = useToast();
+  const invalidatePins = useInvalidatePins();
+
+  useEffect(() => {
+    if (!boardAction) return;
+    fetchEditableBoards(currentUserId)
+      .then((editable) => setBoards(editable.filter((board) => board.id !== currentBoardId)))
+      .catch((error) => console.error('Error fetching boards:', error));
+  }, [boardAction, currentUserId, currentBoardId]);
+
+  const apply = async (action: BulkPinAction, options: { targetBoardId?: string; nsfw?: boolean } = {}) => {
+    setApplying(true);
+    try {
+      const results = await applyBulkPinAction({ pins: selectedPins, action, ...options });
+      const failed = results.some((result) => !result.ok);
+      toast({
+        title: failed ? "Some pins weren't changed" : "Done",
+        description: summarizeBulkResults(results, VERBS[action]),
+        variant: failed && results.every((result) => !result.ok) ? "destructive" : "default",
+      });
+      onApplied(action, results, options);
+      invalidatePins();
+      setBoardAction(null);
+      setShowDeleteDialog(false);
+    } catch (error) {
+      console.error('Bulk action error:', error);
+      toast({
+        title: "Error",
+        description: "Nothing was changed. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setApplying(false);
+    }
+  };
+
+  const count = selectedPins.length;
+
+  return (
+    <>
+      <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 flex items-center gap-1 md:gap-2 rounded-full border bg-background/95 backdrop-blur px-3 py-2 shadow-lg">
+        <span className="px-2 text-sm font-medium whitespace-nowrap">
+          {count} selected
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-full hidden sm:inline-flex"
+          onClick={count === totalCount ? onClear : onSelectAll}
+        >
+          {count === totalCount ? "Clear" : "Select all"}
+        </Button>
+        <Button variant="ghost" size="sm" className="rounded-full" disabled={!count || applying} onClick={() => setBoardAction("move")}>
+          <FolderInput className="h-4 w-4 md:mr-2" />
+          <span className="hidden md:inline">Move</span>
+        </Button>
+        <Button variant="ghost" size="sm" className="rounded-full" disabled={!count || applying} onClick={() => setBoardAction("copy")}>
+          <Copy className="h-4 w-4 md:mr-2" />
+          <span className="hidden md:inline">Copy</span>
+        </Button>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="rounded-full" disabled={!count || applying}>
+              <EyeOff className="h-4 w-4 md:mr-2" />
+              <span className="hidden md:inline">NSFW</span>
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="center">
+            <DropdownMenuItem onClick={() => apply("set_nsfw", { nsfw: true })}>Mark as NSFW</DropdownMenuItem>
+            <DropdownMenuItem onClick={() => apply("set_nsfw", { nsfw: false })}>Remove NSFW flag</DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="rounded-full text-destructive hover:text-destructive"
+          disabled={!count || applying}
+          onClick={() => setShowDeleteDialog(true)}
+        >
+          <Trash2 className="h-4 w-4 md:mr-2" />
+          <span className="hidden md:inline">Delete</span>
+        </Button>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0 rounded-full" onClick={onExit} aria-label="Exit selection">
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+
+      <Dialog open={boardAction !== null} onOpenChange={(open) => !open && setBoardAction(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{boardAction === "move" ? "Move" : "Copy"} {count} {count === 1 ? "pin" : "pins"}</DialogTitle>
+            <DialogDescription>
+              {boardAction === "move"
+                ? "Choose the board these pins should live on"
+                : "Choose a board to save copies of these pins to"}
+            </DialogDescription>
+          </DialogHeader>
+          {boards.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No other boards to choose from</p>
+          ) : (
+            <div className="space-y-1 max-h-72 overflow-y-auto">
+              {boards.map((board) => (
+                <Button
+                  key={board.id}
+                  variant="ghost"
+                  className="w-full justify-start"
+                  disabled={applying}
+                  onClick={() => boardAction && apply(boardAction, { targetBoardId: board.id })}
+                >
+                  <span className="truncate">{board.name}</span>
+                  {board.role === "editor" && (
+                    <span className="ml-auto text-xs text-muted-foreground">Shared</span>
+                  )}
+                </Button>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={showDeleteDialog} onOpenChange={setShowDeleteDialog}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {count} {count === 1 ? "pin" : "pins"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Pins you created are deleted for good. Pins saved from someone else are only removed from this board.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => apply("delete")}
+              disabled={applying}
+              className="bg-destructive hover:bg-destructive/90"
+            >
+              {applying ? "Deleting..." : "Delete"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default BulkPinActions;
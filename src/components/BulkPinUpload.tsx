@@ -0,0 +1,455 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { useInvalidatePins } from "@/data";
+import { AlertCircle, CheckCircle2, ImagePlus, RotateCcw, X } from "lucide-react";
+import { BoardSection, fetchBoardSections } from "@/lib/boardSections";
+import {
+  MAX_BULK_FILES,
+  MAX_UPLOAD_ATTEMPTS,
+  UPLOAD_CONCURRENCY,
+  createPins,
+  removePinImages,
+  retryDelay,
+  titleFromFileName,
+  uploadPinImage,
+} from "@/lib/bulkUpload";
+import { ACCEPTED_IMAGE_TYPES, ImageUploadError, ProcessedImage, UploadedImage, processImage } from "@/lib/imageUpload";
+
+// Select items can't use an empty value, so "no section" gets its own
+const UNSORTED = "unsorted";
+
+type DraftStatus = "queued" | "uploading" | "uploaded" | "failed";
+
+interface PinDraft {
+  id: string;
+  file: File;
+  previewUrl: string;
+  title: string;
+  description: string;
+  status: DraftStatus;
+  progress: number;
+  attempts: number;
+  // A failed upload waits in the queue until this time
+  retryAt?: number;
+  error?: string;
+  // Kept between attempts so a retry only repeats the upload
+  processed?: ProcessedImage;
+  // Set once the upload finishes
+  image?: UploadedImage;
+}
+
+interface Board {
+  id: string;
+  name: string;
+  role?: "owner" | "editor";
+}
+
+interface BulkPinUploadProps {
+  files: File[];
+  boards: Board[];
+  userId: string;
+  onDone: () => void;
+  onCancel: () => void;
+}
+
+const toDraft = (file: File): PinDraft => ({
+  id: crypto.randomUUID(),
+  file,
+  previewUrl: URL.createObjectURL(file),
+  title: titleFromFileName(file.name),
+  description: "",
+  status: "queued",
+  progress: 0,
+  attempts: 0,
+});
+
+const BulkPinUpload = ({ files, boards, userId, onDone, onCancel }: BulkPinUploadProps) => {
+  const [drafts, setDrafts] = useState<PinDraft[]>(() => files.slice(0, MAX_BULK_FILES).map(toDraft));
+  const [selectedBoard, setSelectedBoard] = useState("");
+  const [sections, setSections] = useState<BoardSection[]>([]);
+  const [selectedSection, setSelectedSection] = useState(UNSORTED);
+  const [isNsfw, setIsNsfw] = useState(false);
+  const [committing, setCommitting] = useState(false);
+  const [error, setError] = useState("");
+  const [isDragging, setIsDragging] = useState(false);
+  // When the queue last looked for retries that are due
+  const [clock, setClock] = useState(() => Date.now());
+  const started = useRef(new Set<string>());
+  const draftsRef = useRef(drafts);
+  const { toast } = useToast();
+  const invalidatePins = useInvalidatePins();
+
+  draftsRef.current = drafts;
+
+  const updateDraft = (id: string, changes: Partial<PinDraft>) => {
+    setDrafts((current) => current.map((draft) => (draft.id === id ? { ...draft, ...changes } : draft)));
+  };
+
+  // Previews are object URLs, which live until revoked
+  useEffect(() => () => draftsRef.current.forEach((draft) => URL.revokeObjectURL(draft.previewUrl)), []);
+
+  useEffect(() => {
+    setSections([]);
+    setSelectedSection(UNSORTED);
+    if (!selectedBoard) return;
+
+    let cancelled = false;
+    fetchBoardSections(selectedBoard)
+      .then((boardSections) => {
+        if (!cancelled) setSections(boardSections);
+      })
+      .catch((error) => console.error('Error fetching sections:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBoard]);
+
+  // Keep up to UPLOAD_CONCURRENCY uploads running, pulling from the queue in order.
+  // Failures go back in the queue, backing off, until they run out of attempts.
+  useEffect(() => {
+    const active = drafts.filter((draft) => draft.status === "uploading").length;
+    const next = drafts
+      .filter((draft) => draft.status === "queued" && !started.current.has(draft.id))
+      .filter((draft) => !draft.retryAt || draft.retryAt <= clock)
+      .slice(0, Math.max(0, UPLOAD_CONCURRENCY - active));
+
+    next.forEach(async (draft) => {
+      started.current.add(draft.id);
+      updateDraft(draft.id, { status: "uploading", progress: 0, retryAt: undefined, error: undefined });
+      try {
+        let processed = draft.processed;
+        if (!processed) {
+          processed = await processImage(draft.file, "pin");
+          updateDraft(draft.id, { processed });
+        }
+        const image = await uploadPinImage(processed, userId, (progress) =>
+          updateDraft(draft.id, { progress })
+        );
+        updateDraft(draft.id, { status: "uploaded", progress: 1, image, processed: undefined });
+      } catch (error) {
+        console.error('Upload error:', error);
+        // A file we can't process won't get better by trying again
+        const attempts = error instanceof ImageUploadError ? MAX_UPLOAD_ATTEMPTS : draft.attempts + 1;
+        updateDraft(draft.id, {
+          status: attempts < MAX_UPLOAD_ATTEMPTS ? "queued" : "failed",
+          attempts,
+          retryAt: Date.now() + retryDelay(attempts),
+          progress: 0,
+          error: error instanceof Error ? error.message : "Upload failed",
+        });
+      } finally {
+        started.current.delete(draft.id);
+      }
+    });
+  }, [drafts, userId, clock]);
+
+  // Wake the queue when the next backed-off retry is due
+  useEffect(() => {
+    const due = drafts
+      .filter((draft) => draft.status === "queued" && draft.retryAt)
+      .map((draft) => draft.retryAt!);
+    if (due.length === 0) return;
+
+    const timer = setTimeout(() => setClock(Date.now()), Math.max(0, Math.min(...due) - Date.now()));
+    return () => clearTimeout(timer);
+  }, [drafts, clock]);
+
+  const addFiles = (incoming: File[]) => {
+    const images = incoming.filter((file) => ACCEPTED_IMAGE_TYPES.includes(file.type));
+    const room = MAX_BULK_FILES - drafts.length;
+    if (images.length > room) {
+      toast({
+        title: "Too many images",
+        description: `You can upload up to ${MAX_BULK_FILES} images at once.`,
+        variant: "destructive",
+      });
+    }
+    setDrafts((current) => [...current, ...images.slice(0, Math.max(0, room)).map(toDraft)]);
+  };
+
+  const removeDraft = (draft: PinDraft) => {
+    URL.revokeObjectURL(draft.previewUrl);
+    setDrafts((current) => current.filter((item) => item.id !== draft.id));
+    if (draft.image) {
+      removePinImages([draft.image.path]).catch((error) => console.error('Error removing image:', error));
+    }
+  };
+
+  const retry = (ids: string[]) => {
+    setDrafts((current) =>
+      current.map((draft) =>
+        ids.includes(draft.id) ? { ...draft, status: "queued", attempts: 0, retryAt: undefined, error: undefined } : draft
+      )
+    );
+  };
+
+  const handleCancel = () => {
+    removePinImages(drafts.filter((draft) => draft.image).map((draft) => draft.image!.path))
+      .catch((error) => console.error('Error removing images:', error));
+    onCancel();
+  };
+
+  const uploaded = drafts.filter((draft) => draft.status === "uploaded");
+  const failed = drafts.filter((draft) => draft.status === "failed");
+  const overallProgress = drafts.length
+    ? (drafts.reduce((sum, draft) => sum + draft.progress, 0) / drafts.length) * 100
+    : 0;
+  const allUploaded = drafts.length > 0 && uploaded.length === drafts.length;
+  const missingTitle = drafts.some((draft) => !draft.title.trim());
+
+  const handleCommit = async () => {
+    if (!allUploaded || !selectedBoard || missingTitle) return;
+
+    setCommitting(true);
+    setError("");
+    try {
+      await createPins(
+        drafts.map((draft) => ({
+          title: draft.title.trim(),
+          description: draft.description.trim() || null,
+          image_url: draft.image!.publicUrl,
+          width: draft.image!.width,
+          height: draft.image!.height,
+          blurhash: draft.image!.blurhash,
+          board_id: selectedBoard,
+          section_id: selectedSection === UNSORTED ? null : selectedSection,
+          user_id: userId,
+          is_nsfw: isNsfw,
+        }))
+      );
+      invalidatePins();
+      toast({
+        title: "Pins created!",
+        description: `${drafts.length} ${drafts.length === 1 ? "pin was" : "pins were"} saved to your board.`,
+      });
+      onDone();
+    } catch (error) {
+      console.error('Error creating pins:', error);
+      setError(error instanceof Error ? error.message : "Failed to create pins");
+    } finally {
+      setCommitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div
+        className={`border-2 border-dashed rounded-lg p-4 text-center transition-colors ${
+          isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25"
+        }`}
+        onDragOver={(e) => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={(e) => {
+          e.preventDefault();
+          setIsDragging(false);
+          addFiles(Array.from(e.dataTransfer.files));
+        }}
+      >
+        <input
+          type="file"
+          accept={ACCEPTED_IMAGE_TYPES.join(",")}
+          multiple
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = "";
+          }}
+          className="hidden"
+          id="bulk-image-upload"
+          disabled={committing || drafts.length >= MAX_BULK_FILES}
+        />
+        <label htmlFor="bulk-image-upload" className="cursor-pointer inline-flex items-center text-sm text-muted-foreground">
+          <ImagePlus className="h-4 w-4 mr-2" />
+          Drop more images here or choose files ({drafts.length}/{MAX_BULK_FILES})
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span>
+            {uploaded.length} of {drafts.length} uploaded
+            {failed.length > 0 && <span className="text-destructive"> · {failed.length} failed</span>}
+          </span>
+          {failed.length > 0 && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => retry(failed.map((draft) => draft.id))}
+            >
+              <RotateCcw className="h-3 w-3 mr-1" />
+              Retry failed
+            </Button>
+          )}
+        </div>
+        <Progress value={overallProgress} />
+      </div>
+
+      <div className="space-y-3">
+        {drafts.map((draft) => (
+          <div key={draft.id} className="flex gap-3 rounded-xl border p-3">
+            <div className="relative h-24 w-24 flex-shrink-0 overflow-hidden rounded-lg bg-muted">
+              <img src={draft.previewUrl} alt="" className="h-full w-full object-cover" />
+              {draft.status === "uploaded" && (
+                <CheckCircle2 className="absolute top-1 right-1 h-5 w-5 text-white drop-shadow" />
+              )}
+              {draft.status === "failed" && (
+                <AlertCircle className="absolute top-1 right-1 h-5 w-5 text-destructive drop-shadow" />
+              )}
+              {(draft.status === "uploading" || draft.status === "queued") && (
+                <div className="absolute inset-x-1 bottom-1">
+                  <Progress value={draft.progress * 100} className="h-1.5" />
+                </div>
+              )}
+            </div>
+
+            <div className="flex-1 min-w-0 space-y-2">
+              <Input
+                value={draft.title}
+                onChange={(e) => updateDraft(draft.id, { title: e.target.value })}
+                placeholder="Add a title"
+                aria-label={`Title for ${draft.file.name}`}
+                className="rounded-xl"
+                disabled={committing}
+              />
+              <Textarea
+                value={draft.description}
+                onChange={(e) => updateDraft(draft.id, { description: e.target.value })}
+                placeholder="Tell everyone what your pin is about"
+                aria-label={`Description for ${draft.file.name}`}
+                rows={2}
+                className="rounded-xl"
+                disabled={committing}
+              />
+              {draft.status === "failed" && (
+                <div className="flex items-center gap-2 text-xs text-destructive">
+                  <span className="truncate">{draft.error}</span>
+                  <Button
+                    type="button"
+                    variant="link"
+                    size="sm"
+                    className="h-auto p-0 text-xs"
+                    onClick={() => retry([draft.id])}
+                  >
+                    Retry
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 flex-shrink-0 rounded-full"
+              onClick={() => removeDraft(draft)}
+              disabled={committing || draft.status === "uploading"}
+              aria-label={`Remove ${draft.file.name}`}
+            >
+              <X className="h-4 w-4" />
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="bulk-board">Board *</Label>
+          <Select value={selectedBoard} onValueChange={setSelectedBoard}>
+            <SelectTrigger id="bulk-board" className="rounded-xl">
+              <SelectValue placeholder="Choose a board" />
+            </SelectTrigger>
+            <SelectContent>
+              {boards.map((board) => (
+                <SelectItem key={board.id} value={board.id}>
+                  {board.name}
+                  {board.role === "editor" && (
+                    <span className="text-muted-foreground"> · Shared</span>
+                  )}
+                </SelectItem>
+              ))}
+              {boards.length === 0 && (
+                <SelectItem value="none" disabled>
+                  No boards found - create one first
+                </SelectItem>
+              )}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {sections.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="bulk-section">Section</Label>
+            <Select value={selectedSection} onValueChange={setSelectedSection}>
+              <SelectTrigger id="bulk-section" className="rounded-xl">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={UNSORTED}>No section</SelectItem>
+                {sections.map((section) => (
+                  <SelectItem key={section.id} value={section.id}>
+                    {section.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2">
+          <Checkbox
+            id="bulk-nsfw"
+            checked={isNsfw}
+            onCheckedChange={(checked) => setIsNsfw(!!checked)}
+          />
+          <Label htmlFor="bulk-nsfw" className="text-sm font-normal">
+            Mark all as NSFW (Adult content)
+          </Label>
+        </div>
+      </div>
+
+      {error && (
+        <Alert variant="destructive">
+          <AlertDescription>{error}</AlertDescription>
+        </Alert>
+      )}
+
+      <div className="flex gap-4">
+        <Button
+          type="button"
+          onClick={handleCommit}
+          disabled={committing || !allUploaded || !selectedBoard || missingTitle}
+          className="flex-1 rounded-xl"
+        >
+          {committing
+            ? "Creating..."
+            : allUploaded
+              ? `Create ${drafts.length} ${drafts.length === 1 ? "Pin" : "Pins"}`
+              : "Waiting for uploads..."}
+        </Button>
+        <Button
+          type="button"
+          variant="outline"
+          onClick={handleCancel}
+          disabled={committing}
+          className="rounded-xl"
+        >
+          Cancel
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default BulkPinUpload;
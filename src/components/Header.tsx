@@ -8,16 +8,27 @@ import { supabase } from "@/integrations/supabase/client";
 import { Session, User as SupabaseUser } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { SEARCH_FILTERS, SearchFilter, parseSearchFilter } from "@/lib/search";
+import { cn } from "@/lib/utils";
 
 const Header = () => {
   const [session, setSession] = useState<Session | null>(null);
   const [user, setUser] = useState<SupabaseUser | null>(null);
   const [userProfile, setUserProfile] = useState<any>(null);
   const [searchQuery, setSearchQuery] = useState("");
+  const [searchFilter, setSearchFilter] = useState<SearchFilter>("all");
+  const [showFilters, setShowFilters] = useState(false);
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
 
+  // Keep the search box in step with the URL, e.g. after back/forward navigation
+  useEffect(() => {
+    const params = new URLSearchParams(location.search);
+    setSearchQuery(params.get("search") ?? "");
+    setSearchFilter(parseSearchFilter(params.get("in")));
+  }, [location.search]);
+
   useEffect(() => {
     // Set up auth state listener
     const { data: { subscription } } = supabase.auth.onAuthStateChange(
@@ -61,12 +72,27 @@ const Header = () => {
     navigate("/");
   };
 
+  const runSearch = (query: string, filter: SearchFilter) => {
+    if (!query.trim()) {
+      navigate('/');
+      return;
+    }
+
+    const params = new URLSearchParams({ search: query.trim() });
+    if (filter !== "all") params.set("in", filter);
+    navigate(`/?${params.toString()}`);
+  };
+
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
+    setShowFilters(false);
+    runSearch(searchQuery, searchFilter);
+  };
+
+  const handleFilterChange = (filter: SearchFilter) => {
+    setSearchFilter(filter);
     if (searchQuery.trim()) {
-      navigate(`/?search=${encodeURIComponent(searchQuery.trim())}`);
-    } else {
-      navigate('/');
+      runSearch(searchQuery, filter);
     }
   };
 
@@ -132,8 +158,32 @@ const Header = () => {
               placeholder="Search pins..."
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
+              onFocus={() => setShowFilters(true)}
+              onBlur={() => setShowFilters(false)}
               className="w-full h-9 sm:h-10 pl-10 pr-4 rounded-full border border-input bg-background text-sm focus:outline-none focus:ring-2 focus:ring-ring focus:border-transparent"
             />
+            {showFilters && (
+              <div className="absolute left-0 right-0 top-full mt-2 flex flex-wrap gap-2 rounded-2xl border bg-background p-2 shadow-lg">
+                {SEARCH_FILTERS.map((filter) => (
+                  <button
+                    key={filter.value}
+                    type="button"
+                    // Keep focus in the input so the chips stay open
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => handleFilterChange(filter.value)}
+                    className={cn(
+                      "rounded-full px-3 py-1 text-xs font-medium transition-colors",
+                      searchFilter === filter.value
+                        ? "bg-primary text-primary-foreground"
+                        : "bg-muted text-muted-foreground hover:bg-muted/80"
+                    )}
+                    aria-pressed={searchFilter === filter.value}
+                  >
+                    {filter.label}
+                  </button>
+                ))}
+              </div>
+            )}
           </form>
         </div>
 
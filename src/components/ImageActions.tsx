@@ -1,12 +1,17 @@
 import { useState } from "react";
 import { Button } from "@/components/ui/button";
-import { Download, MoreVertical, Trash2 } from "lucide-react";
+import { BookmarkMinus, Check, Download, FolderInput, MoreVertical, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { removeSavedPin } from "@/lib/boardPins";
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import {
@@ -28,6 +33,14 @@ interface ImageActionsProps {
   userId?: string;
   currentUserId?: string;
   onDelete?: () => void;
+  // Set when the pin is shown on a board it was saved into
+  savedPinId?: string;
+  savedBy?: string;
+  onRemoveSaved?: () => void;
+  // Set on boards with sections when the viewer can edit the board
+  sections?: { id: string; name: string }[];
+  sectionId?: string | null;
+  onMoveToSection?: (sectionId: string | null) => void;
 }
 
 const ImageActions = ({ 
@@ -37,14 +50,23 @@ const ImageActions = ({
   pinId, 
   userId, 
   currentUserId, 
-  onDelete 
+  onDelete,
+  savedPinId,
+  savedBy,
+  onRemoveSaved,
+  sections,
+  sectionId,
+  onMoveToSection
 }: ImageActionsProps) => {
   const [downloading, setDownloading] = useState(false);
   const [deleting, setDeleting] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const { toast } = useToast();
 
-  const canDelete = pinId && userId && currentUserId && userId === currentUserId;
+  // A saved entry is removed from the board rather than deleting the original pin
+  const canDelete = !savedPinId && pinId && userId && currentUserId && userId === currentUserId;
+  const canRemoveSaved = savedPinId && currentUserId && savedBy === currentUserId;
+  const canMove = Boolean(sections?.length && onMoveToSection);
 
   const handleDownload = async () => {
     try {
@@ -122,6 +144,31 @@ const ImageActions = ({
     }
   };
 
+  const handleRemoveSaved = async () => {
+    if (!savedPinId) return;
+
+    try {
+      setDeleting(true);
+      await removeSavedPin(savedPinId);
+
+      toast({
+        title: "Removed from board",
+        description: "The saved pin has been removed from this board.",
+      });
+
+      onRemoveSaved?.();
+    } catch (error) {
+      console.error('Remove saved pin error:', error);
+      toast({
+        title: "Remove failed",
+        description: "Could not remove the saved pin. Please try again.",
+        variant: "destructive",
+      });
+    } finally {
+      setDeleting(false);
+    }
+  };
+
   return (
     <>
       <div className={`flex items-center space-x-2 ${className}`}>
@@ -139,7 +186,7 @@ const ImageActions = ({
           )}
         </Button>
         
-        {canDelete && (
+        {(canDelete || canRemoveSaved || canMove) && (
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button
@@ -159,13 +206,45 @@ const ImageActions = ({
                 <span className="mr-2">🔗</span>
                 Open in New Tab
               </DropdownMenuItem>
-              <DropdownMenuItem 
-                onClick={() => setShowDeleteDialog(true)}
-                className="text-destructive focus:text-destructive"
-              >
-                <Trash2 className="mr-2 h-4 w-4" />
-                Delete Pin
-              </DropdownMenuItem>
+              {canMove && (
+                <DropdownMenuSub>
+                  <DropdownMenuSubTrigger>
+                    <FolderInput className="mr-2 h-4 w-4" />
+                    Move to Section
+                  </DropdownMenuSubTrigger>
+                  <DropdownMenuSubContent>
+                    <DropdownMenuItem onClick={() => onMoveToSection?.(null)}>
+                      {!sectionId ? <Check className="mr-2 h-4 w-4" /> : <span className="mr-2 w-4" />}
+                      Unsorted
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    {sections?.map((section) => (
+                      <DropdownMenuItem key={section.id} onClick={() => onMoveToSection?.(section.id)}>
+                        {sectionId === section.id ? <Check className="mr-2 h-4 w-4" /> : <span className="mr-2 w-4" />}
+                        {section.name}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuSubContent>
+                </DropdownMenuSub>
+              )}
+              {canRemoveSaved ? (
+                <DropdownMenuItem 
+                  onClick={handleRemoveSaved}
+                  disabled={deleting}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <BookmarkMinus className="mr-2 h-4 w-4" />
+                  {deleting ? "Removing..." : "Remove from Board"}
+                </DropdownMenuItem>
+              ) : canDelete && (
+                <DropdownMenuItem 
+                  onClick={() => setShowDeleteDialog(true)}
+                  className="text-destructive focus:text-destructive"
+                >
+                  <Trash2 className="mr-2 h-4 w-4" />
+                  Delete Pin
+                </DropdownMenuItem>
+              )}
             </DropdownMenuContent>
           </DropdownMenu>
         )}
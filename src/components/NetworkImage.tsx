@@ -1,6 +1,7 @@
 import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { cn } from '@/lib/utils';
 import { useNetwork } from '@/contexts/NetworkContext';
+import { blurhashToDataURL } from '@/lib/imagePlaceholder';
 
 interface NetworkImageProps {
   src: string;
@@ -12,6 +13,8 @@ interface NetworkImageProps {
   onLoad?: () => void;
   onError?: () => void;
   placeholder?: 'blur' | 'empty' | string;
+  // The stored blurhash makes the low quality layer unnecessary: it's shown instantly instead
+  blurhash?: string | null;
   sizes?: string;
 }
 
@@ -33,6 +36,7 @@ const NetworkImage: React.FC<NetworkImageProps> = ({
   onLoad,
   onError,
   placeholder = 'blur',
+  blurhash,
   sizes,
 }) => {
   const { quality, speed, getOptimalImageParams, metrics } = useNetwork();
@@ -41,6 +45,7 @@ const NetworkImage: React.FC<NetworkImageProps> = ({
   const [isInView, setIsInView] = useState(priority);
   const imgRef = useRef<HTMLImageElement>(null);
   const observerRef = useRef<IntersectionObserver>();
+  const blurhashUrl = useMemo(() => blurhashToDataURL(blurhash), [blurhash]);
 
   // Generate progressive image URLs
   const imageLayers = useMemo(() => {
@@ -166,10 +171,14 @@ const NetworkImage: React.FC<NetworkImageProps> = ({
       }
     };
 
-    // Start with base layer
-    loadLayer('base', layers.base);
+    // The blurhash already covers what the base layer is for, so go straight to the real image
+    if (blurhashUrl && quality !== 'minimal' && speed !== 'offline') {
+      loadLayer('enhancement', layers.enhancement);
+    } else {
+      loadLayer('base', layers.base);
+    }
 
-  }, [isInView, layers, quality, speed, metrics.bandwidth, onLoad, onError]);
+  }, [isInView, layers, quality, speed, metrics.bandwidth, onLoad, onError, blurhashUrl]);
 
   // Image preloader utility
   const preloadImage = (src: string): Promise<void> => {
@@ -200,6 +209,16 @@ const NetworkImage: React.FC<NetworkImageProps> = ({
   // Generate placeholder
   const getPlaceholder = () => {
     if (placeholder === 'empty') return null;
+    if (placeholder === 'blur' && blurhashUrl) {
+      return (
+        <img
+          src={blurhashUrl}
+          alt=""
+          aria-hidden="true"
+          className="absolute inset-0 w-full h-full object-cover"
+        />
+      );
+    }
     if (placeholder === 'blur') {
       return (
         <div 
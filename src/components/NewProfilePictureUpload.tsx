@@ -4,6 +4,7 @@ import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Camera, Upload, Loader2 } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { ACCEPTED_IMAGE_TYPES, uploadImage, validateImageFile } from "@/lib/imageUpload";
 
 interface NewProfilePictureUploadProps {
   currentAvatarUrl?: string;
@@ -27,22 +28,12 @@ const NewProfilePictureUpload = ({
     const file = event.target.files?.[0];
     if (!file) return;
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: "Invalid file type",
-        description: "Please select an image file (JPG, PNG, GIF, etc.)",
-        variant: "destructive",
-      });
-      return;
-    }
-
-    // Validate file size (5MB max)
-    const maxSize = 5 * 1024 * 1024; // 5MB
-    if (file.size > maxSize) {
+    try {
+      validateImageFile(file, "avatar");
+    } catch (error) {
       toast({
-        title: "File too large",
-        description: "Please select an image smaller than 5MB",
+        title: "Invalid image",
+        description: (error as Error).message,
         variant: "destructive",
       });
       return;
@@ -67,17 +58,10 @@ const NewProfilePictureUpload = ({
 
   const uploadProfilePicture = async (file: File) => {
     try {
-      // Generate unique file name with timestamp
-      const timestamp = Date.now();
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${userId}/profile_${timestamp}.${fileExt}`;
+      // The extension follows the processed format
+      const fileName = `${userId}/profile_${Date.now()}`;
 
-      console.log('Starting upload process...');
-      console.log('User ID:', userId);
-      console.log('File name:', fileName);
-
-      // Step 1: Clean up old files
-      console.log('Cleaning up old files...');
+      // Clear out earlier pictures first; a failure here shouldn't stop the upload
       const { data: existingFiles, error: listError } = await supabase.storage
         .from('avatars')
         .list(userId);
@@ -86,59 +70,34 @@ const NewProfilePictureUpload = ({
         console.warn('Could not list existing files:', listError);
       } else if (existingFiles && existingFiles.length > 0) {
         const filesToDelete = existingFiles.map(file => `${userId}/${file.name}`);
-        console.log('Deleting files:', filesToDelete);
-        
         const { error: deleteError } = await supabase.storage
           .from('avatars')
           .remove(filesToDelete);
-          
+
         if (deleteError) {
           console.warn('Could not delete old files:', deleteError);
         }
       }
 
-      // Step 2: Upload new file
-      console.log('Uploading new file...');
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('avatars')
-        .upload(fileName, file, {
-          cacheControl: '3600',
-          upsert: false
-        });
-
-      if (uploadError) {
-        throw new Error(`Upload failed: ${uploadError.message}`);
-      }
-
-      console.log('Upload successful:', uploadData);
-
-      // Step 3: Get public URL
-      const { data: urlData } = supabase.storage
-        .from('avatars')
-        .getPublicUrl(fileName);
-
-      const publicUrl = urlData.publicUrl;
-      console.log('Public URL:', publicUrl);
+      const { publicUrl } = await uploadImage({
+        file,
+        kind: "avatar",
+        bucket: "avatars",
+        pathWithoutExtension: fileName,
+      });
 
-      // Step 4: Update profile in database
-      console.log('Updating profile in database...');
-      const { data: updateData, error: updateError } = await supabase
+      const { error: updateError } = await supabase
         .from('profiles')
         .update({ 
           avatar_url: publicUrl,
           updated_at: new Date().toISOString()
         })
-        .eq('user_id', userId)
-        .select()
-        .single();
+        .eq('user_id', userId);
 
       if (updateError) {
         throw new Error(`Database update failed: ${updateError.message}`);
       }
 
-      console.log('Profile updated successfully:', updateData);
-
-      // Step 5: Update UI
       onAvatarUpdate(publicUrl);
       setPreviewUrl(null);
 
@@ -215,7 +174,7 @@ const NewProfilePictureUpload = ({
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={ACCEPTED_IMAGE_TYPES.join(",")}
         onChange={handleFileChange}
         className="hidden"
       />
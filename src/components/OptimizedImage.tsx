@@ -1,12 +1,13 @@
-import { useState, useEffect, useRef, ImgHTMLAttributes } from 'react';
+import { useState, useEffect, useRef, useMemo, ImgHTMLAttributes } from 'react';
 import { cn } from '@/lib/utils';
+import { blurhashToDataURL } from '@/lib/imagePlaceholder';
 
 /**
  * OptimizedImage Component
  * 
  * Performance optimizations:
  * 1. Native lazy loading for images below the fold
- * 2. Low Quality Image Placeholder (LQIP) blur-up effect
+ * 2. Low Quality Image Placeholder (LQIP) blur-up effect, from a data URL or a blurhash
  * 3. Intersection Observer for precise loading control
  * 4. Aspect ratio preservation to prevent layout shifts (CLS optimization)
  * 5. WebP/AVIF format support via srcset
@@ -17,12 +18,13 @@ interface OptimizedImageProps extends Omit<ImgHTMLAttributes<HTMLImageElement>,
   src: string;
   alt: string;
   className?: string;
-  aspectRatio?: string; // e.g., "16/9", "4/3", "1/1"
+  aspectRatio?: string | number; // e.g., "16/9", "4/3", "1/1" or width / height
   priority?: boolean; // For above-the-fold images
   onLoad?: () => void;
   onError?: () => void;
   fallbackSrc?: string;
   blurDataURL?: string; // Optional placeholder for blur effect
+  blurhash?: string | null; // Decoded into the placeholder when there's no blurDataURL
 }
 
 const OptimizedImage = ({
@@ -35,13 +37,16 @@ const OptimizedImage = ({
   onError,
   fallbackSrc,
   blurDataURL,
+  blurhash,
   ...props
 }: OptimizedImageProps) => {
   const [isLoaded, setIsLoaded] = useState(false);
   const [isInView, setIsInView] = useState(priority); // Priority images load immediately
   const [hasError, setHasError] = useState(false);
-  const imgRef = useRef<HTMLImageElement>(null);
+  // The image isn't rendered until it's in view, so the container is what gets observed
+  const containerRef = useRef<HTMLDivElement>(null);
   const [currentSrc, setCurrentSrc] = useState(src);
+  const placeholder = useMemo(() => blurDataURL ?? blurhashToDataURL(blurhash), [blurDataURL, blurhash]);
 
   // Intersection Observer for lazy loading
   useEffect(() => {
@@ -62,8 +67,8 @@ const OptimizedImage = ({
       }
     );
 
-    if (imgRef.current) {
-      observer.observe(imgRef.current);
+    if (containerRef.current) {
+      observer.observe(containerRef.current);
     }
 
     return () => {
@@ -88,13 +93,14 @@ const OptimizedImage = ({
 
   return (
     <div
+      ref={containerRef}
       className={cn('relative overflow-hidden bg-muted', className)}
       style={aspectRatio ? { aspectRatio } : undefined}
     >
-      {/* Blur placeholder */}
-      {blurDataURL && !isLoaded && isInView && (
+      {/* Blur placeholder, shown straight away so the box is never empty */}
+      {placeholder && !isLoaded && (
         <img
-          src={blurDataURL}
+          src={placeholder}
           alt=""
           className="absolute inset-0 w-full h-full object-cover blur-sm scale-110"
           aria-hidden="true"
@@ -102,14 +108,13 @@ const OptimizedImage = ({
       )}
 
       {/* Loading skeleton */}
-      {!isLoaded && isInView && !blurDataURL && (
+      {!isLoaded && isInView && !placeholder && (
         <div className="absolute inset-0 shimmer" />
       )}
 
       {/* Main image */}
       {(isInView || priority) && !hasError && (
         <img
-          ref={imgRef}
           src={currentSrc}
           alt={alt}
           loading={priority ? 'eager' : 'lazy'}
@@ -118,6 +123,8 @@ const OptimizedImage = ({
           onError={handleError}
           className={cn(
             'w-full h-full object-cover transition-opacity duration-300',
+            // With a known ratio the box is already sized, so the image just fills it
+            aspectRatio && 'absolute inset-0',
             isLoaded ? 'opacity-100' : 'opacity-0',
             className
           )}
@@ -2,13 +2,14 @@ import { useState, useRef, useEffect, memo, useCallback } from "react";
 import { Card } from "@/components/ui/card";
 import { gsapAnimations } from "@/hooks/useGSAP";
 import { Button } from "@/components/ui/button";
-import { Heart, MessageCircle } from "lucide-react";
+import { Bookmark, Heart, MessageCircle } from "lucide-react";
 import { cn } from "@/lib/utils";
 import SavePinDialog from "./SavePinDialog";
 import ImageActions from "./ImageActions";
-import { supabase } from "@/integrations/supabase/client";
 import { motion } from "framer-motion";
 import OptimizedImage from "./OptimizedImage";
+import { splitHighlights } from "@/lib/search";
+import { aspectRatioOf } from "@/lib/imagePlaceholder";
 
 interface Pin {
   id: string;
@@ -20,6 +21,20 @@ interface Pin {
   board_id: string;
   created_at: string;
   is_nsfw?: boolean;
+  // The stored size reserves the card's space before the image loads
+  width?: number | null;
+  height?: number | null;
+  blurhash?: string | null;
+  // Maintained by triggers; missing where a query didn't select them
+  like_count?: number;
+  comment_count?: number;
+  saved_pin_id?: string;
+  saved_by?: string;
+  section_id?: string | null;
+  // Present on search results
+  snippet?: string;
+  matched_on?: "pin" | "board" | "person";
+  board_name?: string;
   profiles?: {
     full_name?: string;
     email: string;
@@ -32,6 +47,9 @@ interface PinCardProps {
   className?: string;
   currentUserId?: string;
   onPinDeleted?: (pinId: string) => void;
+  onSavedPinRemoved?: (savedPinId: string) => void;
+  sections?: { id: string; name: string }[];
+  onMoveToSection?: (pin: { id: string; saved_pin_id?: string }, sectionId: string | null) => void;
   priority?: boolean; // For above-the-fold images
 }
 
@@ -42,13 +60,13 @@ const PinCard = memo(({
   className, 
   currentUserId, 
   onPinDeleted,
+  onSavedPinRemoved,
+  sections,
+  onMoveToSection,
   priority = false 
 }: PinCardProps) => {
   const [isHovered, setIsHovered] = useState(false);
   const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [likesCount, setLikesCount] = useState(0);
-  const [commentsCount, setCommentsCount] = useState(0);
-  const [statsLoaded, setStatsLoaded] = useState(false);
   const [showNsfwContent, setShowNsfwContent] = useState(false);
   const cardRef = useRef<HTMLDivElement>(null);
 
@@ -59,40 +77,18 @@ const PinCard = memo(({
     }
   }, []);
 
-  // Memoize the fetch function to prevent recreating on every render
-  const fetchPinStats = useCallback(async () => {
-    try {
-      // Fetch likes count
-      const { count: likes } = await supabase
-        .from('likes')
-        .select('*', { count: 'exact', head: true })
-        .eq('pin_id', pin.id);
-
-      // Fetch comments count
-      const { count: comments } = await supabase
-        .from('comments')
-        .select('*', { count: 'exact', head: true })
-        .eq('pin_id', pin.id);
-
-      setLikesCount(likes || 0);
-      setCommentsCount(comments || 0);
-      setStatsLoaded(true);
-    } catch (error) {
-      console.error('Error fetching pin stats:', error);
-    }
-  }, [pin.id]);
-
-  // Fetch stats on hover (lazy load stats)
-  useEffect(() => {
-    if (isHovered && !statsLoaded) {
-      fetchPinStats();
-    }
-  }, [isHovered, statsLoaded, fetchPinStats]);
-
   const handlePinDeleted = useCallback(() => {
     onPinDeleted?.(pin.id);
   }, [onPinDeleted, pin.id]);
 
+  const handleSavedPinRemoved = useCallback(() => {
+    if (pin.saved_pin_id) onSavedPinRemoved?.(pin.saved_pin_id);
+  }, [onSavedPinRemoved, pin.saved_pin_id]);
+
+  const handleMoveToSection = useCallback((sectionId: string | null) => {
+    onMoveToSection?.({ id: pin.id, saved_pin_id: pin.saved_pin_id }, sectionId);
+  }, [onMoveToSection, pin.id, pin.saved_pin_id]);
+
   const cardVariants = {
     hidden: { 
       opacity: 0, 
@@ -174,6 +170,8 @@ const PinCard = memo(({
               "w-full",
               pin.is_nsfw && !showNsfwContent && "blur-md"
             )}
+            aspectRatio={aspectRatioOf(pin.width, pin.height)}
+            blurhash={pin.blurhash}
             priority={priority}
           />
           
@@ -241,42 +239,16 @@ const PinCard = memo(({
                   userId={pin.user_id}
                   currentUserId={currentUserId}
                   onDelete={handlePinDeleted}
+                  savedPinId={pin.saved_pin_id}
+                  savedBy={pin.saved_by}
+                  onRemoveSaved={handleSavedPinRemoved}
+                  sections={sections}
+                  sectionId={pin.section_id}
+                  onMoveToSection={onMoveToSection && handleMoveToSection}
                 />
               </motion.div>
             </div>
             
-            {/* Enhanced Stats Overlay */}
-            <div className="absolute bottom-2 left-2 flex items-center gap-2">
-              {statsLoaded && (
-                <motion.div 
-                  className="flex items-center gap-3 bg-black/70 backdrop-blur-sm rounded-full px-3 py-1.5 text-white text-xs"
-                  initial={{ opacity: 0, y: 20, scale: 0.8 }}
-                  animate={{ opacity: 1, y: 0, scale: 1 }}
-                  transition={{ 
-                    type: "spring", 
-                    stiffness: 300, 
-                    damping: 25,
-                    delay: 0.2 
-                  }}
-                >
-                  <motion.div 
-                    className="flex items-center gap-1"
-                    whileHover={{ scale: 1.1 }}
-                  >
-                    <Heart className="h-3 w-3" />
-                    <span>{likesCount}</span>
-                  </motion.div>
-                  <motion.div 
-                    className="flex items-center gap-1"
-                    whileHover={{ scale: 1.1 }}
-                  >
-                    <MessageCircle className="h-3 w-3" />
-                    <span>{commentsCount}</span>
-                  </motion.div>
-                </motion.div>
-              )}
-            </div>
-
             {pin.original_url && (
               <div className="absolute bottom-2 right-2">
                 <motion.div
@@ -323,7 +295,24 @@ const PinCard = memo(({
         >
           {pin.title}
         </motion.h3>
-        {pin.description && (
+        {pin.snippet ? (
+          <motion.p 
+            className="text-xs text-muted-foreground line-clamp-3 mb-2"
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            transition={{ delay: 0.3 }}
+          >
+            {splitHighlights(pin.snippet).map((part, index) =>
+              part.highlighted ? (
+                <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">
+                  {part.text}
+                </mark>
+              ) : (
+                <span key={index}>{part.text}</span>
+              )
+            )}
+          </motion.p>
+        ) : pin.description && (
           <motion.p 
             className="text-xs text-muted-foreground line-clamp-2 mb-2"
             initial={{ opacity: 0 }}
@@ -333,14 +322,43 @@ const PinCard = memo(({
             {pin.description}
           </motion.p>
         )}
-        {pin.profiles && (
+        {pin.matched_on === 'board' && pin.board_name && (
+          <p className="text-xs text-muted-foreground mb-1 truncate">
+            On board <span className="font-medium text-foreground">{pin.board_name}</span>
+          </p>
+        )}
+        {(pin.like_count > 0 || pin.comment_count > 0) && (
+          <div className="flex items-center gap-3 text-xs text-muted-foreground mb-1">
+            {pin.like_count > 0 && (
+              <span className="flex items-center gap-1" title="Likes">
+                <Heart className="h-3 w-3" />
+                {pin.like_count}
+              </span>
+            )}
+            {pin.comment_count > 0 && (
+              <span className="flex items-center gap-1" title="Comments">
+                <MessageCircle className="h-3 w-3" />
+                {pin.comment_count}
+              </span>
+            )}
+          </div>
+        )}
+        {(pin.profiles || pin.saved_pin_id) && (
           <motion.div 
-            className="flex items-center text-xs text-muted-foreground"
+            className="flex items-center gap-2 text-xs text-muted-foreground"
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             transition={{ delay: 0.4 }}
           >
-            <span>{pin.profiles.full_name || pin.profiles.email}</span>
+            {pin.profiles && (
+              <span className="truncate">{pin.profiles.full_name || pin.profiles.email}</span>
+            )}
+            {pin.saved_pin_id && (
+              <span className="flex items-center gap-1 shrink-0" title="Saved to this board">
+                <Bookmark className="h-3 w-3" />
+                Saved
+              </span>
+            )}
           </motion.div>
         )}
       </motion.div>
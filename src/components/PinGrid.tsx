@@ -1,7 +1,11 @@
-import { useState, useEffect, memo } from "react";
+import { useState, useEffect, useLayoutEffect, useRef, useMemo, useCallback, memo, HTMLAttributes } from "react";
 import { useNavigate } from "react-router-dom";
 import PinCard from "./PinCard";
 import { cn } from "@/lib/utils";
+import { boardEntryKey } from "@/lib/boardPins";
+import { MasonryLayout, layoutMasonry, positionMasonry, visibleItems } from "@/lib/masonry";
+import { aspectRatioOf } from "@/lib/imagePlaceholder";
+import { Check } from "lucide-react";
 import { motion } from "framer-motion";
 
 interface Pin {
@@ -13,6 +17,12 @@ interface Pin {
   user_id: string;
   board_id: string;
   created_at: string;
+  width?: number | null;
+  height?: number | null;
+  blurhash?: string | null;
+  saved_pin_id?: string;
+  saved_by?: string;
+  section_id?: string | null;
   profiles?: {
     full_name?: string;
     email: string;
@@ -25,16 +35,117 @@ interface PinGridProps {
   className?: string;
   currentUserId?: string;
   onPinDeleted?: (pinId: string) => void;
+  onSavedPinRemoved?: (savedPinId: string) => void;
+  // Offered in each pin's menu on boards with sections the viewer can edit
+  sections?: { id: string; name: string }[];
+  onMoveToSection?: (pin: { id: string; saved_pin_id?: string }, sectionId: string | null) => void;
+  // Drag-and-drop ordering: called with the dragged pin's index and the index it was dropped on
+  onReorder?: (fromIndex: number, toIndex: number) => void;
+  // Selection mode: set selectedKeys (boardEntryKey of each pin) and clicks select instead of opening
+  selectedKeys?: Set<string>;
+  onSelectionChange?: (keys: Set<string>) => void;
+  // Infinite scroll: onLoadMore fires as the user nears the bottom while hasMore is set
+  hasMore?: boolean;
+  loadingMore?: boolean;
+  onLoadMore?: () => void;
 }
 
+// Matches gap-4
+const GRID_GAP = 16;
+// Title, description and author under the image, for pins that haven't been measured yet
+const CAPTION_HEIGHT_ESTIMATE = 72;
+
+// Reports its rendered height whenever it changes, so positions below it can follow
+const MeasuredCell = ({
+  onHeightChange,
+  ...props
+}: HTMLAttributes<HTMLDivElement> & { onHeightChange: (height: number) => void }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const onHeightChangeRef = useRef(onHeightChange);
+  onHeightChangeRef.current = onHeightChange;
+
+  useLayoutEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    // offsetHeight ignores transforms, so hover and entrance animations don't count
+    const observer = new ResizeObserver(() => onHeightChangeRef.current(element.offsetHeight));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  return <div ref={ref} {...props} />;
+};
+
 // Memoize the component to prevent unnecessary re-renders
-const PinGrid = memo(({ pins, onPinClick, className, currentUserId, onPinDeleted }: PinGridProps) => {
+const PinGrid = memo(({
+  pins,
+  onPinClick,
+  className,
+  currentUserId,
+  onPinDeleted,
+  onSavedPinRemoved,
+  sections,
+  onMoveToSection,
+  onReorder,
+  selectedKeys,
+  onSelectionChange,
+  hasMore = false,
+  loadingMore = false,
+  onLoadMore
+}: PinGridProps) => {
   const [columns, setColumns] = useState(4);
   const navigate = useNavigate();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+  const dragIndexRef = useRef<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  // Last pin clicked in selection mode, the start of a shift-click range
+  const selectionAnchorRef = useRef<number | null>(null);
+
+  const selecting = Boolean(selectedKeys && onSelectionChange);
+  const canReorder = Boolean(onReorder) && !selecting;
+
+  const handleSelectClick = (index: number, shiftKey: boolean) => {
+    if (!selectedKeys || !onSelectionChange) return;
+
+    const next = new Set(selectedKeys);
+    const anchor = selectionAnchorRef.current;
+    if (shiftKey && anchor !== null && anchor < pins.length) {
+      // Ranges take the anchor's state, so shift-click can also clear a run of pins
+      const select = selectedKeys.has(boardEntryKey(pins[anchor]));
+      const [start, end] = anchor < index ? [anchor, index] : [index, anchor];
+      for (const pin of pins.slice(start, end + 1)) {
+        if (select) next.add(boardEntryKey(pin));
+        else next.delete(boardEntryKey(pin));
+      }
+    } else {
+      const key = boardEntryKey(pins[index]);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      selectionAnchorRef.current = index;
+    }
+    onSelectionChange(next);
+  };
 
   // Performance: Prioritize first 6 images for faster LCP (above the fold)
   const PRIORITY_IMAGE_COUNT = 6;
 
+  // Start loading the next page about a screen before the bottom is reached
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || !hasMore || loadingMore || !onLoadMore) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries[0].isIntersecting) onLoadMore();
+      },
+      { rootMargin: '800px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [hasMore, loadingMore, onLoadMore, pins.length]);
+
   useEffect(() => {
     const updateColumns = () => {
       const width = window.innerWidth;
@@ -50,19 +161,144 @@ const PinGrid = memo(({ pins, onPinClick, className, currentUserId, onPinDeleted
     return () => window.removeEventListener('resize', updateColumns);
   }, []);
 
-  // Distribute pins into columns for masonry layout
-  const distributeIntoColumns = () => {
-    const columnArrays: Pin[][] = Array.from({ length: columns }, () => []);
-    
-    pins.forEach((pin, index) => {
-      const columnIndex = index % columns;
-      columnArrays[columnIndex].push(pin);
-    });
-    
-    return columnArrays;
-  };
+  // Shortest-column masonry; the last layout keeps pins already on screen in place
+  const layoutRef = useRef<MasonryLayout | null>(null);
+  const layout = useMemo(
+    () => layoutMasonry(
+      pins.map((pin) => ({ key: boardEntryKey(pin), aspectRatio: aspectRatioOf(pin.width, pin.height) })),
+      columns,
+      layoutRef.current
+    ),
+    [pins, columns]
+  );
+  useEffect(() => {
+    layoutRef.current = layout;
+  }, [layout]);
+
+  // Windowing: only pins within about a screen of the viewport are mounted. They're
+  // absolutely positioned and rendered in pin order, so Tab moves through pins in order
+  // instead of running down one column at a time.
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [containerWidth, setContainerWidth] = useState(0);
+  // Rendered heights by boardEntryKey; pins that haven't been mounted yet are estimated
+  const [measured, setMeasured] = useState<Map<string, number>>(() => new Map());
+  const pendingHeightsRef = useRef(new Map<string, number>());
+  const [mounted, setMounted] = useState<number[]>([]);
+  // Kept mounted with its neighbours so Tab and Shift+Tab always have somewhere to go
+  const [focusedIndex, setFocusedIndex] = useState<number | null>(null);
+  // The first pin on screen and where its top was in the viewport, to hold it still
+  const scrollAnchorRef = useRef<{ key: string; viewportTop: number } | null>(null);
+  // Pins that already played their entrance animation don't replay it when remounted
+  const animatedRef = useRef(new Set<string>());
+  const hasPins = pins.length > 0;
+
+  // Measured before paint so the first frame already has pins in it
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    setContainerWidth(container.clientWidth);
+    const observer = new ResizeObserver(([entry]) => setContainerWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [hasPins]);
+
+  const columnWidth = Math.max(0, (containerWidth - GRID_GAP * (columns - 1)) / columns);
+
+  const { positions, height: gridHeight } = useMemo(
+    () => positionMasonry(
+      layout,
+      (index) => measured.get(layout.keys[index])
+        ?? columnWidth / (aspectRatioOf(pins[index].width, pins[index].height) ?? 1) + CAPTION_HEIGHT_ESTIMATE,
+      columnWidth,
+      GRID_GAP
+    ),
+    [layout, pins, measured, columnWidth]
+  );
 
-  const columnArrays = distributeIntoColumns();
+  // Cells report their height as it changes; the reports are applied once per frame
+  const reportHeight = useCallback((key: string, height: number) => {
+    const pending = pendingHeightsRef.current;
+    if (pending.size === 0) {
+      requestAnimationFrame(() => {
+        const updates = [...pendingHeightsRef.current];
+        pendingHeightsRef.current = new Map();
+        setMeasured((current) => {
+          if (updates.every(([key, height]) => current.get(key) === height)) return current;
+          const next = new Map(current);
+          for (const [key, height] of updates) next.set(key, height);
+          return next;
+        });
+      });
+    }
+    pending.set(key, height);
+  }, []);
+
+  const updateWindow = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const containerTop = container.getBoundingClientRect().top;
+    const viewportHeight = window.innerHeight;
+    const top = -containerTop;
+
+    const next = visibleItems(layout, positions, top - viewportHeight, top + viewportHeight * 2);
+    setMounted((current) =>
+      current.length === next.length && current.every((index, i) => index === next[i]) ? current : next
+    );
+
+    // Nothing to hold still while the top of the grid is on screen
+    const [first] = top > 0 ? visibleItems(layout, positions, top, top + viewportHeight) : [];
+    scrollAnchorRef.current = first === undefined
+      ? null
+      : { key: layout.keys[first], viewportTop: containerTop + positions[first].top };
+  }, [layout, positions]);
+
+  // When pins above the viewport are measured, added or reflowed into a different column
+  // count, scroll by however far the anchor pin moved so the view stays put
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const anchor = scrollAnchorRef.current;
+    if (container && anchor) {
+      const index = layout.keys.indexOf(anchor.key);
+      if (index >= 0) {
+        const drift = container.getBoundingClientRect().top + positions[index].top - anchor.viewportTop;
+        if (Math.abs(drift) >= 1) window.scrollBy(0, drift);
+      }
+    }
+    updateWindow();
+  }, [layout, positions, updateWindow]);
+
+  useEffect(() => {
+    let frame = 0;
+    const handleScroll = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(updateWindow);
+    };
+
+    window.addEventListener('scroll', handleScroll, { passive: true });
+    window.addEventListener('resize', handleScroll);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', handleScroll);
+      window.removeEventListener('resize', handleScroll);
+    };
+  }, [updateWindow]);
+
+  const rendered = useMemo(() => {
+    const indices = new Set(mounted.filter((index) => index < pins.length));
+    if (focusedIndex !== null) {
+      for (const index of [focusedIndex - 1, focusedIndex, focusedIndex + 1]) {
+        if (index >= 0 && index < pins.length) indices.add(index);
+      }
+    }
+    return [...indices].sort((a, b) => a - b);
+  }, [mounted, focusedIndex, pins.length]);
+
+  const openPin = (pin: Pin) => {
+    navigate(`/pin/${pin.id}`);
+    onPinClick?.(pin);
+  };
 
   const containerVariants = {
     hidden: { opacity: 0 },
@@ -133,59 +369,120 @@ const PinGrid = memo(({ pins, onPinClick, className, currentUserId, onPinDeleted
       initial="hidden"
       animate="visible"
     >
-      <motion.div 
-        className="grid gap-4"
-        style={{ 
-          gridTemplateColumns: `repeat(${columns}, 1fr)`,
-        }}
+      <div
+        ref={containerRef}
+        className="relative"
+        // Scroll anchoring is done by hand above; the browser's own would double it up
+        style={{ height: gridHeight, overflowAnchor: 'none' }}
       >
-        {columnArrays.map((columnPins, columnIndex) => (
-            <motion.div
-              key={columnIndex} 
-              className="space-y-4"
-              initial={{ opacity: 0, x: columnIndex % 2 === 0 ? -20 : 20 }}
-              animate={{ opacity: 1, x: 0 }}
-              transition={{ 
-                delay: columnIndex * 0.1,
-                type: "spring" as const,
-                stiffness: 100,
-                damping: 15
-              }}
+        {rendered.map((globalIndex) => {
+          const pin = pins[globalIndex];
+          const key = boardEntryKey(pin);
+          const position = positions[globalIndex];
+          const isPriority = globalIndex < PRIORITY_IMAGE_COUNT;
+
+          return (
+            <MeasuredCell
+              key={key}
+              onHeightChange={(height) => reportHeight(key, height)}
+              style={{ position: 'absolute', top: position.top, left: position.left, width: columnWidth }}
             >
-              {columnPins.map((pin, pinIndex) => {
-                // Calculate global index for priority loading
-                const globalIndex = columnIndex + (pinIndex * columns);
-                const isPriority = globalIndex < PRIORITY_IMAGE_COUNT;
-                
-                return (
-                  <motion.div
-                    key={pin.id}
-                    initial={{ opacity: 0, y: 30 }}
-                    animate={{ opacity: 1, y: 0 }}
-                    transition={{ 
-                      delay: (columnIndex * 0.05) + (pinIndex * 0.1),
-                      type: "spring" as const,
-                      stiffness: 80,
-                      damping: 12
-                    }}
-                  >
-                    <PinCard
-                      pin={pin}
-                      onClick={() => {
-                        navigate(`/pin/${pin.id}`);
-                        onPinClick?.(pin);
-                      }}
-                      className="w-full"
-                      currentUserId={currentUserId}
-                      onPinDeleted={onPinDeleted}
-                      priority={isPriority}
-                    />
-                  </motion.div>
-                );
-              })}
-          </motion.div>
-        ))}
-      </motion.div>
+              <motion.div
+                initial={animatedRef.current.has(key) ? false : { opacity: 0, y: 30 }}
+                animate={{ opacity: 1, y: 0 }}
+                onAnimationComplete={() => animatedRef.current.add(key)}
+                transition={{ 
+                  // Capped so pins appended by infinite scroll don't wait behind the whole column
+                  delay: (layout.columnOf[globalIndex] * 0.05) + Math.min(Math.floor(globalIndex / columns) * 0.1, 0.5),
+                  type: "spring" as const,
+                  stiffness: 80,
+                  damping: 12
+                }}
+              >
+                <div
+                  tabIndex={0}
+                  aria-label={pin.title}
+                  onFocus={(e) => {
+                    if (e.target === e.currentTarget) setFocusedIndex(globalIndex);
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.target !== e.currentTarget || (e.key !== 'Enter' && e.key !== ' ')) return;
+                    e.preventDefault();
+                    if (selecting) handleSelectClick(globalIndex, e.shiftKey);
+                    else openPin(pin);
+                  }}
+                  draggable={canReorder}
+                  onClickCapture={selecting ? (e) => {
+                    e.preventDefault();
+                    e.stopPropagation();
+                    handleSelectClick(globalIndex, e.shiftKey);
+                  } : undefined}
+                  onDragStart={canReorder ? (e) => {
+                    dragIndexRef.current = globalIndex;
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', pin.id);
+                  } : undefined}
+                  onDragOver={canReorder ? (e) => {
+                    if (dragIndexRef.current === null) return;
+                    e.preventDefault();
+                    e.dataTransfer.dropEffect = 'move';
+                    if (dropIndex !== globalIndex) setDropIndex(globalIndex);
+                  } : undefined}
+                  onDrop={canReorder ? (e) => {
+                    e.preventDefault();
+                    const fromIndex = dragIndexRef.current;
+                    dragIndexRef.current = null;
+                    setDropIndex(null);
+                    if (fromIndex !== null && fromIndex !== globalIndex) onReorder?.(fromIndex, globalIndex);
+                  } : undefined}
+                  onDragEnd={canReorder ? () => {
+                    dragIndexRef.current = null;
+                    setDropIndex(null);
+                  } : undefined}
+                  className={cn(
+                    "relative rounded-2xl focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-primary focus-visible:ring-offset-2",
+                    canReorder && "cursor-grab active:cursor-grabbing transition-shadow",
+                    dropIndex === globalIndex && dragIndexRef.current !== globalIndex && "ring-2 ring-primary ring-offset-2",
+                    selecting && "cursor-pointer select-none",
+                    selectedKeys?.has(key) && "ring-4 ring-primary ring-offset-2"
+                  )}
+                  aria-selected={selecting ? selectedKeys?.has(key) : undefined}
+                >
+                  {selecting && (
+                    <span
+                      className={cn(
+                        "absolute top-2 left-2 z-20 flex h-6 w-6 items-center justify-center rounded-full border-2 border-white shadow",
+                        selectedKeys?.has(key) ? "bg-primary text-primary-foreground" : "bg-black/30"
+                      )}
+                      aria-hidden="true"
+                    >
+                      {selectedKeys?.has(key) && <Check className="h-4 w-4" />}
+                    </span>
+                  )}
+                  <PinCard
+                    pin={pin}
+                    onClick={() => openPin(pin)}
+                    className="w-full"
+                    currentUserId={currentUserId}
+                    onPinDeleted={onPinDeleted}
+                    onSavedPinRemoved={onSavedPinRemoved}
+                    sections={sections}
+                    onMoveToSection={onMoveToSection}
+                    priority={isPriority}
+                  />
+                </div>
+              </motion.div>
+            </MeasuredCell>
+          );
+        })}
+      </div>
+
+      <div ref={sentinelRef} aria-hidden="true" />
+      {loadingMore && (
+        <div className="flex justify-center py-8">
+          <div className="w-6 h-6 border-2 border-primary border-t-transparent rounded-full animate-spin" />
+        </div>
+      )}
     </motion.div>
   );
 });
@@ -2,64 +2,49 @@ import { useState, useEffect, useRef } from "react";
 import { useNavigate, useLocation } from "react-router-dom";
 import { Dialog, DialogContent } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
-import { useToast } from "@/hooks/use-toast";
 import SavePinDialog from "./SavePinDialog";
 import PinModalHeader from "./PinModal/PinModalHeader";
 import PinModalComments from "./PinModal/PinModalComments";
 import { useGSAP } from "@/hooks/useGSAP";
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  original_url?: string;
-  user_id: string;
-  created_at: string;
-  profiles?: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
-  };
-}
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles?: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
-  };
-}
+import { PinWithAuthor } from "@/lib/pins";
+import { useForgetPin, useLivePin, usePin, usePinLikes, useSetPin, useToggleLike } from "@/data";
 
 interface PinModalProps {
-  pin: Pin | null;
+  pin: PinWithAuthor | null;
   isOpen: boolean;
   onClose: () => void;
   pinId?: string; // For dynamic routing
 }
 
 const PinModal = ({ pin, isOpen, onClose, pinId }: PinModalProps) => {
-  const [comments, setComments] = useState<Comment[]>([]);
-  const [isLiked, setIsLiked] = useState(false);
-  const [likesCount, setLikesCount] = useState(0);
+  const activePinId = pin?.id ?? pinId;
+  const [userId, setUserId] = useState<string>();
   const [showSaveDialog, setShowSaveDialog] = useState(false);
-  const [currentPin, setCurrentPin] = useState<Pin | null>(pin);
+  const { data: fetchedPin, error: pinError } = usePin(activePinId);
+  const setPin = useSetPin(activePinId ?? "");
+  const { data: likes } = usePinLikes(isOpen ? activePinId : undefined, userId);
+  const toggleLikeMutation = useToggleLike(activePinId ?? "", userId);
+  useLivePin(isOpen ? activePinId : undefined);
+  const forgetPin = useForgetPin();
   const navigate = useNavigate();
   const location = useLocation();
-  const { toast } = useToast();
   const { gsap } = useGSAP();
   const modalRef = useRef<HTMLDivElement>(null);
 
-  // Handle dynamic routing
   useEffect(() => {
-    if (pinId && !pin) {
-      fetchPinById(pinId);
+    supabase.auth.getSession().then(({ data: { session } }) => setUserId(session?.user?.id));
+  }, []);
+
+  // Opened from a link to a pin that's gone or hidden
+  useEffect(() => {
+    if (pin || !pinId) return;
+    if (pinError) {
+      console.error('Error fetching pin:', pinError);
+      navigate('/');
+    } else if (fetchedPin === null) {
+      navigate('/');
     }
-  }, [pinId]);
+  }, [pin, pinId, pinError, fetchedPin, navigate]);
 
   // Handle URL changes for sharing
   useEffect(() => {
@@ -71,42 +56,13 @@ const PinModal = ({ pin, isOpen, onClose, pinId }: PinModalProps) => {
     }
   }, [pin, isOpen, location.pathname]);
 
+  const displayPin = fetchedPin ?? pin;
+
   useEffect(() => {
-    if (currentPin && isOpen) {
-      fetchComments();
-      fetchLikes();
-      checkIfLiked();
+    if (displayPin && isOpen) {
       animateModalEntrance();
     }
-  }, [currentPin, isOpen]);
-
-  const fetchPinById = async (id: string) => {
-    const { data: pinData, error } = await supabase
-      .from('pins')
-      .select('*')
-      .eq('id', id)
-      .single();
-
-    if (error) {
-      console.error('Error fetching pin:', error);
-      navigate('/');
-      return;
-    }
-
-    // Fetch the profile separately
-    const { data: profileData } = await supabase
-      .from('profiles')
-      .select('full_name, email, avatar_url')
-      .eq('user_id', pinData.user_id)
-      .single();
-
-    const pinWithProfile = {
-      ...pinData,
-      profiles: profileData
-    };
-
-    setCurrentPin(pinWithProfile);
-  };
+  }, [displayPin?.id, isOpen]);
 
   const animateModalEntrance = () => {
     if (!modalRef.current) return;
@@ -125,104 +81,11 @@ const PinModal = ({ pin, isOpen, onClose, pinId }: PinModalProps) => {
     onClose();
   };
 
-  const fetchComments = async () => {
-    const activePin = currentPin || pin;
-    if (!activePin) return;
-
-    const { data: commentsData, error } = await supabase
-      .from('comments')
-      .select('*')
-      .eq('pin_id', activePin.id)
-      .order('created_at', { ascending: true });
-
-    if (error) {
-      console.error('Error fetching comments:', error);
-      return;
-    }
-
-    // Fetch profiles for each comment
-    if (commentsData && commentsData.length > 0) {
-      const userIds = [...new Set(commentsData.map(comment => comment.user_id))];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('user_id, full_name, email, avatar_url')
-        .in('user_id', userIds);
-
-      const profilesMap = new Map(profilesData?.map(profile => [profile.user_id, profile]) || []);
-      
-      const commentsWithProfiles = commentsData.map(comment => ({
-        ...comment,
-        profiles: profilesMap.get(comment.user_id)
-      }));
-
-      setComments(commentsWithProfiles);
-    } else {
-      setComments([]);
-    }
-  };
-
-  const fetchLikes = async () => {
-    const activePin = currentPin || pin;
-    if (!activePin) return;
-
-    const { count } = await supabase
-      .from('likes')
-      .select('*', { count: 'exact', head: true })
-      .eq('pin_id', activePin.id);
-
-    setLikesCount(count || 0);
-  };
-
-  const checkIfLiked = async () => {
-    const activePin = currentPin || pin;
-    if (!activePin) return;
-
-    const { data: session } = await supabase.auth.getSession();
-    if (!session.session?.user) return;
-
-    const { data } = await supabase
-      .from('likes')
-      .select('id')
-      .eq('pin_id', activePin.id)
-      .eq('user_id', session.session.user.id)
-      .maybeSingle();
-
-    setIsLiked(!!data);
-  };
-
-  const toggleLike = async () => {
-    const activePin = currentPin || pin;
-    const { data: session } = await supabase.auth.getSession();
-    if (!session.session?.user || !activePin) return;
-
-    if (isLiked) {
-      const { error } = await supabase
-        .from('likes')
-        .delete()
-        .eq('pin_id', activePin.id)
-        .eq('user_id', session.session.user.id);
-
-      if (!error) {
-        setIsLiked(false);
-        setLikesCount(prev => prev - 1);
-      }
-    } else {
-      const { error } = await supabase
-        .from('likes')
-        .insert({
-          pin_id: activePin.id,
-          user_id: session.session.user.id
-        });
-
-      if (!error) {
-        setIsLiked(true);
-        setLikesCount(prev => prev + 1);
-      }
-    }
+  const toggleLike = () => {
+    if (!userId || !likes) return;
+    toggleLikeMutation.mutate(!likes.liked);
   };
 
-
-  const displayPin = currentPin || pin;
   if (!displayPin) return null;
 
   return (
@@ -243,21 +106,22 @@ const PinModal = ({ pin, isOpen, onClose, pinId }: PinModalProps) => {
             <div className="flex flex-col h-full max-h-[55vh] lg:max-h-[95vh] min-h-0">
               <PinModalHeader
                 pin={displayPin}
-                isLiked={isLiked}
-                likesCount={likesCount}
+                isLiked={likes?.liked ?? false}
+                likesCount={likes?.count ?? 0}
                 onLike={toggleLike}
                 onSave={() => setShowSaveDialog(true)}
                 onClose={handleClose}
                 onPinDeleted={() => {
                   handleClose();
-                  // Optionally navigate away or refresh data
+                  forgetPin(displayPin.id);
                 }}
+                onPinUpdated={(updated) => setPin(current => current && { ...current, ...updated })}
               />
               
               <PinModalComments
-                comments={comments}
                 pinId={displayPin.id}
-                onCommentsUpdate={fetchComments}
+                currentUserId={userId}
+                totalCount={displayPin.comment_count ?? 0}
               />
             </div>
           </div>
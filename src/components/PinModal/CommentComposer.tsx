@@ -0,0 +1,192 @@
+import { useState, useEffect, useRef, KeyboardEvent } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { ProfileSummary, searchProfiles } from "@/lib/profiles";
+import { Mention, decodeMentions, encodeMentions, mentionName, mentionQueryAt } from "@/lib/mentions";
+import { cn } from "@/lib/utils";
+
+interface CommentComposerProps {
+  // Stored comment text, with mentions in their @[Name](id) form
+  initialContent?: string;
+  placeholder?: string;
+  submitLabel: string;
+  submittingLabel: string;
+  // Resolves once the comment is saved; the composer clears itself then
+  onSubmit: (content: string) => Promise<void>;
+  onCancel?: () => void;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+const CommentComposer = ({
+  initialContent = "",
+  placeholder = "Add a comment...",
+  submitLabel,
+  submittingLabel,
+  onSubmit,
+  onCancel,
+  autoFocus,
+  className,
+}: CommentComposerProps) => {
+  const [initial] = useState(() => decodeMentions(initialContent));
+  const [text, setText] = useState(initial.text);
+  const [mentions, setMentions] = useState<Mention[]>(initial.mentions);
+  const [mentionQuery, setMentionQuery] = useState<{ start: number; query: string } | null>(null);
+  const [suggestions, setSuggestions] = useState<ProfileSummary[]>([]);
+  const [highlighted, setHighlighted] = useState(0);
+  const [submitting, setSubmitting] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const query = mentionQuery?.query;
+
+  useEffect(() => {
+    if (!query || query.length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const profiles = await searchProfiles(query);
+        if (!cancelled) {
+          setSuggestions(profiles);
+          setHighlighted(0);
+        }
+      } catch (error) {
+        console.error('Error searching profiles:', error);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [query]);
+
+  const updateText = (value: string, caret: number) => {
+    setText(value);
+    setMentionQuery(mentionQueryAt(value, caret));
+  };
+
+  const pickMention = (profile: ProfileSummary) => {
+    if (!mentionQuery) return;
+    const name = mentionName(profile);
+    const end = mentionQuery.start + 1 + mentionQuery.query.length;
+    const inserted = `@${name} `;
+    const value = text.slice(0, mentionQuery.start) + inserted + text.slice(end);
+
+    setText(value);
+    setMentions((current) => [
+      ...current.filter((mention) => mention.name !== name),
+      { userId: profile.user_id, name },
+    ]);
+    setMentionQuery(null);
+    setSuggestions([]);
+
+    const caret = mentionQuery.start + inserted.length;
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(caret, caret);
+    });
+  };
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length === 0) return;
+
+    if (event.key === "ArrowDown" || event.key === "ArrowUp") {
+      event.preventDefault();
+      const step = event.key === "ArrowDown" ? 1 : -1;
+      setHighlighted((current) => (current + step + suggestions.length) % suggestions.length);
+    } else if (event.key === "Enter" || event.key === "Tab") {
+      event.preventDefault();
+      pickMention(suggestions[highlighted]);
+    } else if (event.key === "Escape") {
+      // Closes the list without closing the pin
+      event.preventDefault();
+      event.stopPropagation();
+      setMentionQuery(null);
+      setSuggestions([]);
+    }
+  };
+
+  const handleSubmit = async () => {
+    const content = encodeMentions(text.trim(), mentions);
+    if (!content) return;
+
+    setSubmitting(true);
+    try {
+      await onSubmit(content);
+      setText("");
+      setMentions([]);
+      setMentionQuery(null);
+    } catch {
+      // The caller reports the error; the text stays so it isn't lost
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className={cn("space-y-2 sm:space-y-3", className)}>
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          placeholder={placeholder}
+          value={text}
+          onChange={(e) => updateText(e.target.value, e.target.selectionStart)}
+          onKeyDown={handleKeyDown}
+          onBlur={() => setMentionQuery(null)}
+          className="resize-none border-0 bg-background shadow-sm text-sm sm:text-base"
+          rows={2}
+          autoFocus={autoFocus}
+        />
+        {suggestions.length > 0 && (
+          <div className="absolute bottom-full left-0 mb-1 w-full max-w-xs rounded-md border bg-popover p-1 shadow-md z-50">
+            {suggestions.map((profile, index) => (
+              <button
+                key={profile.user_id}
+                type="button"
+                className={cn(
+                  "flex w-full items-center gap-2 rounded-sm px-2 py-1.5 text-left text-sm",
+                  index === highlighted && "bg-accent text-accent-foreground"
+                )}
+                onMouseDown={(e) => e.preventDefault()}
+                onMouseEnter={() => setHighlighted(index)}
+                onClick={() => pickMention(profile)}
+              >
+                <Avatar className="h-6 w-6">
+                  <AvatarImage src={profile.avatar_url} />
+                  <AvatarFallback>{(profile.full_name || profile.email).charAt(0).toUpperCase()}</AvatarFallback>
+                </Avatar>
+                <span className="truncate">{profile.full_name || profile.email}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      <div className="flex justify-end gap-2">
+        {onCancel && (
+          <Button
+            variant="ghost"
+            onClick={onCancel}
+            disabled={submitting}
+            className="rounded-full px-4 text-xs sm:text-sm h-8"
+          >
+            Cancel
+          </Button>
+        )}
+        <Button
+          onClick={handleSubmit}
+          disabled={!text.trim() || submitting}
+          className="rounded-full px-4 sm:px-6 text-xs sm:text-sm h-8 sm:h-10"
+        >
+          {submitting ? submittingLabel : submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default CommentComposer;
@@ -0,0 +1,296 @@
+import { useState, useEffect, useCallback } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import { History, RotateCcw } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+import { EditableBoard, fetchEditableBoards } from "@/lib/boardCollaborators";
+import {
+  PinRevision,
+  changedFieldLabels,
+  fetchPinRevisions,
+  restorePinRevision,
+  updatePin,
+} from "@/lib/pinRevisions";
+
+interface PinEditDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  pin: {
+    id: string;
+    title: string;
+    description?: string | null;
+    original_url?: string | null;
+    board_id: string;
+    is_nsfw: boolean;
+  };
+  currentUserId: string;
+  onPinUpdated: (pin: Tables<"pins">) => void;
+}
+
+const PinEditDialog = ({ isOpen, onClose, pin, currentUserId, onPinUpdated }: PinEditDialogProps) => {
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [originalUrl, setOriginalUrl] = useState("");
+  const [boardId, setBoardId] = useState("");
+  const [isNsfw, setIsNsfw] = useState(false);
+  const [boards, setBoards] = useState<EditableBoard[]>([]);
+  const [revisions, setRevisions] = useState<PinRevision[]>([]);
+  const [loadingRevisions, setLoadingRevisions] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const { toast } = useToast();
+
+  // Start from the pin as it is each time the dialog opens
+  useEffect(() => {
+    if (!isOpen) return;
+    setTitle(pin.title);
+    setDescription(pin.description ?? "");
+    setOriginalUrl(pin.original_url ?? "");
+    setBoardId(pin.board_id);
+    setIsNsfw(pin.is_nsfw);
+  }, [isOpen, pin]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchEditableBoards(currentUserId)
+      .then(setBoards)
+      .catch((error) => console.error('Error fetching boards:', error));
+  }, [isOpen, currentUserId]);
+
+  const loadRevisions = useCallback(async () => {
+    setLoadingRevisions(true);
+    try {
+      setRevisions(await fetchPinRevisions(pin.id));
+    } catch (error) {
+      console.error('Error fetching revisions:', error);
+    } finally {
+      setLoadingRevisions(false);
+    }
+  }, [pin.id]);
+
+  useEffect(() => {
+    if (isOpen) loadRevisions();
+  }, [isOpen, loadRevisions]);
+
+  const boardName = (id: string) => boards.find((board) => board.id === id)?.name;
+
+  const hasChanges =
+    title.trim() !== pin.title ||
+    (description.trim() || null) !== (pin.description || null) ||
+    (originalUrl.trim() || null) !== (pin.original_url || null) ||
+    boardId !== pin.board_id ||
+    isNsfw !== pin.is_nsfw;
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!title.trim() || !hasChanges) return;
+
+    setSaving(true);
+    try {
+      const updated = await updatePin(pin.id, {
+        title,
+        description,
+        original_url: originalUrl,
+        board_id: boardId,
+        is_nsfw: isNsfw,
+      });
+      onPinUpdated(updated);
+      toast({ description: "Pin updated" });
+      onClose();
+    } catch (error) {
+      console.error('Error updating pin:', error);
+      toast({
+        title: "Error",
+        description: "Failed to update pin",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRestore = async (revision: PinRevision) => {
+    setRestoringId(revision.id);
+    try {
+      const restored = await restorePinRevision(revision.id);
+      onPinUpdated(restored);
+      toast({
+        description: restored.board_id === revision.board_id
+          ? "Earlier version restored"
+          : "Earlier version restored. The pin stayed on its current board because you can no longer add pins to the old one.",
+      });
+      await loadRevisions();
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      toast({
+        title: "Error",
+        description: "Failed to restore this version",
+        variant: "destructive",
+      });
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-lg max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Edit Pin</DialogTitle>
+          <DialogDescription>Changes are kept in the pin's history, so you can go back to an earlier version</DialogDescription>
+        </DialogHeader>
+
+        <Tabs defaultValue="details" className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="details">Details</TabsTrigger>
+            <TabsTrigger value="history">History ({revisions.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="details">
+            <form onSubmit={handleSave} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-title">Title *</Label>
+                <Input
+                  id="edit-title"
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  required
+                  className="rounded-xl"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-description">Description</Label>
+                <Textarea
+                  id="edit-description"
+                  placeholder="Tell everyone what your pin is about"
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                  className="rounded-xl"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-original-url">Link</Label>
+                <Input
+                  id="edit-original-url"
+                  type="url"
+                  placeholder="Add a destination link"
+                  value={originalUrl}
+                  onChange={(e) => setOriginalUrl(e.target.value)}
+                  className="rounded-xl"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="edit-board">Board</Label>
+                <Select value={boardId} onValueChange={setBoardId}>
+                  <SelectTrigger id="edit-board" className="rounded-xl">
+                    <SelectValue placeholder="Choose a board" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* The pin may sit on a board the user can no longer pin to, e.g. after leaving it */}
+                    {!boardName(pin.board_id) && (
+                      <SelectItem value={pin.board_id}>Current board</SelectItem>
+                    )}
+                    {boards.map((board) => (
+                      <SelectItem key={board.id} value={board.id}>
+                        {board.name}
+                        {board.role === "editor" && (
+                          <span className="text-muted-foreground"> · Shared</span>
+                        )}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {boardId !== pin.board_id && (
+                  <p className="text-xs text-muted-foreground">
+                    The pin moves to the top of the new board and out of any section
+                  </p>
+                )}
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Checkbox
+                  id="edit-nsfw"
+                  checked={isNsfw}
+                  onCheckedChange={(checked) => setIsNsfw(!!checked)}
+                />
+                <Label htmlFor="edit-nsfw" className="text-sm font-normal">
+                  Mark as NSFW (Adult content)
+                </Label>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button type="button" variant="outline" onClick={onClose} className="rounded-xl">
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saving || !title.trim() || !hasChanges} className="rounded-xl">
+                  {saving ? "Saving..." : "Save"}
+                </Button>
+              </div>
+            </form>
+          </TabsContent>
+
+          <TabsContent value="history">
+            {loadingRevisions ? (
+              <p className="text-sm text-muted-foreground text-center py-6">Loading history...</p>
+            ) : revisions.length === 0 ? (
+              <div className="text-center py-6 text-muted-foreground">
+                <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+                <p className="text-sm">This pin hasn't been edited yet</p>
+              </div>
+            ) : (
+              <div className="space-y-2">
+                {revisions.map((revision) => (
+                  <div key={revision.id} className="rounded-xl border p-3 space-y-1">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="font-medium truncate">{revision.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          Before {changedFieldLabels(revision).join(", ").toLowerCase()} changed
+                          {" · "}
+                          {formatDistanceToNow(new Date(revision.created_at))} ago
+                          {revision.edited_by && revision.edited_by !== currentUserId && " by a collaborator"}
+                        </p>
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="rounded-full flex-shrink-0"
+                        disabled={restoringId !== null}
+                        onClick={() => handleRestore(revision)}
+                      >
+                        <RotateCcw className="h-3 w-3 mr-1" />
+                        {restoringId === revision.id ? "Restoring..." : "Restore"}
+                      </Button>
+                    </div>
+                    {revision.description && (
+                      <p className="text-sm text-muted-foreground line-clamp-2">{revision.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-x-3 text-xs text-muted-foreground">
+                      <span>Board: {boardName(revision.board_id) ?? "Another board"}</span>
+                      {revision.original_url && <span className="truncate max-w-full">Link: {revision.original_url}</span>}
+                      {revision.is_nsfw && <span>NSFW</span>}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+        </Tabs>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PinEditDialog;
@@ -1,201 +1,299 @@
-import { useState, useEffect } from "react";
+import { useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
-import { Textarea } from "@/components/ui/textarea";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { formatDistanceToNow } from "date-fns";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
-import { supabase } from "@/integrations/supabase/client";
-import { MoreHorizontal, Trash2 } from "lucide-react";
-
-interface Comment {
-  id: string;
-  content: string;
-  created_at: string;
-  user_id: string;
-  profiles?: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
-  };
-}
+import { MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import CommentComposer from "./CommentComposer";
+import { useAddComment, useDeleteComment, useEditComment, usePinComments } from "@/data";
+import { CommentNode, buildCommentTree, replyParentId } from "@/lib/comments";
+import { mentionName, splitMentions } from "@/lib/mentions";
 
 interface PinModalCommentsProps {
-  comments: Comment[];
   pinId: string;
-  onCommentsUpdate: () => void;
+  currentUserId?: string;
+  // The pin's comment_count, which includes threads that aren't loaded yet
+  totalCount: number;
+}
+
+// Which comment has a composer open under it, and what for
+type ComposerTarget = { commentId: string; mode: "reply" | "edit" };
+
+interface CommentItemProps {
+  comment: CommentNode;
+  currentUserId?: string;
+  composer: ComposerTarget | null;
+  onComposerChange: (target: ComposerTarget | null) => void;
+  onReply: (comment: CommentNode, content: string) => Promise<void>;
+  onEdit: (comment: CommentNode, content: string) => Promise<void>;
+  onDelete: (comment: CommentNode) => void;
 }
 
-const PinModalComments = ({ comments, pinId, onCommentsUpdate }: PinModalCommentsProps) => {
-  const [newComment, setNewComment] = useState("");
-  const [loading, setLoading] = useState(false);
-  const [deletingComment, setDeletingComment] = useState<string | null>(null);
-  const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+const CommentItem = ({
+  comment,
+  currentUserId,
+  composer,
+  onComposerChange,
+  onReply,
+  onEdit,
+  onDelete,
+}: CommentItemProps) => {
   const navigate = useNavigate();
+  const isOwn = currentUserId === comment.user_id;
+  const isReplying = composer?.commentId === comment.id && composer.mode === "reply";
+  const isEditing = composer?.commentId === comment.id && composer.mode === "edit";
+  // Replies to the deepest comments join their parent's thread, so they name who they answer
+  const replyPrefill = replyParentId(comment) !== comment.id && comment.profiles && comment.user_id !== currentUserId
+    ? `@[${mentionName(comment.profiles)}](${comment.user_id}) `
+    : "";
+
+  return (
+    <div>
+      <div className="group flex gap-2 sm:gap-3">
+        <Avatar
+          className="h-7 w-7 sm:h-8 sm:w-8 cursor-pointer flex-shrink-0"
+          onClick={() => navigate(`/user/${comment.user_id}`)}
+        >
+          <AvatarImage src={comment.profiles?.avatar_url} />
+          <AvatarFallback>
+            {(comment.profiles?.full_name || comment.profiles?.email || 'U').charAt(0).toUpperCase()}
+          </AvatarFallback>
+        </Avatar>
+        <div className="flex-1 space-y-1 min-w-0">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-1 sm:gap-2 min-w-0">
+              <span
+                className="font-medium text-xs sm:text-sm cursor-pointer hover:text-primary transition-colors truncate"
+                onClick={() => navigate(`/user/${comment.user_id}`)}
+              >
+                {comment.profiles?.full_name || comment.profiles?.email || 'Anonymous'}
+              </span>
+              <span className="text-xs text-muted-foreground whitespace-nowrap">
+                {formatDistanceToNow(new Date(comment.created_at))} ago
+                {comment.edited_at && " (edited)"}
+              </span>
+            </div>
+            {isOwn && !isEditing && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 sm:h-8 sm:w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
+                  >
+                    <MoreHorizontal className="h-3 w-3 sm:h-4 sm:w-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onComposerChange({ commentId: comment.id, mode: "edit" })}>
+                    <Pencil className="h-4 w-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onClick={() => onDelete(comment)}
+                    className="text-destructive focus:text-destructive"
+                  >
+                    <Trash2 className="h-4 w-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+
+          {isEditing ? (
+            <CommentComposer
+              initialContent={comment.content}
+              submitLabel="Save"
+              submittingLabel="Saving..."
+              onSubmit={(content) => onEdit(comment, content)}
+              onCancel={() => onComposerChange(null)}
+              autoFocus
+            />
+          ) : (
+            <p className="text-xs sm:text-sm leading-relaxed break-words whitespace-pre-wrap">
+              {splitMentions(comment.content).map((run, index) =>
+                run.userId ? (
+                  <span
+                    key={index}
+                    className="font-medium text-primary cursor-pointer hover:underline"
+                    onClick={() => navigate(`/user/${run.userId}`)}
+                  >
+                    {run.text}
+                  </span>
+                ) : (
+                  <span key={index}>{run.text}</span>
+                )
+              )}
+            </p>
+          )}
+
+          {currentUserId && !isEditing && (
+            <button
+              type="button"
+              className="text-xs font-medium text-muted-foreground hover:text-foreground transition-colors"
+              onClick={() => onComposerChange(isReplying ? null : { commentId: comment.id, mode: "reply" })}
+            >
+              Reply
+            </button>
+          )}
+
+          {isReplying && (
+            <CommentComposer
+              initialContent={replyPrefill}
+              placeholder="Write a reply..."
+              submitLabel="Reply"
+              submittingLabel="Replying..."
+              onSubmit={(content) => onReply(comment, content)}
+              onCancel={() => onComposerChange(null)}
+              autoFocus
+            />
+          )}
+        </div>
+      </div>
+
+      {comment.replies.length > 0 && (
+        <div className="ml-8 sm:ml-11 mt-3 border-l pl-3 space-y-3">
+          {comment.replies.map((reply) => (
+            <CommentItem
+              key={reply.id}
+              comment={reply}
+              currentUserId={currentUserId}
+              composer={composer}
+              onComposerChange={onComposerChange}
+              onReply={onReply}
+              onEdit={onEdit}
+              onDelete={onDelete}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PinModalComments = ({ pinId, currentUserId, totalCount }: PinModalCommentsProps) => {
+  const [composer, setComposer] = useState<ComposerTarget | null>(null);
+  const { data, isLoading, hasNextPage, fetchNextPage, isFetchingNextPage } = usePinComments(pinId);
+  const addCommentMutation = useAddComment(pinId, currentUserId);
+  const editCommentMutation = useEditComment(pinId);
+  const deleteCommentMutation = useDeleteComment(pinId, currentUserId);
   const { toast } = useToast();
 
-  // Get current user ID
-  useEffect(() => {
-    const getCurrentUser = async () => {
-      const { data: session } = await supabase.auth.getSession();
-      setCurrentUserId(session.session?.user.id || null);
-    };
-    getCurrentUser();
-  }, []);
-
-  const addComment = async () => {
-    if (!newComment.trim()) return;
-
-    setLoading(true);
-    const { data: session } = await supabase.auth.getSession();
-    if (!session.session?.user) return;
-
-    const { error } = await supabase
-      .from('comments')
-      .insert({
-        pin_id: pinId,
-        user_id: session.session.user.id,
-        content: newComment.trim()
-      });
+  const threads = useMemo(() => buildCommentTree(data?.pages.flatMap((page) => page.comments) ?? []), [data]);
 
-    if (error) {
+  const addComment = async (content: string, parentId?: string) => {
+    try {
+      await addCommentMutation.mutateAsync({ id: crypto.randomUUID(), content, parentId });
+    } catch (error) {
+      console.error('Error adding comment:', error);
       toast({
         title: "Error",
-        description: "Failed to add comment",
+        description: parentId ? "Failed to add reply" : "Failed to add comment",
         variant: "destructive",
       });
-    } else {
-      setNewComment("");
-      onCommentsUpdate();
+      throw error;
     }
-    setLoading(false);
   };
 
-  const deleteComment = async (commentId: string) => {
-    if (!currentUserId) return;
-
-    setDeletingComment(commentId);
-    const { error } = await supabase
-      .from('comments')
-      .delete()
-      .eq('id', commentId)
-      .eq('user_id', currentUserId); // Extra security check
+  const replyTo = async (comment: CommentNode, content: string) => {
+    await addComment(content, replyParentId(comment));
+    setComposer(null);
+  };
 
-    if (error) {
+  const editComment = async (comment: CommentNode, content: string) => {
+    // Leave the composer straight away; the edit shows while it saves
+    setComposer(null);
+    try {
+      await editCommentMutation.mutateAsync({ commentId: comment.id, content });
+    } catch (error) {
+      console.error('Error editing comment:', error);
       toast({
         title: "Error",
-        description: "Failed to delete comment",
+        description: "Failed to edit comment",
         variant: "destructive",
       });
-    } else {
-      toast({
-        title: "Comment deleted",
-        description: "Your comment has been deleted successfully.",
-      });
-      onCommentsUpdate();
     }
-    setDeletingComment(null);
+  };
+
+  const deleteComment = (comment: CommentNode) => {
+    deleteCommentMutation.mutate(comment.id, {
+      onSuccess: () => {
+        toast({
+          title: "Comment deleted",
+          description: "Your comment has been deleted successfully.",
+        });
+      },
+      onError: (error) => {
+        console.error('Error deleting comment:', error);
+        toast({
+          title: "Error",
+          description: "Failed to delete comment",
+          variant: "destructive",
+        });
+      },
+    });
   };
 
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-background">
       {/* Comments header */}
       <div className="p-3 sm:p-6 border-b flex-shrink-0">
-        <h3 className="text-base sm:text-lg font-semibold">Comments ({comments.length})</h3>
+        <h3 className="text-base sm:text-lg font-semibold">Comments ({totalCount})</h3>
       </div>
 
       {/* Comments list */}
       <div className="flex-1 overflow-y-auto p-3 sm:p-6 space-y-3 sm:space-y-6 min-h-0">
-        {comments.length === 0 ? (
+        {isLoading ? (
+          <div className="text-center py-6 sm:py-8">
+            <p className="text-sm sm:text-base text-muted-foreground">Loading comments...</p>
+          </div>
+        ) : threads.length === 0 ? (
           <div className="text-center py-6 sm:py-8">
             <p className="text-sm sm:text-base text-muted-foreground">No comments yet. Be the first to comment!</p>
           </div>
         ) : (
-          comments.map((comment) => (
-            <div key={comment.id} className="group">
-              <div className="flex gap-2 sm:gap-3">
-                <Avatar 
-                  className="h-7 w-7 sm:h-8 sm:w-8 cursor-pointer flex-shrink-0"
-                  onClick={() => navigate(`/user/${comment.user_id}`)}
+          <>
+            {threads.map((comment) => (
+              <CommentItem
+                key={comment.id}
+                comment={comment}
+                currentUserId={currentUserId}
+                composer={composer}
+                onComposerChange={setComposer}
+                onReply={replyTo}
+                onEdit={editComment}
+                onDelete={deleteComment}
+              />
+            ))}
+            {hasNextPage && (
+              <div className="flex justify-center">
+                <Button
+                  variant="ghost"
+                  onClick={() => fetchNextPage()}
+                  disabled={isFetchingNextPage}
+                  className="rounded-full text-xs sm:text-sm"
                 >
-                  <AvatarImage src={comment.profiles?.avatar_url} />
-                  <AvatarFallback>
-                    {(comment.profiles?.full_name || comment.profiles?.email || 'U').charAt(0).toUpperCase()}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 space-y-1 min-w-0">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-1 sm:gap-2 min-w-0">
-                      <span 
-                        className="font-medium text-xs sm:text-sm cursor-pointer hover:text-primary transition-colors truncate"
-                        onClick={() => navigate(`/user/${comment.user_id}`)}
-                      >
-                        {comment.profiles?.full_name || comment.profiles?.email || 'Anonymous'}
-                      </span>
-                      <span className="text-xs text-muted-foreground hidden sm:inline">
-                        {formatDistanceToNow(new Date(comment.created_at))} ago
-                      </span>
-                    </div>
-                    {currentUserId === comment.user_id && (
-                      <DropdownMenu>
-                        <DropdownMenuTrigger asChild>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            className="h-6 w-6 sm:h-8 sm:w-8 p-0 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0"
-                            disabled={deletingComment === comment.id}
-                          >
-                            <MoreHorizontal className="h-3 w-3 sm:h-4 sm:w-4" />
-                          </Button>
-                        </DropdownMenuTrigger>
-                        <DropdownMenuContent align="end">
-                          <DropdownMenuItem
-                            onClick={() => deleteComment(comment.id)}
-                            className="text-destructive focus:text-destructive"
-                            disabled={deletingComment === comment.id}
-                          >
-                            <Trash2 className="h-4 w-4 mr-2" />
-                            {deletingComment === comment.id ? "Deleting..." : "Delete"}
-                          </DropdownMenuItem>
-                        </DropdownMenuContent>
-                      </DropdownMenu>
-                    )}
-                  </div>
-                  <p className="text-xs sm:text-sm leading-relaxed break-words">{comment.content}</p>
-                  <span className="text-xs text-muted-foreground sm:hidden">
-                    {formatDistanceToNow(new Date(comment.created_at))} ago
-                  </span>
-                </div>
+                  {isFetchingNextPage ? "Loading..." : "Load more comments"}
+                </Button>
               </div>
-            </div>
-          ))
+            )}
+          </>
         )}
       </div>
 
       {/* Add comment */}
       <div className="p-3 sm:p-6 border-t bg-muted/30 flex-shrink-0">
-        <div className="space-y-2 sm:space-y-3">
-          <Textarea
-            placeholder="Add a comment..."
-            value={newComment}
-            onChange={(e) => setNewComment(e.target.value)}
-            className="resize-none border-0 bg-background shadow-sm text-sm sm:text-base"
-            rows={2}
-          />
-          <div className="flex justify-end">
-            <Button 
-              onClick={addComment} 
-              disabled={!newComment.trim() || loading}
-              className="rounded-full px-4 sm:px-6 text-xs sm:text-sm h-8 sm:h-10"
-            >
-              {loading ? "Posting..." : "Post Comment"}
-            </Button>
-          </div>
-        </div>
+        <CommentComposer
+          submitLabel="Post Comment"
+          submittingLabel="Posting..."
+          onSubmit={(content) => addComment(content)}
+        />
       </div>
     </div>
   );
 };
 
-export default PinModalComments;
\ No newline at end of file
+export default PinModalComments;
@@ -1,10 +1,12 @@
 import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
-import { Heart, MessageCircle, Share, Download, X } from "lucide-react";
+import { Heart, MessageCircle, Share, Download, X, Pencil } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useNavigate } from "react-router-dom";
 import ImageActions from "@/components/ImageActions";
+import PinEditDialog from "@/components/PinModal/PinEditDialog";
 import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
 import { useState, useEffect } from "react";
 
 interface Pin {
@@ -12,6 +14,9 @@ interface Pin {
   title: string;
   description?: string;
   image_url: string;
+  original_url?: string;
+  board_id: string;
+  is_nsfw: boolean;
   user_id: string;
   profiles?: {
     full_name?: string;
@@ -28,12 +33,16 @@ interface PinModalHeaderProps {
   onSave: () => void;
   onClose: () => void;
   onPinDeleted?: () => void;
+  onPinUpdated?: (pin: Tables<"pins">) => void;
 }
 
-const PinModalHeader = ({ pin, isLiked, likesCount, onLike, onSave, onClose, onPinDeleted }: PinModalHeaderProps) => {
+const PinModalHeader = ({ pin, isLiked, likesCount, onLike, onSave, onClose, onPinDeleted, onPinUpdated }: PinModalHeaderProps) => {
   const { toast } = useToast();
   const navigate = useNavigate();
   const [currentUserId, setCurrentUserId] = useState<string | null>(null);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+
+  const isOwner = !!currentUserId && currentUserId === pin.user_id;
 
   useEffect(() => {
     const getCurrentUser = async () => {
@@ -103,6 +112,17 @@ const PinModalHeader = ({ pin, isLiked, likesCount, onLike, onSave, onClose, onP
           >
             <Share className="h-3 w-3 sm:h-4 sm:w-4" />
           </Button>
+          {isOwner && (
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => setShowEditDialog(true)}
+              className="rounded-full hover:bg-muted h-8 w-8 sm:h-10 sm:w-10"
+              aria-label="Edit pin"
+            >
+              <Pencil className="h-3 w-3 sm:h-4 sm:w-4" />
+            </Button>
+          )}
           <ImageActions 
             imageUrl={pin.image_url} 
             title={pin.title}
@@ -167,6 +187,16 @@ const PinModalHeader = ({ pin, isLiked, likesCount, onLike, onSave, onClose, onP
           </div>
         </div>
       </div>
+
+      {isOwner && (
+        <PinEditDialog
+          isOpen={showEditDialog}
+          onClose={() => setShowEditDialog(false)}
+          pin={pin}
+          currentUserId={currentUserId}
+          onPinUpdated={(updated) => onPinUpdated?.(updated)}
+        />
+      )}
     </div>
   );
 };
@@ -4,12 +4,16 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
-import { Plus } from "lucide-react";
+import { useInvalidatePins } from "@/data";
+import { ArrowLeft, FolderOpen, Plus } from "lucide-react";
+import { fetchEditableBoards } from "@/lib/boardCollaborators";
+import { BoardSection, fetchBoardSections } from "@/lib/boardSections";
 
 interface Board {
   id: string;
   name: string;
   cover_image_url?: string;
+  role?: "owner" | "editor";
 }
 
 interface SavePinDialogProps {
@@ -22,10 +26,15 @@ interface SavePinDialogProps {
 const SavePinDialog = ({ isOpen, onClose, pinId, pinTitle }: SavePinDialogProps) => {
   const [boards, setBoards] = useState<Board[]>([]);
   const [loading, setLoading] = useState(false);
+  // Set once a board with sections is picked, while the user chooses a section in it
+  const [pendingBoard, setPendingBoard] = useState<Board | null>(null);
+  const [sections, setSections] = useState<BoardSection[]>([]);
   const { toast } = useToast();
+  const invalidatePins = useInvalidatePins();
 
   useEffect(() => {
     if (isOpen) {
+      setPendingBoard(null);
       fetchUserBoards();
     }
   }, [isOpen]);
@@ -34,24 +43,36 @@ const SavePinDialog = ({ isOpen, onClose, pinId, pinTitle }: SavePinDialogProps)
     const { data: session } = await supabase.auth.getSession();
     if (!session.session?.user) return;
 
-    const { data, error } = await supabase
-      .from('boards')
-      .select('*')
-      .eq('user_id', session.session.user.id)
-      .order('created_at', { ascending: false });
-
-    if (error) {
+    try {
+      setBoards(await fetchEditableBoards(session.session.user.id));
+    } catch (error) {
       toast({
         title: "Error",
         description: "Failed to fetch your boards",
         variant: "destructive",
       });
+    }
+  };
+
+  const handleBoardClick = async (board: Board) => {
+    if (loading) return;
+
+    let boardSections: BoardSection[] = [];
+    try {
+      boardSections = await fetchBoardSections(board.id);
+    } catch (error) {
+      console.error('Error fetching sections:', error);
+    }
+
+    if (boardSections.length === 0) {
+      saveToBoard(board.id, null);
     } else {
-      setBoards(data || []);
+      setSections(boardSections);
+      setPendingBoard(board);
     }
   };
 
-  const saveToBoard = async (boardId: string) => {
+  const saveToBoard = async (boardId: string, sectionId: string | null) => {
     setLoading(true);
     const { data: session } = await supabase.auth.getSession();
     if (!session.session?.user) return;
@@ -61,7 +82,8 @@ const SavePinDialog = ({ isOpen, onClose, pinId, pinTitle }: SavePinDialogProps)
       .insert({
         user_id: session.session.user.id,
         pin_id: pinId,
-        board_id: boardId
+        board_id: boardId,
+        section_id: sectionId
       });
 
     if (error) {
@@ -78,6 +100,7 @@ const SavePinDialog = ({ isOpen, onClose, pinId, pinTitle }: SavePinDialogProps)
         });
       }
     } else {
+      invalidatePins();
       toast({
         title: "Pin saved!",
         description: `"${pinTitle}" has been saved to your board`,
@@ -94,39 +117,86 @@ const SavePinDialog = ({ isOpen, onClose, pinId, pinTitle }: SavePinDialogProps)
           <DialogTitle>Save pin</DialogTitle>
         </DialogHeader>
         <div className="space-y-4">
-          <p className="text-sm text-muted-foreground">Choose a board to save this pin</p>
-          
-          {boards.length === 0 ? (
-            <div className="text-center py-8">
-              <p className="text-muted-foreground mb-4">You don't have any boards yet</p>
-              <Button onClick={onClose} variant="outline">
-                <Plus className="h-4 w-4 mr-2" />
-                Create a board first
-              </Button>
-            </div>
-          ) : (
-            <div className="grid grid-cols-2 gap-3 max-h-60 overflow-y-auto">
-              {boards.map((board) => (
-                <Card
-                  key={board.id}
-                  className="p-3 cursor-pointer hover:shadow-md transition-shadow"
-                  onClick={() => saveToBoard(board.id)}
+          {pendingBoard ? (
+            <>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0 rounded-full"
+                  onClick={() => setPendingBoard(null)}
+                  aria-label="Back to boards"
                 >
-                  <div className="aspect-square bg-muted rounded-lg mb-2 flex items-center justify-center">
-                    {board.cover_image_url ? (
-                      <img
-                        src={board.cover_image_url}
-                        alt={board.name}
-                        className="w-full h-full object-cover rounded-lg"
-                      />
-                    ) : (
-                      <span className="text-2xl">📌</span>
-                    )}
-                  </div>
-                  <p className="text-sm font-medium truncate">{board.name}</p>
-                </Card>
-              ))}
-            </div>
+                  <ArrowLeft className="h-4 w-4" />
+                </Button>
+                <p className="text-sm text-muted-foreground">
+                  Choose a section in <span className="font-medium text-foreground">{pendingBoard.name}</span>
+                </p>
+              </div>
+              <div className="space-y-1 max-h-60 overflow-y-auto">
+                <Button
+                  variant="ghost"
+                  className="w-full justify-start"
+                  disabled={loading}
+                  onClick={() => saveToBoard(pendingBoard.id, null)}
+                >
+                  <span className="mr-2 w-4" />
+                  No section
+                </Button>
+                {sections.map((section) => (
+                  <Button
+                    key={section.id}
+                    variant="ghost"
+                    className="w-full justify-start"
+                    disabled={loading}
+                    onClick={() => saveToBoard(pendingBoard.id, section.id)}
+                  >
+                    <FolderOpen className="mr-2 h-4 w-4" />
+                    {section.name}
+                  </Button>
+                ))}
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-sm text-muted-foreground">Choose a board to save this pin</p>
+
+              {boards.length === 0 ? (
+                <div className="text-center py-8">
+                  <p className="text-muted-foreground mb-4">You don't have any boards yet</p>
+                  <Button onClick={onClose} variant="outline">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Create a board first
+                  </Button>
+                </div>
+              ) : (
+                <div className="grid grid-cols-2 gap-3 max-h-60 overflow-y-auto">
+                  {boards.map((board) => (
+                    <Card
+                      key={board.id}
+                      className="p-3 cursor-pointer hover:shadow-md transition-shadow"
+                      onClick={() => handleBoardClick(board)}
+                    >
+                      <div className="aspect-square bg-muted rounded-lg mb-2 flex items-center justify-center">
+                        {board.cover_image_url ? (
+                          <img
+                            src={board.cover_image_url}
+                            alt={board.name}
+                            className="w-full h-full object-cover rounded-lg"
+                          />
+                        ) : (
+                          <span className="text-2xl">📌</span>
+                        )}
+                      </div>
+                      <p className="text-sm font-medium truncate">{board.name}</p>
+                      {board.role === "editor" && (
+                        <p className="text-xs text-muted-foreground">Shared with you</p>
+                      )}
+                    </Card>
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </div>
       </DialogContent>
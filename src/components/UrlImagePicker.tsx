@@ -0,0 +1,134 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Globe, Loader2 } from "lucide-react";
+import { ScrapedImage, ScrapedPage, importImageFromUrl, scrapeUrl } from "@/lib/urlImport";
+
+interface UrlImagePickerProps {
+  // file is the picked image, not yet processed or stored; page is what was found at the link
+  onImported: (file: File, page: ScrapedPage) => void;
+  disabled?: boolean;
+}
+
+const UrlImagePicker = ({ onImported, disabled }: UrlImagePickerProps) => {
+  const [url, setUrl] = useState("");
+  const [page, setPage] = useState<ScrapedPage | null>(null);
+  const [fetching, setFetching] = useState(false);
+  const [importingUrl, setImportingUrl] = useState<string | null>(null);
+  const [error, setError] = useState("");
+
+  const handleFetch = async () => {
+    const trimmed = url.trim();
+    if (!trimmed) return;
+
+    setFetching(true);
+    setError("");
+    setPage(null);
+    try {
+      // People paste bare domains, so assume https when no scheme is given
+      const scraped = await scrapeUrl(/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+      setPage(scraped);
+      if (scraped.images.length === 0) {
+        setError("No images found on that page");
+      }
+    } catch (error) {
+      console.error('Error scraping URL:', error);
+      setError(error instanceof Error ? error.message : "Couldn't load that link");
+    } finally {
+      setFetching(false);
+    }
+  };
+
+  const handlePick = async (image: ScrapedImage) => {
+    if (!page) return;
+
+    setImportingUrl(image.url);
+    setError("");
+    try {
+      onImported(await importImageFromUrl(image.url, page.url), page);
+    } catch (error) {
+      console.error('Error importing image:', error);
+      setError(error instanceof Error ? error.message : "Couldn't copy that image");
+    } finally {
+      setImportingUrl(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="pageUrl" className="flex items-center">
+          <Globe className="h-4 w-4 mr-2" />
+          Website
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="pageUrl"
+            type="url"
+            placeholder="https://example.com/article"
+            value={url}
+            onChange={(e) => setUrl(e.target.value)}
+            onKeyDown={(e) => {
+              // Enter would submit the surrounding pin form
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleFetch();
+              }
+            }}
+            className="rounded-xl"
+            disabled={disabled}
+          />
+          <Button
+            type="button"
+            onClick={handleFetch}
+            disabled={disabled || fetching || !url.trim()}
+            className="rounded-xl"
+          >
+            {fetching ? "Loading..." : "Find images"}
+          </Button>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-destructive">{error}</p>}
+
+      {page && page.images.length > 0 && (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            Choose an image{page.siteName ? ` from ${page.siteName}` : ""}
+          </p>
+          <div className="grid grid-cols-3 gap-2 max-h-80 overflow-y-auto">
+            {page.images.map((image) => (
+              <button
+                key={image.url}
+                type="button"
+                onClick={() => handlePick(image)}
+                disabled={importingUrl !== null}
+                className="relative aspect-square overflow-hidden rounded-lg bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-primary disabled:cursor-wait"
+              >
+                <img
+                  src={image.url}
+                  alt={image.alt || ""}
+                  loading="lazy"
+                  referrerPolicy="no-referrer"
+                  className="h-full w-full object-cover transition-opacity hover:opacity-80"
+                  onError={(e) => {
+                    // Some sites refuse hotlinking; there's nothing to pick from a broken tile
+                    (e.currentTarget.parentElement as HTMLElement).style.display = "none";
+                  }}
+                />
+                {importingUrl === image.url && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-background/60">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                )}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default UrlImagePicker;
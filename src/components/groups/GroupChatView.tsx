@@ -9,6 +9,8 @@ import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import MessageRenderer from './MessageRenderer';
 import MessageInput from './MessageInput';
+import { GroupMessageWithAuthor } from '@/lib/groups';
+import { useDeleteGroupMessage, useGroupMessages } from '@/data';
 
 interface Group {
   id: string;
@@ -19,25 +21,6 @@ interface Group {
   member_role?: string;
 }
 
-interface GroupMessage {
-  id: string;
-  content: string;
-  message_type: string;
-  image_url?: string;
-  link_url?: string;
-  link_title?: string;
-  link_description?: string;
-  link_image_url?: string;
-  platform?: string;
-  created_at: string;
-  user_id: string;
-  profiles?: {
-    full_name?: string;
-    avatar_url?: string;
-    email: string;
-  };
-}
-
 interface GroupChatViewProps {
   group: Group;
   onOpenSettings: () => void;
@@ -45,124 +28,33 @@ interface GroupChatViewProps {
 }
 
 export const GroupChatView = ({ group, onOpenSettings, onOpenInvite }: GroupChatViewProps) => {
-  const [messages, setMessages] = useState<GroupMessage[]>([]);
-  const [loading, setLoading] = useState(true);
+  const { data: messages = [], isPending: loading, isError } = useGroupMessages(group.id);
+  const deleteMessageMutation = useDeleteGroupMessage(group.id);
   const [currentUser, setCurrentUser] = useState<any>(null);
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const { toast } = useToast();
 
   useEffect(() => {
     getCurrentUser();
-    fetchMessages();
-    
-    // Subscribe to real-time messages
-    const channel = supabase
-      .channel(`group-messages-${group.id}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'group_messages',
-          filter: `group_id=eq.${group.id}`,
-        },
-        (payload) => {
-          console.log('New message received:', payload);
-          // Fetch the new message with profile data
-          fetchMessageWithProfile(payload.new.id);
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [group.id]);
+  }, []);
 
   useEffect(() => {
-    scrollToBottom();
-  }, [messages]);
-
-  const getCurrentUser = async () => {
-    const { data: { user } } = await supabase.auth.getUser();
-    setCurrentUser(user);
-  };
-
-  const fetchMessages = async () => {
-    console.log('Fetching messages for group:', group.id);
-    try {
-      const { data: messagesData, error } = await supabase
-        .from('group_messages')
-        .select('*')
-        .eq('group_id', group.id)
-        .order('created_at', { ascending: true })
-        .limit(100);
-
-      if (error) {
-        console.error('Error fetching messages:', error);
-        throw error;
-      }
-
-      console.log('Raw messages data:', messagesData);
-
-      // Fetch profiles separately
-      const userIds = [...new Set(messagesData?.map(m => m.user_id) || [])];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('user_id, full_name, avatar_url, email')
-        .in('user_id', userIds);
-
-      const profilesMap = (profilesData || []).reduce((acc, profile) => {
-        acc[profile.user_id] = profile;
-        return acc;
-      }, {} as Record<string, any>);
-
-      const messagesWithProfiles = (messagesData || []).map(message => ({
-        ...message,
-        profiles: profilesMap[message.user_id] || null
-      }));
-
-      setMessages(messagesWithProfiles);
-    } catch (error) {
-      console.error('Error fetching messages:', error);
+    if (isError) {
       toast({
         title: 'Error',
         description: 'Failed to load messages',
         variant: 'destructive',
       });
-    } finally {
-      setLoading(false);
     }
-  };
+  }, [isError, toast]);
 
-  const fetchMessageWithProfile = async (messageId: string) => {
-    try {
-      const { data: messageData, error } = await supabase
-        .from('group_messages')
-        .select('*')
-        .eq('id', messageId)
-        .single();
-
-      if (error) throw error;
-      
-      if (messageData) {
-        // Fetch profile separately
-        const { data: profileData } = await supabase
-          .from('profiles')
-          .select('user_id, full_name, avatar_url, email')
-          .eq('user_id', messageData.user_id)
-          .single();
-
-        const messageWithProfile = {
-          ...messageData,
-          profiles: profileData || null
-        };
+  useEffect(() => {
+    scrollToBottom();
+  }, [messages]);
 
-        setMessages(prev => [...prev, messageWithProfile]);
-      }
-    } catch (error) {
-      console.error('Error fetching new message:', error);
-    }
+  const getCurrentUser = async () => {
+    const { data: { user } } = await supabase.auth.getUser();
+    setCurrentUser(user);
   };
 
   const handleMessageSent = () => {
@@ -172,14 +64,7 @@ export const GroupChatView = ({ group, onOpenSettings, onOpenInvite }: GroupChat
 
   const deleteMessage = async (messageId: string) => {
     try {
-      const { error } = await supabase
-        .from('group_messages')
-        .delete()
-        .eq('id', messageId);
-
-      if (error) throw error;
-
-      setMessages(prev => prev.filter(msg => msg.id !== messageId));
+      await deleteMessageMutation.mutateAsync(messageId);
       toast({
         title: 'Success',
         description: 'Message deleted',
@@ -198,11 +83,11 @@ export const GroupChatView = ({ group, onOpenSettings, onOpenInvite }: GroupChat
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
 
-  const isOwnMessage = (message: GroupMessage) => {
+  const isOwnMessage = (message: GroupMessageWithAuthor) => {
     return currentUser && message.user_id === currentUser.id;
   };
 
-  const canDeleteMessage = (message: GroupMessage) => {
+  const canDeleteMessage = (message: GroupMessageWithAuthor) => {
     return isOwnMessage(message) || group.member_role === 'admin';
   };
 
@@ -13,6 +13,7 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { Loader2, Trash2, Crown, UserMinus } from 'lucide-react';
+import { useGroupMembers } from '@/data';
 
 interface Group {
   id: string;
@@ -24,18 +25,6 @@ interface Group {
   member_role?: string;
 }
 
-interface GroupMember {
-  id: string;
-  user_id: string;
-  role: string;
-  joined_at: string;
-  profiles: {
-    full_name?: string;
-    avatar_url?: string;
-    email: string;
-  };
-}
-
 interface GroupSettingsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
@@ -48,56 +37,19 @@ export const GroupSettingsDialog = ({ open, onOpenChange, group, onGroupUpdated
   const [groupName, setGroupName] = useState(group.name);
   const [description, setDescription] = useState(group.description || '');
   const [isPrivate, setIsPrivate] = useState(group.is_private);
-  const [members, setMembers] = useState<GroupMember[]>([]);
-  const [membersLoading, setMembersLoading] = useState(true);
+  const { data: members = [], isPending: membersLoading, isError: membersFailed, refetch: refetchMembers } =
+    useGroupMembers(group.id, { enabled: open });
   const { toast } = useToast();
 
   useEffect(() => {
-    if (open) {
-      fetchGroupMembers();
-    }
-  }, [open, group.id]);
-
-  const fetchGroupMembers = async () => {
-    try {
-      const { data: membersData, error } = await supabase
-        .from('group_members')
-        .select('*')
-        .eq('group_id', group.id)
-        .order('role', { ascending: false })
-        .order('joined_at', { ascending: true });
-
-      if (error) throw error;
-
-      // Fetch profiles separately
-      const userIds = membersData?.map(m => m.user_id) || [];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('user_id, full_name, avatar_url, email')
-        .in('user_id', userIds);
-
-      const profilesMap = (profilesData || []).reduce((acc, profile) => {
-        acc[profile.user_id] = profile;
-        return acc;
-      }, {} as Record<string, any>);
-
-      const membersWithProfiles = (membersData || []).map(member => ({
-        ...member,
-        profiles: profilesMap[member.user_id] || { email: 'Unknown User' }
-      }));
-
-      setMembers(membersWithProfiles);
-    } catch (error) {
-      console.error('Error fetching members:', error);
+    if (membersFailed) {
       toast({
         title: 'Error',
         description: 'Failed to load group members',
         variant: 'destructive',
       });
-    } finally {
-      setMembersLoading(false);
     }
-  };
+  }, [membersFailed, toast]);
 
   const handleUpdateGroup = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -149,7 +101,7 @@ export const GroupSettingsDialog = ({ open, onOpenChange, group, onGroupUpdated
         description: `${memberName} has been removed from the group`,
       });
 
-      fetchGroupMembers();
+      refetchMembers();
     } catch (error) {
       console.error('Error removing member:', error);
       toast({
@@ -174,7 +126,7 @@ export const GroupSettingsDialog = ({ open, onOpenChange, group, onGroupUpdated
         description: `${memberName} is now an admin`,
       });
 
-      fetchGroupMembers();
+      refetchMembers();
     } catch (error) {
       console.error('Error promoting member:', error);
       toast({
@@ -331,7 +283,7 @@ export const GroupSettingsDialog = ({ open, onOpenChange, group, onGroupUpdated
                       <div className="flex-1 min-w-0">
                         <div className="flex items-center gap-2">
                           <p className="font-medium text-sm truncate">
-                            {member.profiles?.full_name || member.profiles?.email}
+                            {member.profiles?.full_name || member.profiles?.email || 'Unknown User'}
                           </p>
                           <Badge variant={member.role === 'admin' ? 'default' : 'secondary'}>
                             {member.role}
@@ -7,6 +7,8 @@ import { Send, Image, Link, X, Upload } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { cn } from '@/lib/utils';
+import { scrapeUrl } from '@/lib/urlImport';
+import { ACCEPTED_IMAGE_TYPES, ImageUploadError, uniqueImageName, uploadImage, validateImageFile } from '@/lib/imageUpload';
 
 interface MessageInputProps {
   groupId: string;
@@ -55,8 +57,6 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
   const fetchLinkPreview = async (url: string) => {
     setLoadingPreview(true);
     try {
-      // For external links, we'll create a basic preview
-      // In production, you'd want to use a service like linkpreview.net
       const platform = detectPlatform(url);
       
       if (platform === 'pin') {
@@ -78,13 +78,17 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
           });
         }
       } else {
-        // For external links, create a basic preview
+        // External pages are read server-side; fall back to a basic preview when that fails
         const urlObj = new URL(url);
+        const page = await scrapeUrl(url).catch((error) => {
+          console.error('Error scraping link:', error);
+          return null;
+        });
         setLinkPreview({
           url,
-          title: `Link to ${urlObj.hostname}`,
-          description: `Visit ${urlObj.hostname}`,
-          image: null,
+          title: page?.title || `Link to ${urlObj.hostname}`,
+          description: page?.description || `Visit ${urlObj.hostname}`,
+          image: page?.images[0]?.url ?? null,
           platform
         });
       }
@@ -101,19 +105,12 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
   };
 
   const handleImageUpload = async (file: File) => {
-    if (!file.type.startsWith('image/')) {
-      toast({
-        title: 'Error',
-        description: 'Please select an image file',
-        variant: 'destructive',
-      });
-      return;
-    }
-
-    if (file.size > 10 * 1024 * 1024) { // 10MB limit
+    try {
+      validateImageFile(file, 'message');
+    } catch (error) {
       toast({
         title: 'Error',
-        description: 'Image size must be less than 10MB',
+        description: (error as Error).message,
         variant: 'destructive',
       });
       return;
@@ -124,19 +121,12 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('Not authenticated');
 
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      const filePath = `${user.id}/${fileName}`;
-
-      const { data: uploadData, error: uploadError } = await supabase.storage
-        .from('group-images')
-        .upload(filePath, file);
-
-      if (uploadError) throw uploadError;
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('group-images')
-        .getPublicUrl(filePath);
+      const { publicUrl } = await uploadImage({
+        file,
+        kind: 'message',
+        bucket: 'group-images',
+        pathWithoutExtension: `${user.id}/${uniqueImageName()}`,
+      });
 
       // Send image message
       const { error: messageError } = await supabase
@@ -163,7 +153,7 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
       console.error('Error uploading image:', error);
       toast({
         title: 'Error',
-        description: 'Failed to upload image',
+        description: error instanceof ImageUploadError ? error.message : 'Failed to upload image',
         variant: 'destructive',
       });
     } finally {
@@ -401,7 +391,7 @@ const MessageInput = ({ groupId, onMessageSent, disabled }: MessageInputProps) =
       <input
         ref={fileInputRef}
         type="file"
-        accept="image/*"
+        accept={ACCEPTED_IMAGE_TYPES.join(',')}
         onChange={(e) => {
           const file = e.target.files?.[0];
           if (file) {
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { BoardCollaborator, fetchBoardCollaborators } from "@/lib/boardCollaborators";
+import { BoardPin, fetchBoardPins, fetchSavedCounts } from "@/lib/boardPins";
+import { BoardSection, fetchBoardSections } from "@/lib/boardSections";
+import { BoardWithOwner, createBoard, fetchBoard, fetchUserBoards } from "@/lib/boards";
+import { useCacheSetter } from "./cache";
+import { queryKeys } from "./keys";
+
+// null once loaded means the board doesn't exist or is secret from this viewer
+export const useBoard = (boardId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.boards.detail(boardId ?? ""),
+    queryFn: () => fetchBoard(boardId!),
+    enabled: Boolean(boardId),
+  });
+
+export const useSetBoard = (boardId: string) =>
+  useCacheSetter<BoardWithOwner | null>(queryKeys.boards.detail(boardId), null);
+
+export const useUserBoards = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.boards.byUser(userId ?? ""),
+    queryFn: () => fetchUserBoards(userId!),
+    enabled: Boolean(userId),
+  });
+
+export const useCreateBoard = (userId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (board: { name: string; description?: string; isPrivate: boolean }) => {
+      if (!userId) throw new Error("Sign in to create boards");
+      return createBoard({ userId, ...board });
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.boards.byUser(userId ?? "") }),
+  });
+};
+
+// Number of pins saved into each of the boards
+export const useSavedCounts = (boardIds: string[]) =>
+  useQuery({
+    queryKey: queryKeys.boards.savedCounts(boardIds),
+    queryFn: () => fetchSavedCounts(boardIds),
+    enabled: boardIds.length > 0,
+  });
+
+// The board's pins, sections and collaborators don't wait for the board itself: RLS hides
+// them along with a secret board, so they load side by side with it.
+export const useBoardPins = (boardId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.boards.pins(boardId ?? ""),
+    queryFn: () => fetchBoardPins(boardId!),
+    enabled: Boolean(boardId),
+  });
+
+export const useSetBoardPins = (boardId: string) => useCacheSetter<BoardPin[]>(queryKeys.boards.pins(boardId), []);
+
+export const useBoardSections = (boardId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.boards.sections(boardId ?? ""),
+    queryFn: () => fetchBoardSections(boardId!),
+    enabled: Boolean(boardId),
+  });
+
+export const useSetBoardSections = (boardId: string) =>
+  useCacheSetter<BoardSection[]>(queryKeys.boards.sections(boardId), []);
+
+export const useBoardCollaborators = (boardId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.boards.collaborators(boardId ?? ""),
+    queryFn: () => fetchBoardCollaborators(boardId!),
+    enabled: Boolean(boardId),
+  });
+
+export const useSetBoardCollaborators = (boardId: string) =>
+  useCacheSetter<BoardCollaborator[]>(queryKeys.boards.collaborators(boardId), []);
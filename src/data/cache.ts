@@ -0,0 +1,15 @@
+import { QueryKey, useQueryClient } from "@tanstack/react-query";
+
+export type CacheUpdate<T> = T | ((current: T) => T);
+
+// A setState-style setter for a query's cached data, for optimistic edits made by pages
+// that already know what the server will hold. `empty` stands in before the query loads.
+export const useCacheSetter = <T>(queryKey: QueryKey, empty: T) => {
+  const queryClient = useQueryClient();
+
+  return (update: CacheUpdate<T>) => {
+    queryClient.setQueryData<T>(queryKey, (current) =>
+      typeof update === "function" ? (update as (current: T) => T)(current ?? empty) : update
+    );
+  };
+};
@@ -0,0 +1,218 @@
+import { useEffect } from "react";
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  CommentCursor,
+  CommentPage,
+  PinComment,
+  addComment,
+  deleteComment,
+  editComment,
+  fetchComment,
+  fetchCommentPage,
+} from "@/lib/comments";
+import { toAuthorProfile } from "@/lib/authors";
+import { useProfile } from "./profiles";
+import { queryKeys } from "./keys";
+
+type CommentPages = InfiniteData<CommentPage>;
+
+const mapComments = (data: CommentPages | undefined, update: (comments: PinComment[]) => PinComment[]) =>
+  data && { ...data, pages: data.pages.map((page) => ({ ...page, comments: update(page.comments) })) };
+
+const findComment = (data: CommentPages | undefined, commentId: string) =>
+  data?.pages.flatMap((page) => page.comments).find((comment) => comment.id === commentId);
+
+// Puts a comment into the loaded threads, or replaces the copy already there. That makes
+// an optimistic comment, the insert's response and its realtime echo land as one comment
+// whatever order they arrive in. A reply to a thread that isn't loaded is left out: it
+// comes with its thread when that page is fetched.
+const upsertComment = (queryClient: QueryClient, pinId: string, comment: PinComment) => {
+  queryClient.setQueryData<CommentPages>(queryKeys.pins.comments(pinId), (data) => {
+    if (!data) return data;
+    if (findComment(data, comment.id)) {
+      return mapComments(data, (comments) =>
+        comments.map((existing) =>
+          existing.id === comment.id ? { ...existing, ...comment, profiles: comment.profiles ?? existing.profiles } : existing
+        )
+      );
+    }
+
+    // New threads are the newest, so they belong on the first page
+    const pageIndex = comment.root_id
+      ? data.pages.findIndex((page) => page.comments.some((existing) => existing.id === comment.root_id))
+      : 0;
+    if (pageIndex < 0 || !data.pages[pageIndex]) return data;
+    return {
+      ...data,
+      pages: data.pages.map((page, index) =>
+        index === pageIndex ? { ...page, comments: [...page.comments, comment] } : page
+      ),
+    };
+  });
+};
+
+// Drops a comment and its replies from the loaded threads
+const removeComment = (queryClient: QueryClient, pinId: string, commentId: string) => {
+  queryClient.setQueryData<CommentPages>(queryKeys.pins.comments(pinId), (data) => {
+    // Depth is at most two, so a deleted comment's replies are its children and theirs
+    const removed = new Set([commentId]);
+    data?.pages.forEach((page) =>
+      page.comments.forEach((comment) => {
+        if (comment.root_id === commentId || comment.parent_id === commentId) {
+          removed.add(comment.id);
+        }
+      })
+    );
+    data?.pages.forEach((page) =>
+      page.comments.forEach((comment) => {
+        if (comment.parent_id && removed.has(comment.parent_id)) removed.add(comment.id);
+      })
+    );
+    return mapComments(data, (comments) => comments.filter((comment) => !removed.has(comment.id)));
+  });
+};
+
+// A pin's comment threads, newest first; fetchNextPage loads older ones. While mounted,
+// comments posted, edited and deleted by anyone show up over realtime.
+export const usePinComments = (pinId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!pinId) return;
+
+    const channel = supabase
+      .channel(`pin-comments-${pinId}`)
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table: "comments", filter: `pin_id=eq.${pinId}` },
+        async (payload) => {
+          try {
+            // The row arrives without its author
+            const comment = await fetchComment(payload.new.id);
+            if (comment) upsertComment(queryClient, pinId, comment);
+          } catch (error) {
+            console.error("Error fetching new comment:", error);
+          }
+        }
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "comments", filter: `pin_id=eq.${pinId}` },
+        (payload) => {
+          const existing = findComment(queryClient.getQueryData(queryKeys.pins.comments(pinId)), payload.new.id);
+          if (existing) upsertComment(queryClient, pinId, { ...existing, ...(payload.new as PinComment) });
+        }
+      )
+      // Realtime can't filter deletes, and under RLS they only carry the id; ids that
+      // aren't loaded here are ignored
+      .on("postgres_changes", { event: "DELETE", schema: "public", table: "comments" }, (payload) => {
+        const loaded = queryClient.getQueryData<CommentPages>(queryKeys.pins.comments(pinId));
+        if (payload.old.id && findComment(loaded, payload.old.id)) removeComment(queryClient, pinId, payload.old.id);
+      })
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [pinId, queryClient]);
+
+  return useInfiniteQuery({
+    queryKey: queryKeys.pins.comments(pinId ?? ""),
+    queryFn: ({ pageParam }) => fetchCommentPage({ pinId: pinId!, cursor: pageParam }),
+    initialPageParam: null as CommentCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+    enabled: Boolean(pinId),
+  });
+};
+
+// Shows the comment straight away under the writer's profile, then swaps in the row the
+// server stored; if the server refuses, the comment is taken back out
+export const useAddComment = (pinId: string, userId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const { data: author } = useProfile(userId);
+
+  return useMutation({
+    mutationFn: ({ id, content, parentId }: { id: string; content: string; parentId?: string | null }) => {
+      if (!userId) throw new Error("Sign in to comment");
+      return addComment({ id, pinId, userId, content, parentId });
+    },
+    onMutate: async ({ id, content, parentId }) => {
+      await queryClient.cancelQueries({ queryKey: queryKeys.pins.comments(pinId) });
+      if (!userId) return;
+
+      const parent = parentId
+        ? findComment(queryClient.getQueryData(queryKeys.pins.comments(pinId)), parentId)
+        : undefined;
+      const now = new Date().toISOString();
+      upsertComment(queryClient, pinId, {
+        id,
+        pin_id: pinId,
+        user_id: userId,
+        content,
+        parent_id: parentId ?? null,
+        root_id: parent ? parent.root_id ?? parent.id : null,
+        depth: parent ? parent.depth + 1 : 0,
+        created_at: now,
+        updated_at: now,
+        edited_at: null,
+        profiles: author
+          ? toAuthorProfile({
+              author_full_name: author.full_name,
+              author_email: author.email,
+              author_avatar_url: author.avatar_url,
+            })
+          : undefined,
+      });
+    },
+    onSuccess: (comment) => upsertComment(queryClient, pinId, comment),
+    onError: (error, { id }) => removeComment(queryClient, pinId, id),
+  });
+};
+
+// Shows the new text straight away and puts the old one back if the server refuses
+export const useEditComment = (pinId: string) => {
+  const queryClient = useQueryClient();
+  const commentsKey = queryKeys.pins.comments(pinId);
+
+  return useMutation({
+    mutationFn: ({ commentId, content }: { commentId: string; content: string }) => editComment(commentId, content),
+    onMutate: async ({ commentId, content }) => {
+      await queryClient.cancelQueries({ queryKey: commentsKey });
+      const previous = queryClient.getQueryData<CommentPages>(commentsKey);
+      queryClient.setQueryData<CommentPages>(commentsKey, (data) =>
+        mapComments(data, (comments) =>
+          comments.map((comment) =>
+            comment.id === commentId ? { ...comment, content, edited_at: new Date().toISOString() } : comment
+          )
+        )
+      );
+      return { previous };
+    },
+    onError: (error, variables, context) => {
+      queryClient.setQueryData(commentsKey, context?.previous);
+    },
+  });
+};
+
+// Removes the comment and its replies straight away, putting them back if the server refuses
+export const useDeleteComment = (pinId: string, userId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const commentsKey = queryKeys.pins.comments(pinId);
+
+  return useMutation({
+    mutationFn: (commentId: string) => {
+      if (!userId) throw new Error("Sign in to delete comments");
+      return deleteComment(commentId, userId);
+    },
+    onMutate: async (commentId) => {
+      await queryClient.cancelQueries({ queryKey: commentsKey });
+      const previous = queryClient.getQueryData<CommentPages>(commentsKey);
+      removeComment(queryClient, pinId, commentId);
+      return { previous };
+    },
+    onError: (error, commentId, context) => {
+      queryClient.setQueryData(commentsKey, context?.previous);
+    },
+  });
+};
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import {
+  GroupMessageWithAuthor,
+  deleteGroupMessage,
+  fetchGroupMembers,
+  fetchGroupMessage,
+  fetchGroupMessages,
+} from "@/lib/groups";
+import { queryKeys } from "./keys";
+
+// A group's messages, kept current while mounted: new messages arrive over realtime and
+// are appended once their author has been looked up
+export const useGroupMessages = (groupId: string) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const messagesKey = queryKeys.groups.messages(groupId);
+    const channel = supabase
+      .channel(`group-messages-${groupId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "group_messages",
+          filter: `group_id=eq.${groupId}`,
+        },
+        async (payload) => {
+          try {
+            const message = await fetchGroupMessage(payload.new.id);
+            if (!message) return;
+            // Until the first load finishes there's nothing to append to, and that load will include it
+            queryClient.setQueryData<GroupMessageWithAuthor[]>(messagesKey, (messages) =>
+              messages && !messages.some((existing) => existing.id === message.id) ? [...messages, message] : messages
+            );
+          } catch (error) {
+            console.error("Error fetching new message:", error);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [groupId, queryClient]);
+
+  return useQuery({
+    queryKey: queryKeys.groups.messages(groupId),
+    queryFn: () => fetchGroupMessages(groupId),
+  });
+};
+
+// Removes the message straight away and puts it back if the server refuses
+export const useDeleteGroupMessage = (groupId: string) => {
+  const queryClient = useQueryClient();
+  const messagesKey = queryKeys.groups.messages(groupId);
+
+  return useMutation({
+    mutationFn: deleteGroupMessage,
+    onMutate: async (messageId: string) => {
+      await queryClient.cancelQueries({ queryKey: messagesKey });
+      const previous = queryClient.getQueryData<GroupMessageWithAuthor[]>(messagesKey);
+      queryClient.setQueryData<GroupMessageWithAuthor[]>(messagesKey, (messages) =>
+        messages?.filter((message) => message.id !== messageId)
+      );
+      return { previous };
+    },
+    onError: (error, messageId, context) => {
+      queryClient.setQueryData(messagesKey, context?.previous);
+    },
+  });
+};
+
+export const useGroupMembers = (groupId: string, { enabled = true } = {}) =>
+  useQuery({
+    queryKey: queryKeys.groups.members(groupId),
+    queryFn: () => fetchGroupMembers(groupId),
+    enabled,
+  });
@@ -0,0 +1,9 @@
+// Query and mutation hooks over the lib/ fetchers. Pages read and write server data through
+// these so it's cached, shared between pages and refreshed in one place.
+export * from "./keys";
+export * from "./cache";
+export * from "./pins";
+export * from "./comments";
+export * from "./boards";
+export * from "./profiles";
+export * from "./groups";
@@ -0,0 +1,46 @@
+import { FeedMode } from "@/lib/feed";
+import { SearchFilter } from "@/lib/search";
+
+// What a pin feed shows: one of the home feeds, or search results
+export type PinFeed =
+  | { kind: "feed"; mode: FeedMode }
+  | { kind: "search"; query: string; filter: SearchFilter };
+
+// Every query key in the app. Keys nest from general to specific, so invalidating a prefix
+// such as queryKeys.pins.all reaches every query under it.
+export const queryKeys = {
+  pins: {
+    all: ["pins"] as const,
+    feeds: () => [...queryKeys.pins.all, "feed"] as const,
+    feed: (feed: PinFeed) => [...queryKeys.pins.feeds(), feed] as const,
+    byUsers: () => [...queryKeys.pins.all, "user"] as const,
+    byUser: (userId: string) => [...queryKeys.pins.byUsers(), userId] as const,
+    detail: (pinId: string) => [...queryKeys.pins.all, "detail", pinId] as const,
+    // Every viewer's likes for a pin: the count is shared, whether they like it isn't
+    allLikes: (pinId: string) => [...queryKeys.pins.all, "likes", pinId] as const,
+    likes: (pinId: string, userId?: string) => [...queryKeys.pins.allLikes(pinId), userId ?? null] as const,
+    comments: (pinId: string) => [...queryKeys.pins.all, "comments", pinId] as const,
+  },
+  boards: {
+    all: ["boards"] as const,
+    detail: (boardId: string) => [...queryKeys.boards.all, "detail", boardId] as const,
+    byUser: (userId: string) => [...queryKeys.boards.all, "user", userId] as const,
+    allPins: () => [...queryKeys.boards.all, "pins"] as const,
+    pins: (boardId: string) => [...queryKeys.boards.allPins(), boardId] as const,
+    sections: (boardId: string) => [...queryKeys.boards.all, "sections", boardId] as const,
+    collaborators: (boardId: string) => [...queryKeys.boards.all, "collaborators", boardId] as const,
+    allSavedCounts: () => [...queryKeys.boards.all, "saved-counts"] as const,
+    savedCounts: (boardIds: string[]) => [...queryKeys.boards.allSavedCounts(), boardIds] as const,
+  },
+  profiles: {
+    all: ["profiles"] as const,
+    detail: (userId: string) => [...queryKeys.profiles.all, "detail", userId] as const,
+    isFollowing: (followerId: string, userId: string) =>
+      [...queryKeys.profiles.all, "following", followerId, userId] as const,
+  },
+  groups: {
+    all: ["groups"] as const,
+    messages: (groupId: string) => [...queryKeys.groups.all, "messages", groupId] as const,
+    members: (groupId: string) => [...queryKeys.groups.all, "members", groupId] as const,
+  },
+};
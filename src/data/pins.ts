@@ -0,0 +1,196 @@
+import { useEffect } from "react";
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { FeedCursor, FeedPin, RankedCursor, fetchFeedPage, fetchFollowingPage, fetchForYouPage } from "@/lib/feed";
+import { SearchCursor, SearchPin, fetchSearchPage } from "@/lib/search";
+import { supabase } from "@/integrations/supabase/client";
+import { BoardPin } from "@/lib/boardPins";
+import { PinLikes, fetchPinLikes, likePin, unlikePin } from "@/lib/likes";
+import { PinWithAuthor, fetchPin, fetchUserPins } from "@/lib/pins";
+import { useCacheSetter } from "./cache";
+import { PinFeed, queryKeys } from "./keys";
+
+// Chronological feeds page by (created_at, id); ranked feeds and search results by offset
+export type PinPageCursor = FeedCursor | RankedCursor | SearchCursor;
+
+export interface PinPage {
+  pins: SearchPin[];
+  nextCursor: PinPageCursor | null;
+}
+
+const fetchPinPage = (feed: PinFeed, cursor: PinPageCursor | null): Promise<PinPage> => {
+  if (feed.kind === "search") {
+    return fetchSearchPage({ query: feed.query, filter: feed.filter, cursor: cursor as SearchCursor | null });
+  }
+  if (feed.mode === "following") {
+    return fetchFollowingPage({ cursor: cursor as FeedCursor | null });
+  }
+  if (feed.mode === "for_you") {
+    return fetchForYouPage({ cursor: cursor as RankedCursor | null });
+  }
+  return fetchFeedPage({ cursor: cursor as FeedCursor | null });
+};
+
+// A home feed or search results, a page at a time; fetchNextPage loads the next one
+export const usePins = (feed: PinFeed) =>
+  useInfiniteQuery({
+    queryKey: queryKeys.pins.feed(feed),
+    queryFn: ({ pageParam }) => fetchPinPage(feed, pageParam),
+    initialPageParam: null as PinPageCursor | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+  });
+
+export const useUserPins = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.pins.byUser(userId ?? ""),
+    queryFn: () => fetchUserPins(userId!),
+    enabled: Boolean(userId),
+  });
+
+export const useSetUserPins = (userId: string) =>
+  useCacheSetter<PinWithAuthor[]>(queryKeys.pins.byUser(userId), []);
+
+// null once loaded means the pin doesn't exist or this viewer can't see it
+export const usePin = (pinId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.pins.detail(pinId ?? ""),
+    queryFn: () => fetchPin(pinId!),
+    enabled: Boolean(pinId),
+  });
+
+export const useSetPin = (pinId: string) => useCacheSetter<PinWithAuthor | null>(queryKeys.pins.detail(pinId), null);
+
+export const usePinLikes = (pinId: string | undefined, userId?: string) =>
+  useQuery({
+    queryKey: queryKeys.pins.likes(pinId ?? "", userId),
+    queryFn: () => fetchPinLikes(pinId!, userId),
+    enabled: Boolean(pinId),
+  });
+
+type PinPatch = Partial<Pick<FeedPin, "like_count" | "comment_count" | "save_count" | "is_nsfw">>;
+
+// Applies a change to a pin wherever lists hold a copy of it: feeds, profiles and boards
+const patchCachedPin = (queryClient: QueryClient, pinId: string, patch: (pin: PinPatch) => PinPatch) => {
+  queryClient.setQueriesData<InfiniteData<PinPage>>({ queryKey: queryKeys.pins.feeds() }, (data) =>
+    data && {
+      ...data,
+      pages: data.pages.map((page) => ({
+        ...page,
+        pins: page.pins.map((pin) => (pin.id === pinId ? { ...pin, ...patch(pin) } : pin)),
+      })),
+    }
+  );
+  queryClient.setQueriesData<PinWithAuthor[]>({ queryKey: queryKeys.pins.byUsers() }, (pins) =>
+    pins?.map((pin) => (pin.id === pinId ? { ...pin, ...patch(pin) } : pin))
+  );
+  queryClient.setQueriesData<BoardPin[]>({ queryKey: queryKeys.boards.allPins() }, (pins) =>
+    pins?.map((pin) => (pin.id === pinId ? { ...pin, ...patch(pin) } : pin))
+  );
+};
+
+// Likes or unlikes straight away, putting the old state back if the server refuses.
+// mutate(true) likes the pin and mutate(false) unlikes it.
+export const useToggleLike = (pinId: string, userId: string | undefined) => {
+  const queryClient = useQueryClient();
+  const likesKey = queryKeys.pins.likes(pinId, userId);
+
+  return useMutation({
+    mutationKey: likesKey,
+    mutationFn: (like: boolean) => {
+      if (!userId) throw new Error("Sign in to like pins");
+      return like ? likePin(pinId, userId) : unlikePin(pinId, userId);
+    },
+    onMutate: async (like) => {
+      await queryClient.cancelQueries({ queryKey: likesKey });
+      const previous = queryClient.getQueryData<PinLikes>(likesKey);
+      if (previous) {
+        queryClient.setQueryData<PinLikes>(likesKey, {
+          liked: like,
+          count: Math.max(previous.count + (like ? 1 : -1), 0),
+        });
+      }
+      return { previous };
+    },
+    onError: (error, like, context) => {
+      if (context?.previous) queryClient.setQueryData(likesKey, context.previous);
+    },
+    // Lists take the refetched count rather than adding one: it's absolute, so it can't
+    // double up with useLivePin's realtime echo of the same like
+    onSettled: async () => {
+      await queryClient.invalidateQueries({ queryKey: likesKey });
+      const likes = queryClient.getQueryData<PinLikes>(likesKey);
+      if (likes) patchCachedPin(queryClient, pinId, () => ({ like_count: likes.count }));
+    },
+  });
+};
+
+// Keeps an open pin's like, comment and save counts current for everyone looking at it.
+// The database keeps them on the pin row, so each change arrives as an update to it.
+export const useLivePin = (pinId: string | undefined) => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!pinId) return;
+
+    const channel = supabase
+      .channel(`pin-${pinId}`)
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table: "pins", filter: `id=eq.${pinId}` },
+        (payload) => {
+          const counts: PinPatch = {
+            like_count: payload.new.like_count,
+            comment_count: payload.new.comment_count,
+            save_count: payload.new.save_count,
+          };
+          queryClient.setQueryData<PinWithAuthor | null>(queryKeys.pins.detail(pinId), (pin) => pin && { ...pin, ...counts });
+          patchCachedPin(queryClient, pinId, () => counts);
+
+          // While the viewer's own like is saving, its optimistic count is left alone; the
+          // refetch when it settles brings the count back in line
+          if (queryClient.isMutating({ mutationKey: queryKeys.pins.allLikes(pinId) }) > 0) return;
+          queryClient.setQueriesData<PinLikes>({ queryKey: queryKeys.pins.allLikes(pinId) }, (likes) =>
+            likes && { ...likes, count: counts.like_count ?? likes.count }
+          );
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [pinId, queryClient]);
+};
+
+// Drops a deleted pin from every cached list and forgets its details
+export const useForgetPin = () => {
+  const queryClient = useQueryClient();
+
+  return (pinId: string) => {
+    queryClient.setQueriesData<InfiniteData<PinPage>>({ queryKey: queryKeys.pins.feeds() }, (data) =>
+      data && {
+        ...data,
+        pages: data.pages.map((page) => ({ ...page, pins: page.pins.filter((pin) => pin.id !== pinId) })),
+      }
+    );
+    queryClient.setQueriesData<PinWithAuthor[]>({ queryKey: queryKeys.pins.byUsers() }, (pins) =>
+      pins?.filter((pin) => pin.id !== pinId)
+    );
+    queryClient.setQueriesData<BoardPin[]>({ queryKey: queryKeys.boards.allPins() }, (pins) =>
+      pins?.filter((pin) => pin.id !== pinId)
+    );
+    queryClient.removeQueries({ queryKey: queryKeys.pins.detail(pinId) });
+  };
+};
+
+// For changes the caches can't patch in place, like a new pin or a pin saved to a board:
+// everything that lists pins is marked stale and refetched the next time it's shown
+export const useInvalidatePins = () => {
+  const queryClient = useQueryClient();
+
+  return () =>
+    Promise.all([
+      queryClient.invalidateQueries({ queryKey: queryKeys.pins.all }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.boards.allPins() }),
+      queryClient.invalidateQueries({ queryKey: queryKeys.boards.allSavedCounts() }),
+    ]);
+};
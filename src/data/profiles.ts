@@ -0,0 +1,65 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Profile, fetchIsFollowing, fetchProfile, followUser, unfollowUser } from "@/lib/profiles";
+import { useCacheSetter } from "./cache";
+import { queryKeys } from "./keys";
+
+// null once loaded means the user has no profile
+export const useProfile = (userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.profiles.detail(userId ?? ""),
+    queryFn: () => fetchProfile(userId!),
+    enabled: Boolean(userId),
+  });
+
+export const useSetProfile = (userId: string) =>
+  useCacheSetter<Profile | null>(queryKeys.profiles.detail(userId), null);
+
+// Only asked when someone is signed in and looking at another user
+export const useIsFollowing = (followerId: string | undefined, userId: string | undefined) =>
+  useQuery({
+    queryKey: queryKeys.profiles.isFollowing(followerId ?? "", userId ?? ""),
+    queryFn: () => fetchIsFollowing(followerId!, userId!),
+    enabled: Boolean(followerId && userId && followerId !== userId),
+  });
+
+// Follows or unfollows straight away, moving the follower count with it, and puts both
+// back if the server refuses. mutate(true) follows and mutate(false) unfollows.
+export const useToggleFollow = (followerId: string | undefined, userId: string) => {
+  const queryClient = useQueryClient();
+  const followingKey = queryKeys.profiles.isFollowing(followerId ?? "", userId);
+  const profileKey = queryKeys.profiles.detail(userId);
+
+  return useMutation({
+    mutationFn: (follow: boolean) => {
+      if (!followerId) throw new Error("Sign in to follow people");
+      return follow ? followUser(followerId, userId) : unfollowUser(followerId, userId);
+    },
+    onMutate: async (follow) => {
+      await Promise.all([
+        queryClient.cancelQueries({ queryKey: followingKey }),
+        queryClient.cancelQueries({ queryKey: profileKey }),
+      ]);
+      const previousFollowing = queryClient.getQueryData<boolean>(followingKey);
+      const previousProfile = queryClient.getQueryData<Profile | null>(profileKey);
+
+      queryClient.setQueryData<boolean>(followingKey, follow);
+      if (previousProfile) {
+        queryClient.setQueryData<Profile>(profileKey, {
+          ...previousProfile,
+          follower_count: Math.max(previousProfile.follower_count + (follow ? 1 : -1), 0),
+        });
+      }
+      return { previousFollowing, previousProfile };
+    },
+    onError: (error, follow, context) => {
+      queryClient.setQueryData(followingKey, context?.previousFollowing);
+      queryClient.setQueryData(profileKey, context?.previousProfile);
+    },
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: followingKey });
+      queryClient.invalidateQueries({ queryKey: profileKey });
+      if (followerId) queryClient.invalidateQueries({ queryKey: queryKeys.profiles.detail(followerId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.pins.feed({ kind: "feed", mode: "following" }) });
+    },
+  });
+};
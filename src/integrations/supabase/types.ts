@@ -14,12 +14,158 @@ export type Database = {
   }
   public: {
     Tables: {
+      assistant_conversations: {
+        Row: {
+          created_at: string
+          id: string
+          summarized_until: string | null
+          summary: string | null
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          summarized_until?: string | null
+          summary?: string | null
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      assistant_messages: {
+        Row: {
+          content: string
+          conversation_id: string
+          created_at: string
+          data: Json | null
+          id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          content: string
+          conversation_id: string
+          created_at?: string
+          data?: Json | null
+          id?: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          content?: string
+          conversation_id?: string
+          created_at?: string
+          data?: Json | null
+          id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "assistant_messages_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "assistant_conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      board_collaborators: {
+        Row: {
+          board_id: string
+          created_at: string
+          id: string
+          invited_by: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          id?: string
+          invited_by: string
+          role?: string
+          user_id: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          id?: string
+          invited_by?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_collaborators_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "board_collaborators_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
+      }
+      board_sections: {
+        Row: {
+          board_id: string
+          created_at: string
+          created_by: string
+          id: string
+          name: string
+          updated_at: string
+        }
+        Insert: {
+          board_id: string
+          created_at?: string
+          created_by: string
+          id?: string
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          board_id?: string
+          created_at?: string
+          created_by?: string
+          id?: string
+          name?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "board_sections_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       boards: {
         Row: {
           cover_image_url: string | null
           created_at: string
           description: string | null
           id: string
+          is_private: boolean
           name: string
           updated_at: string
           user_id: string
@@ -29,6 +175,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          is_private?: boolean
           name: string
           updated_at?: string
           user_id: string
@@ -38,6 +185,7 @@ export type Database = {
           created_at?: string
           description?: string | null
           id?: string
+          is_private?: boolean
           name?: string
           updated_at?: string
           user_id?: string
@@ -48,28 +196,55 @@ export type Database = {
         Row: {
           content: string
           created_at: string
+          depth: number
+          edited_at: string | null
           id: string
+          parent_id: string | null
           pin_id: string
+          root_id: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
           content: string
           created_at?: string
+          depth?: number
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           pin_id: string
+          root_id?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
           content?: string
           created_at?: string
+          depth?: number
+          edited_at?: string | null
           id?: string
+          parent_id?: string | null
           pin_id?: string
+          root_id?: string | null
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "comments_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comments_root_id_fkey"
+            columns: ["root_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       follows: {
         Row: {
@@ -293,42 +468,164 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          actor_id: string
+          comment_id: string | null
+          created_at: string
+          id: string
+          pin_id: string | null
+          read_at: string | null
+          type: string
+          user_id: string
+        }
+        Insert: {
+          actor_id: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          pin_id?: string | null
+          read_at?: string | null
+          type: string
+          user_id: string
+        }
+        Update: {
+          actor_id?: string
+          comment_id?: string | null
+          created_at?: string
+          id?: string
+          pin_id?: string | null
+          read_at?: string | null
+          type?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_comment_id_fkey"
+            columns: ["comment_id"]
+            isOneToOne: false
+            referencedRelation: "comments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "notifications_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pin_revisions: {
+        Row: {
+          board_id: string
+          changed_fields: string[]
+          created_at: string
+          description: string | null
+          edited_by: string | null
+          id: string
+          is_nsfw: boolean
+          original_url: string | null
+          pin_id: string
+          title: string
+        }
+        Insert: {
+          board_id: string
+          changed_fields: string[]
+          created_at?: string
+          description?: string | null
+          edited_by?: string | null
+          id?: string
+          is_nsfw: boolean
+          original_url?: string | null
+          pin_id: string
+          title: string
+        }
+        Update: {
+          board_id?: string
+          changed_fields?: string[]
+          created_at?: string
+          description?: string | null
+          edited_by?: string | null
+          id?: string
+          is_nsfw?: boolean
+          original_url?: string | null
+          pin_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pin_revisions_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pins: {
         Row: {
+          aspect_ratio: number | null
+          blurhash: string | null
           board_id: string
+          comment_count: number
           created_at: string
           description: string | null
+          height: number | null
           id: string
           image_url: string
           is_nsfw: boolean
+          like_count: number
           original_url: string | null
+          position: number
+          save_count: number
+          section_id: string | null
           title: string
           updated_at: string
           user_id: string
+          width: number | null
         }
         Insert: {
+          aspect_ratio?: never
+          blurhash?: string | null
           board_id: string
+          comment_count?: number
           created_at?: string
           description?: string | null
+          height?: number | null
           id?: string
           image_url: string
           is_nsfw?: boolean
+          like_count?: number
           original_url?: string | null
+          position?: number
+          save_count?: number
+          section_id?: string | null
           title: string
           updated_at?: string
           user_id: string
+          width?: number | null
         }
         Update: {
+          aspect_ratio?: never
+          blurhash?: string | null
           board_id?: string
+          comment_count?: number
           created_at?: string
           description?: string | null
+          height?: number | null
           id?: string
           image_url?: string
           is_nsfw?: boolean
+          like_count?: number
           original_url?: string | null
+          position?: number
+          save_count?: number
+          section_id?: string | null
           title?: string
           updated_at?: string
           user_id?: string
+          width?: number | null
         }
         Relationships: [
           {
@@ -338,6 +635,13 @@ export type Database = {
             referencedRelation: "boards"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "pins_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "board_sections"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -345,6 +649,8 @@ export type Database = {
           avatar_url: string | null
           created_at: string
           email: string
+          follower_count: number
+          following_count: number
           full_name: string | null
           id: string
           updated_at: string
@@ -354,6 +660,8 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           email: string
+          follower_count?: number
+          following_count?: number
           full_name?: string | null
           id?: string
           updated_at?: string
@@ -363,6 +671,8 @@ export type Database = {
           avatar_url?: string | null
           created_at?: string
           email?: string
+          follower_count?: number
+          following_count?: number
           full_name?: string | null
           id?: string
           updated_at?: string
@@ -376,6 +686,8 @@ export type Database = {
           created_at: string
           id: string
           pin_id: string
+          position: number
+          section_id: string | null
           user_id: string
         }
         Insert: {
@@ -383,6 +695,8 @@ export type Database = {
           created_at?: string
           id?: string
           pin_id: string
+          position?: number
+          section_id?: string | null
           user_id: string
         }
         Update: {
@@ -390,25 +704,361 @@ export type Database = {
           created_at?: string
           id?: string
           pin_id?: string
+          position?: number
+          section_id?: string | null
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "saved_pins_board_id_fkey"
+            columns: ["board_id"]
+            isOneToOne: false
+            referencedRelation: "boards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_pins_pin_id_fkey"
+            columns: ["pin_id"]
+            isOneToOne: false
+            referencedRelation: "pins"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_pins_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "board_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "saved_pins_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["user_id"]
+          },
+        ]
       }
     }
     Views: {
-      [_ in never]: never
+      comments_with_author: {
+        Row: {
+          author_avatar_url: string | null
+          author_email: string | null
+          author_full_name: string | null
+          content: string
+          created_at: string
+          depth: number
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          pin_id: string
+          root_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Relationships: []
+      }
+      members_with_profile: {
+        Row: {
+          group_id: string
+          id: string
+          joined_at: string
+          profile_avatar_url: string | null
+          profile_email: string | null
+          profile_full_name: string | null
+          role: string
+          user_id: string
+        }
+        Relationships: []
+      }
+      messages_with_author: {
+        Row: {
+          author_avatar_url: string | null
+          author_email: string | null
+          author_full_name: string | null
+          content: string
+          created_at: string
+          group_id: string
+          id: string
+          image_url: string | null
+          link_description: string | null
+          link_image_url: string | null
+          link_title: string | null
+          link_url: string | null
+          message_type: string | null
+          platform: string | null
+          updated_at: string
+          user_id: string
+        }
+        Relationships: []
+      }
+      pins_with_author: {
+        Row: {
+          aspect_ratio: number | null
+          author_avatar_url: string | null
+          author_email: string | null
+          author_full_name: string | null
+          blurhash: string | null
+          board_id: string
+          comment_count: number
+          created_at: string
+          description: string | null
+          height: number | null
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          original_url: string | null
+          position: number
+          save_count: number
+          section_id: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          width: number | null
+        }
+        Relationships: []
+      }
     }
     Functions: {
+      board_entries: {
+        Args: { target_board_id: string }
+        Returns: {
+          id: string
+          kind: string
+          position: number
+        }[]
+      }
+      bulk_update_pins: {
+        Args: {
+          action: string
+          items: Json
+          nsfw?: boolean
+          target_board_id?: string
+        }
+        Returns: {
+          item_id: string
+          item_kind: string
+          message: string
+          ok: boolean
+        }[]
+      }
       generate_invite_code: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_comment_threads: {
+        Args: {
+          cursor_created_at?: string
+          cursor_id?: string
+          page_size?: number
+          target_pin_id: string
+        }
+        Returns: {
+          author_avatar_url: string | null
+          author_email: string | null
+          author_full_name: string | null
+          content: string
+          created_at: string
+          depth: number
+          edited_at: string | null
+          id: string
+          parent_id: string | null
+          pin_id: string
+          root_id: string | null
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      get_following_feed: {
+        Args: {
+          cursor_created_at?: string
+          cursor_id?: string
+          page_size?: number
+        }
+        Returns: {
+          author_avatar_url: string
+          author_email: string
+          author_full_name: string
+          blurhash: string
+          board_id: string
+          comment_count: number
+          created_at: string
+          description: string
+          height: number
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          original_url: string
+          save_count: number
+          title: string
+          user_id: string
+          width: number
+        }[]
+      }
+      get_for_you_feed: {
+        Args: {
+          as_of?: string
+          cursor_created_at?: string
+          cursor_id?: string
+          cursor_score?: number
+          page_size?: number
+        }
+        Returns: {
+          author_avatar_url: string
+          author_email: string
+          author_full_name: string
+          blurhash: string
+          board_id: string
+          comment_count: number
+          created_at: string
+          description: string
+          height: number
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          original_url: string
+          save_count: number
+          score: number
+          title: string
+          user_id: string
+          width: number
+        }[]
+      }
+      get_pins_feed: {
+        Args: {
+          cursor_created_at?: string
+          cursor_id?: string
+          page_size?: number
+        }
+        Returns: {
+          author_avatar_url: string
+          author_email: string
+          author_full_name: string
+          blurhash: string
+          board_id: string
+          comment_count: number
+          created_at: string
+          description: string
+          height: number
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          original_url: string
+          save_count: number
+          title: string
+          user_id: string
+          width: number
+        }[]
+      }
       get_user_groups: {
         Args: { user_uuid: string }
         Returns: {
           group_id: string
         }[]
       }
+      move_board_entry: {
+        Args: {
+          after_id?: string
+          after_kind?: string
+          entry_id: string
+          entry_kind: string
+          target_board_id: string
+        }
+        Returns: {
+          entry_position: number
+          renumbered: boolean
+        }[]
+      }
+      rank_pins_for_user: {
+        Args: { as_of?: string; viewer: string }
+        Returns: {
+          engagement_score: number
+          follow_score: number
+          pin_id: string
+          score: number
+          similarity_score: number
+        }[]
+      }
+      reconcile_engagement_counts: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          pins_repaired: number
+          profiles_repaired: number
+        }[]
+      }
+      restore_pin_revision: {
+        Args: { revision_id: string }
+        Returns: {
+          aspect_ratio: number | null
+          blurhash: string | null
+          board_id: string
+          comment_count: number
+          created_at: string
+          description: string | null
+          height: number | null
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          original_url: string | null
+          position: number
+          save_count: number
+          section_id: string | null
+          title: string
+          updated_at: string
+          user_id: string
+          width: number | null
+        }[]
+      }
+      search_pins: {
+        Args: {
+          filter?: string
+          page_offset?: number
+          page_size?: number
+          search_query: string
+        }
+        Returns: {
+          author_avatar_url: string
+          author_email: string
+          author_full_name: string
+          blurhash: string
+          board_id: string
+          board_name: string
+          comment_count: number
+          created_at: string
+          description: string
+          height: number
+          id: string
+          image_url: string
+          is_nsfw: boolean
+          like_count: number
+          matched_on: string
+          original_url: string
+          rank: number
+          save_count: number
+          snippet: string
+          title: string
+          user_id: string
+          width: number
+        }[]
+      }
+      set_board_entry_section: {
+        Args: { entry_id: string; entry_kind: string; target_section_id?: string }
+        Returns: undefined
+      }
+      user_can_edit_board: {
+        Args: { board_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
+      user_can_view_board: {
+        Args: { board_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
       user_is_group_admin: {
         Args: { group_uuid: string; user_uuid: string }
         Returns: boolean
@@ -417,6 +1067,10 @@ export type Database = {
         Args: { group_uuid: string; user_uuid: string }
         Returns: boolean
       }
+      user_owns_board: {
+        Args: { board_uuid: string; user_uuid: string }
+        Returns: boolean
+      }
     }
     Enums: {
       [_ in never]: never
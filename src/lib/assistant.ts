@@ -0,0 +1,196 @@
+import { Bookmark, LayoutGrid, LucideIcon, MessageSquareText, Search, UserPlus } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+
+// Mirrors the action registry in supabase/functions/ai-assistant/actions.ts
+export type AssistantActionType =
+  | "create_board"
+  | "save_pin"
+  | "search_pins"
+  | "summarize_group"
+  | "invite_user";
+
+// Where an action card ended up, stored on the message so it survives a reload
+export interface ActionResolution {
+  status: "done" | "undone" | "cancelled" | "failed";
+  outcome?: ActionResult;
+  note?: string;
+}
+
+export interface ProposedAction {
+  id: string;
+  type: AssistantActionType;
+  args: Record<string, string>;
+  summary: string;
+  resolution?: ActionResolution;
+}
+
+export interface PinSearchResult {
+  id: string;
+  title: string;
+  image_url: string;
+}
+
+export interface ActionResult {
+  type: AssistantActionType;
+  result: Record<string, unknown> & { pins?: PinSearchResult[] };
+  undoable: boolean;
+}
+
+export interface ContentTemplate {
+  topic: string;
+  title: string;
+  sections: string[];
+  hashtags: string[];
+}
+
+export interface AssistantData {
+  inviteLink?: string;
+  group?: { id: string; name: string };
+  template?: ContentTemplate;
+  proposedActions?: ProposedAction[];
+  actionResult?: ActionResult;
+}
+
+export interface AssistantResponse {
+  response: string;
+  success: boolean;
+  data?: AssistantData;
+  conversationId?: string;
+  messageId?: string;
+}
+
+export type AssistantConversation = Pick<Tables<"assistant_conversations">, "id" | "title" | "updated_at">;
+
+export interface AssistantMessage {
+  id: string;
+  content: string;
+  isUser: boolean;
+  timestamp: Date;
+  data?: AssistantData;
+}
+
+export const actionMeta: Record<AssistantActionType, { label: string; icon: LucideIcon }> = {
+  create_board: { label: "Create board", icon: LayoutGrid },
+  save_pin: { label: "Save pin", icon: Bookmark },
+  search_pins: { label: "Search pins", icon: Search },
+  summarize_group: { label: "Summarize chat", icon: MessageSquareText },
+  invite_user: { label: "Invite to group", icon: UserPlus },
+};
+
+const invokeAssistant = async (body: Record<string, unknown>): Promise<AssistantResponse> => {
+  const { data, error } = await supabase.functions.invoke("ai-assistant", { body });
+  if (error) throw error;
+  return data as AssistantResponse;
+};
+
+interface StreamHandlers {
+  onConversation?: (conversationId: string) => void;
+  onDelta: (text: string) => void;
+  signal?: AbortSignal;
+}
+
+// The edge function stores both turns and starts a conversation when none is given.
+// Resolves with the final reply, or null when the signal stopped the stream first.
+export const streamAssistantMessage = async (
+  message: string,
+  conversationId: string | undefined,
+  { onConversation, onDelta, signal }: StreamHandlers
+): Promise<AssistantResponse | null> => {
+  const { data, error } = await supabase.functions.invoke("ai-assistant", {
+    body: { message, conversationId, stream: true },
+  });
+  if (error) throw error;
+
+  const body = (data as Response).body;
+  if (!body) throw new Error("Assistant returned an empty stream");
+
+  const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+  const stop = () => reader.cancel();
+  if (signal?.aborted) {
+    await stop();
+    return null;
+  }
+  signal?.addEventListener("abort", stop, { once: true });
+
+  let buffer = "";
+  let reply: AssistantResponse | null = null;
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+
+      buffer += value;
+      const events = buffer.split("\n\n");
+      buffer = events.pop() ?? "";
+
+      for (const raw of events) {
+        const event = raw.match(/^event: (.+)$/m)?.[1];
+        const payload = JSON.parse(raw.match(/^data: (.+)$/m)?.[1] ?? "null");
+
+        if (event === "conversation") onConversation?.(payload.conversationId);
+        else if (event === "delta") onDelta(payload.text);
+        else if (event === "done") reply = payload;
+        else if (event === "error") throw new Error(payload.error);
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", stop);
+  }
+
+  if (signal?.aborted) return null;
+  if (!reply) throw new Error("Assistant stream ended before the reply was complete");
+  return reply;
+};
+
+export const confirmAssistantAction = (action: ProposedAction) =>
+  invokeAssistant({ action: { type: action.type, args: action.args } });
+
+export const undoAssistantAction = (outcome: ActionResult) =>
+  invokeAssistant({ undo: { type: outcome.type, result: outcome.result } });
+
+export const fetchAssistantConversations = async (): Promise<AssistantConversation[]> => {
+  const { data, error } = await supabase
+    .from("assistant_conversations")
+    .select("id, title, updated_at")
+    .order("updated_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const fetchAssistantMessages = async (conversationId: string): Promise<AssistantMessage[]> => {
+  const { data, error } = await supabase
+    .from("assistant_messages")
+    .select("id, role, content, data, created_at")
+    .eq("conversation_id", conversationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({
+    id: row.id,
+    content: row.content,
+    isUser: row.role === "user",
+    timestamp: new Date(row.created_at),
+    data: (row.data as AssistantData | null) ?? undefined,
+  }));
+};
+
+export const deleteAssistantConversation = async (conversationId: string) => {
+  const { error } = await supabase
+    .from("assistant_conversations")
+    .delete()
+    .eq("id", conversationId);
+
+  if (error) throw error;
+};
+
+export const saveAssistantMessageData = async (messageId: string, data: AssistantData) => {
+  const { error } = await supabase
+    .from("assistant_messages")
+    .update({ data: data as unknown as Json })
+    .eq("id", messageId);
+
+  if (error) throw error;
+};
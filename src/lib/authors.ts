@@ -0,0 +1,29 @@
+// Rows from the *_with_author views carry their author's profile as flat author_* columns.
+// Pages render it nested under `profiles`, the shape the old per-row profile lookups produced.
+
+export interface AuthorProfile {
+  full_name?: string;
+  email: string;
+  avatar_url?: string;
+}
+
+export interface AuthorColumns {
+  author_full_name: string | null;
+  author_email: string | null;
+  author_avatar_url: string | null;
+}
+
+// Every profile has an email, so a missing one means the author has no profile row
+export const toAuthorProfile = ({
+  author_full_name,
+  author_email,
+  author_avatar_url,
+}: AuthorColumns): AuthorProfile | undefined =>
+  author_email
+    ? { full_name: author_full_name ?? undefined, email: author_email, avatar_url: author_avatar_url ?? undefined }
+    : undefined;
+
+export const withAuthor = <Row extends AuthorColumns>(row: Row) => {
+  const { author_full_name, author_email, author_avatar_url, ...rest } = row;
+  return { ...rest, profiles: toAuthorProfile({ author_full_name, author_email, author_avatar_url }) };
+};
@@ -0,0 +1,97 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { ProfileSummary } from "@/lib/profiles";
+
+export type BoardRole = "editor" | "viewer";
+
+export const BOARD_ROLES: { value: BoardRole; label: string; description: string }[] = [
+  { value: "editor", label: "Editor", description: "Can add, save and arrange pins" },
+  { value: "viewer", label: "Viewer", description: "Can see the board, even when it's secret" },
+];
+
+export type CollaboratorProfile = ProfileSummary;
+
+export interface BoardCollaborator {
+  id: string;
+  user_id: string;
+  role: BoardRole;
+  created_at: string;
+  profiles?: CollaboratorProfile;
+}
+
+// A board the user can pin into, either as its owner or as an editor
+export type EditableBoard = Tables<"boards"> & { role: "owner" | "editor" };
+
+export const fetchBoardCollaborators = async (boardId: string): Promise<BoardCollaborator[]> => {
+  const { data, error } = await supabase
+    .from("board_collaborators")
+    .select("id, user_id, role, created_at, profiles(user_id, full_name, email, avatar_url)")
+    .eq("board_id", boardId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []).map((row) => ({ ...row, role: row.role as BoardRole }));
+};
+
+export const inviteCollaborator = async ({
+  boardId,
+  userId,
+  role,
+  invitedBy,
+}: {
+  boardId: string;
+  userId: string;
+  role: BoardRole;
+  invitedBy: string;
+}) => {
+  const { error } = await supabase
+    .from("board_collaborators")
+    .insert({ board_id: boardId, user_id: userId, role, invited_by: invitedBy });
+
+  if (error) throw error;
+};
+
+export const updateCollaboratorRole = async (collaboratorId: string, role: BoardRole) => {
+  const { error } = await supabase
+    .from("board_collaborators")
+    .update({ role })
+    .eq("id", collaboratorId);
+
+  if (error) throw error;
+};
+
+export const removeCollaborator = async (collaboratorId: string) => {
+  const { error } = await supabase
+    .from("board_collaborators")
+    .delete()
+    .eq("id", collaboratorId);
+
+  if (error) throw error;
+};
+
+// Boards the user owns followed by boards they edit, each newest first
+export const fetchEditableBoards = async (userId: string): Promise<EditableBoard[]> => {
+  const [{ data: owned, error: ownedError }, { data: shared, error: sharedError }] = await Promise.all([
+    supabase
+      .from("boards")
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false }),
+    supabase
+      .from("board_collaborators")
+      .select("boards(*)")
+      .eq("user_id", userId)
+      .eq("role", "editor")
+      .order("created_at", { ascending: false }),
+  ]);
+
+  if (ownedError) throw ownedError;
+  if (sharedError) throw sharedError;
+
+  return [
+    ...(owned ?? []).map((board) => ({ ...board, role: "owner" as const })),
+    ...(shared ?? [])
+      .filter((row) => row.boards)
+      .map((row) => ({ ...row.boards, role: "editor" as const })),
+  ];
+};
@@ -0,0 +1,140 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuthorProfile, withAuthor } from "@/lib/authors";
+
+type PinRow = Tables<"pins">;
+
+export interface BoardPin extends PinRow {
+  profiles?: AuthorProfile;
+  // Set when the pin lives on another board and was saved into this one
+  saved_pin_id?: string;
+  saved_by?: string;
+  // When the pin was created here or saved here, whichever applies
+  added_at: string;
+}
+
+// Native pins and saved pins share one ordering on a board, so moves name which table an entry lives in
+export type BoardEntryKind = "pin" | "saved";
+
+export const boardEntryKind = (pin: Pick<BoardPin, "saved_pin_id">): BoardEntryKind =>
+  pin.saved_pin_id ? "saved" : "pin";
+
+const boardEntryId = (pin: Pick<BoardPin, "id" | "saved_pin_id">) => pin.saved_pin_id ?? pin.id;
+
+// Unique per entry on a board, for selection and result lookups
+export const boardEntryKey = (pin: Pick<BoardPin, "id" | "saved_pin_id">) =>
+  `${boardEntryKind(pin)}:${boardEntryId(pin)}`;
+
+export const isSameBoardEntry = (
+  a: Pick<BoardPin, "id" | "saved_pin_id">,
+  b: Pick<BoardPin, "id" | "saved_pin_id">
+) => boardEntryKind(a) === boardEntryKind(b) && boardEntryId(a) === boardEntryId(b);
+
+// Sort key matching move_board_entry's (position, kind, id) order
+const compareBoardEntries = (a: BoardPin, b: BoardPin) =>
+  a.position - b.position ||
+  boardEntryKind(a).localeCompare(boardEntryKind(b)) ||
+  boardEntryId(a).localeCompare(boardEntryId(b));
+
+// Native pins and pins saved into the board, in the board's manual order. A pin saved into its own board shows once.
+// Three queries however many pins or authors the board has: the native pins and the saved
+// entries together, then the saved pins themselves, each with its author joined in.
+export const fetchBoardPins = async (boardId: string): Promise<BoardPin[]> => {
+  const [{ data: nativePins, error: pinsError }, { data: savedRows, error: savedError }] = await Promise.all([
+    supabase
+      .from("pins_with_author")
+      .select("*")
+      .eq("board_id", boardId),
+    supabase
+      .from("saved_pins")
+      .select("id, pin_id, user_id, section_id, position, created_at")
+      .eq("board_id", boardId),
+  ]);
+
+  if (pinsError) throw pinsError;
+  if (savedError) throw savedError;
+
+  const entries: BoardPin[] = (nativePins ?? []).map((pin) => ({ ...withAuthor(pin), added_at: pin.created_at }));
+  const seen = new Set(entries.map((pin) => pin.id));
+
+  const savedPinIds = [...new Set((savedRows ?? []).map((row) => row.pin_id))].filter((id) => !seen.has(id));
+  if (savedPinIds.length > 0) {
+    const { data: savedPins, error: savedPinsError } = await supabase
+      .from("pins_with_author")
+      .select("*")
+      .in("id", savedPinIds);
+
+    if (savedPinsError) throw savedPinsError;
+
+    // A saved pin is missing here when RLS hides it from this viewer
+    const savedPinsById = new Map((savedPins ?? []).map((pin) => [pin.id, withAuthor(pin)]));
+    for (const row of savedRows ?? []) {
+      const pin = savedPinsById.get(row.pin_id);
+      if (!pin || seen.has(pin.id)) continue;
+      seen.add(pin.id);
+      entries.push({
+        ...pin,
+        // The section is where it was filed on this board, not on the board it came from
+        section_id: row.section_id,
+        position: row.position,
+        saved_pin_id: row.id,
+        saved_by: row.user_id,
+        added_at: row.created_at,
+      });
+    }
+  }
+
+  return entries.sort(compareBoardEntries);
+};
+
+export const removeSavedPin = async (savedPinId: string) => {
+  const { error } = await supabase
+    .from("saved_pins")
+    .delete()
+    .eq("id", savedPinId);
+
+  if (error) throw error;
+};
+
+// Number of saved pins per board, for the given boards
+export const fetchSavedCounts = async (boardIds: string[]): Promise<Record<string, number>> => {
+  if (boardIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("saved_pins")
+    .select("board_id")
+    .in("board_id", boardIds);
+
+  if (error) throw error;
+
+  const counts: Record<string, number> = {};
+  for (const row of data ?? []) {
+    counts[row.board_id] = (counts[row.board_id] ?? 0) + 1;
+  }
+  return counts;
+};
+
+// Moves an entry to just after `after`, or to the top of the board when `after` is null.
+// Resolves with renumbered set when the server had to respace the board, so the caller
+// should reload positions rather than trust its local ones.
+export const moveBoardEntry = async ({
+  boardId,
+  entry,
+  after,
+}: {
+  boardId: string;
+  entry: Pick<BoardPin, "id" | "saved_pin_id">;
+  after: Pick<BoardPin, "id" | "saved_pin_id"> | null;
+}): Promise<{ position: number; renumbered: boolean }> => {
+  const { data, error } = await supabase.rpc("move_board_entry", {
+    target_board_id: boardId,
+    entry_kind: boardEntryKind(entry),
+    entry_id: boardEntryId(entry),
+    after_kind: after ? boardEntryKind(after) : undefined,
+    after_id: after ? boardEntryId(after) : undefined,
+  });
+
+  if (error) throw error;
+  const [result] = data ?? [];
+  return { position: result.entry_position, renumbered: result.renumbered };
+};
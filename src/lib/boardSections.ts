@@ -0,0 +1,69 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type BoardSection = Tables<"board_sections">;
+
+// Oldest first, so new sections are added at the bottom of the board
+export const fetchBoardSections = async (boardId: string): Promise<BoardSection[]> => {
+  const { data, error } = await supabase
+    .from("board_sections")
+    .select("*")
+    .eq("board_id", boardId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createBoardSection = async ({
+  boardId,
+  name,
+  createdBy,
+}: {
+  boardId: string;
+  name: string;
+  createdBy: string;
+}): Promise<BoardSection> => {
+  const { data, error } = await supabase
+    .from("board_sections")
+    .insert({ board_id: boardId, name: name.trim(), created_by: createdBy })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const renameBoardSection = async (sectionId: string, name: string) => {
+  const { error } = await supabase
+    .from("board_sections")
+    .update({ name: name.trim() })
+    .eq("id", sectionId);
+
+  if (error) throw error;
+};
+
+// Pins in a deleted section fall back to unsorted
+export const deleteBoardSection = async (sectionId: string) => {
+  const { error } = await supabase
+    .from("board_sections")
+    .delete()
+    .eq("id", sectionId);
+
+  if (error) throw error;
+};
+
+// A pin saved into the board is filed through its saved_pins row, so the original pin's
+// section on its own board is left alone
+export const movePinToSection = async (
+  pin: { id: string; saved_pin_id?: string },
+  sectionId: string | null
+) => {
+  const { error } = await supabase.rpc("set_board_entry_section", {
+    entry_kind: pin.saved_pin_id ? "saved" : "pin",
+    entry_id: pin.saved_pin_id ?? pin.id,
+    target_section_id: sectionId,
+  });
+
+  if (error) throw error;
+};
@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuthorProfile } from "@/lib/authors";
+
+export type Board = Tables<"boards">;
+
+export interface BoardWithOwner extends Board {
+  profiles?: AuthorProfile | null;
+}
+
+// The board and its owner's profile, or null when it doesn't exist. RLS hides secret boards
+// from everyone but their owner and collaborators, so a hidden board comes back null too.
+export const fetchBoard = async (boardId: string): Promise<BoardWithOwner | null> => {
+  const { data: board, error } = await supabase
+    .from("boards")
+    .select("*")
+    .eq("id", boardId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!board) return null;
+
+  const { data: owner } = await supabase
+    .from("profiles")
+    .select("full_name, email, avatar_url")
+    .eq("user_id", board.user_id)
+    .maybeSingle();
+
+  return { ...board, profiles: owner };
+};
+
+// A user's boards, newest first
+export const fetchUserBoards = async (userId: string): Promise<Board[]> => {
+  const { data, error } = await supabase
+    .from("boards")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const createBoard = async ({
+  userId,
+  name,
+  description,
+  isPrivate,
+}: {
+  userId: string;
+  name: string;
+  description?: string;
+  isPrivate: boolean;
+}): Promise<Board> => {
+  const { data, error } = await supabase
+    .from("boards")
+    .insert({ user_id: userId, name: name.trim(), description: description?.trim() || null, is_private: isPrivate })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
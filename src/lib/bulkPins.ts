@@ -0,0 +1,63 @@
+import { supabase } from "@/integrations/supabase/client";
+import { BoardEntryKind, boardEntryKey, boardEntryKind } from "@/lib/boardPins";
+
+export type BulkPinAction = "move" | "copy" | "delete" | "set_nsfw";
+
+export interface BulkPinResult {
+  // Matches boardEntryKey, so results can be lined up with the selection
+  key: string;
+  kind: BoardEntryKind;
+  id: string;
+  ok: boolean;
+  message?: string;
+}
+
+type BulkPinTarget = { id: string; saved_pin_id?: string };
+
+// Applies the action to every pin in one transaction. Pins the caller may not change, or
+// that fail for any other reason, are skipped and come back with ok: false and a reason;
+// the rest are applied together.
+export const applyBulkPinAction = async ({
+  pins,
+  action,
+  targetBoardId,
+  nsfw,
+}: {
+  pins: BulkPinTarget[];
+  action: BulkPinAction;
+  targetBoardId?: string;
+  nsfw?: boolean;
+}): Promise<BulkPinResult[]> => {
+  if (pins.length === 0) return [];
+
+  const { data, error } = await supabase.rpc("bulk_update_pins", {
+    items: pins.map((pin) => ({ kind: boardEntryKind(pin), id: pin.saved_pin_id ?? pin.id })),
+    action,
+    target_board_id: targetBoardId,
+    nsfw,
+  });
+
+  if (error) throw error;
+
+  return (data ?? []).map((row) => {
+    const kind = row.item_kind as BoardEntryKind;
+    return {
+      key: boardEntryKey(kind === "saved" ? { id: row.item_id, saved_pin_id: row.item_id } : { id: row.item_id }),
+      kind,
+      id: row.item_id,
+      ok: row.ok,
+      message: row.message ?? undefined,
+    };
+  });
+};
+
+// "3 pins moved" or "3 pins moved, 1 skipped: Already on that board"
+export const summarizeBulkResults = (results: BulkPinResult[], verb: string) => {
+  const succeeded = results.filter((result) => result.ok).length;
+  const failed = results.filter((result) => !result.ok);
+  const summary = `${succeeded} ${succeeded === 1 ? "pin" : "pins"} ${verb}`;
+  if (failed.length === 0) return summary;
+
+  const reasons = [...new Set(failed.map((result) => result.message).filter(Boolean))];
+  return `${summary}, ${failed.length} skipped${reasons.length ? `: ${reasons.join("; ")}` : ""}`;
+};
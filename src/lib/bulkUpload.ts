@@ -0,0 +1,83 @@
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { ProcessedImage, UploadedImage, uniqueImageName } from "@/lib/imageUpload";
+
+export const MAX_BULK_FILES = 50;
+export const UPLOAD_CONCURRENCY = 3;
+// Attempts per file before it's left for the user to retry
+export const MAX_UPLOAD_ATTEMPTS = 3;
+// The wait before a retry doubles with every failed attempt: 1s, then 2s
+const RETRY_BASE_DELAY_MS = 1000;
+
+const MAX_TITLE_LENGTH = 100;
+
+// "summer_trip-2024.jpg" -> "summer trip 2024"
+export const titleFromFileName = (name: string) =>
+  name
+    .replace(/\.[^.]+$/, "")
+    .replace(/[_-]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, MAX_TITLE_LENGTH) || "Untitled";
+
+export const retryDelay = (attempts: number) => RETRY_BASE_DELAY_MS * 2 ** Math.max(0, attempts - 1);
+
+// storage-js can't report progress, so the image goes to a signed upload URL over XHR.
+// Creating the URL goes through the same storage policies as a direct upload. Takes the
+// image already processed, so retries don't process it again.
+export const uploadPinImage = async (
+  { blob, ...image }: ProcessedImage,
+  userId: string,
+  onProgress: (fraction: number) => void
+): Promise<UploadedImage> => {
+  const path = `pins/${userId}/${uniqueImageName()}.${image.extension}`;
+
+  const { data, error } = await supabase.storage.from("pin-images").createSignedUploadUrl(path);
+  if (error) throw error;
+
+  await new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open("PUT", data.signedUrl);
+    xhr.setRequestHeader("x-upsert", "false");
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve();
+        return;
+      }
+      let message = `Upload failed (${xhr.status})`;
+      try {
+        message = JSON.parse(xhr.responseText).message ?? message;
+      } catch {
+        // Not JSON, keep the status
+      }
+      reject(new Error(message));
+    };
+    xhr.onerror = () => reject(new Error("Network error while uploading"));
+
+    const body = new FormData();
+    body.append("cacheControl", "3600");
+    body.append("", blob);
+    xhr.send(body);
+  });
+
+  onProgress(1);
+  const { data: { publicUrl } } = supabase.storage.from("pin-images").getPublicUrl(path);
+  return { ...image, path, publicUrl };
+};
+
+// For drafts dropped after their image was uploaded, so they don't linger in storage
+export const removePinImages = async (paths: string[]) => {
+  if (paths.length === 0) return;
+  const { error } = await supabase.storage.from("pin-images").remove(paths);
+  if (error) throw error;
+};
+
+// One insert, so either every pin is created or none are
+export const createPins = async (pins: TablesInsert<"pins">[]) => {
+  const { data, error } = await supabase.from("pins").insert(pins).select("id");
+  if (error) throw error;
+  return data;
+};
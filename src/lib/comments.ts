@@ -0,0 +1,126 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuthorProfile, withAuthor } from "@/lib/authors";
+
+export const COMMENT_PAGE_SIZE = 20;
+// Top-level comments are depth 0; the database refuses anything deeper than this
+export const MAX_COMMENT_DEPTH = 2;
+
+export interface PinComment extends Tables<"comments"> {
+  profiles?: AuthorProfile;
+}
+
+// Threads page newest first by their top-level comment's (created_at, id)
+export interface CommentCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface CommentPage {
+  comments: PinComment[];
+  nextCursor: CommentCursor | null;
+}
+
+// A page of a pin's threads: the top-level comments and every reply under them, oldest first
+export const fetchCommentPage = async ({
+  pinId,
+  cursor,
+  pageSize = COMMENT_PAGE_SIZE,
+}: {
+  pinId: string;
+  cursor?: CommentCursor | null;
+  pageSize?: number;
+}): Promise<CommentPage> => {
+  const { data, error } = await supabase.rpc("get_comment_threads", {
+    target_pin_id: pinId,
+    cursor_created_at: cursor?.createdAt,
+    cursor_id: cursor?.id,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+  const comments = (data ?? []).map(withAuthor);
+  const roots = comments.filter((comment) => !comment.parent_id);
+  const oldest = roots[0];
+  return {
+    comments,
+    nextCursor: roots.length === pageSize && oldest ? { createdAt: oldest.created_at, id: oldest.id } : null,
+  };
+};
+
+export interface CommentNode extends PinComment {
+  replies: CommentNode[];
+}
+
+// Nests replies under their parents. Threads are newest first and replies oldest first,
+// so a conversation reads top to bottom.
+export const buildCommentTree = (comments: PinComment[]) => {
+  const nodes = new Map<string, CommentNode>(comments.map((comment) => [comment.id, { ...comment, replies: [] }]));
+  const roots: CommentNode[] = [];
+
+  [...nodes.values()]
+    .sort((a, b) => a.created_at.localeCompare(b.created_at))
+    .forEach((node) => {
+      const parent = node.parent_id ? nodes.get(node.parent_id) : undefined;
+      if (parent) parent.replies.push(node);
+      // A reply whose parent isn't loaded has nowhere to go
+      else if (!node.parent_id) roots.push(node);
+    });
+
+  return roots.reverse();
+};
+
+// Replying to the deepest comments continues their thread under the same parent
+export const replyParentId = (comment: PinComment) =>
+  comment.depth >= MAX_COMMENT_DEPTH && comment.parent_id ? comment.parent_id : comment.id;
+
+// A single comment with its author, or null when it's gone
+export const fetchComment = async (commentId: string): Promise<PinComment | null> => {
+  const { data, error } = await supabase
+    .from("comments_with_author")
+    .select("*")
+    .eq("id", commentId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withAuthor(data) : null;
+};
+
+// The id is chosen by the caller, so a comment shown before it's saved and the realtime
+// echo of it can be recognised as the same comment. Returns the row as stored.
+export const addComment = async ({
+  id,
+  pinId,
+  userId,
+  content,
+  parentId,
+}: {
+  id: string;
+  pinId: string;
+  userId: string;
+  content: string;
+  parentId?: string | null;
+}): Promise<Tables<"comments">> => {
+  const { data, error } = await supabase
+    .from("comments")
+    .insert({ id, pin_id: pinId, user_id: userId, content, parent_id: parentId ?? null })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// The database marks the comment edited
+export const editComment = async (commentId: string, content: string) => {
+  const { error } = await supabase.from("comments").update({ content }).eq("id", commentId);
+
+  if (error) throw error;
+};
+
+// Replies go with it
+export const deleteComment = async (commentId: string, userId: string) => {
+  const { error } = await supabase.from("comments").delete().eq("id", commentId).eq("user_id", userId);
+
+  if (error) throw error;
+};
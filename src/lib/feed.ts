@@ -0,0 +1,165 @@
+import { supabase } from "@/integrations/supabase/client";
+import { AuthorProfile, toAuthorProfile } from "@/lib/authors";
+
+export const FEED_PAGE_SIZE = 30;
+
+export interface FeedPin {
+  id: string;
+  title: string;
+  description?: string;
+  image_url: string;
+  original_url?: string;
+  user_id: string;
+  board_id: string;
+  created_at: string;
+  is_nsfw?: boolean;
+  // Missing on pins whose image couldn't be measured
+  width?: number | null;
+  height?: number | null;
+  blurhash?: string | null;
+  like_count?: number;
+  comment_count?: number;
+  save_count?: number;
+  profiles?: AuthorProfile;
+}
+
+// Position of the last pin already shown; created_at alone isn't unique
+export interface FeedCursor {
+  createdAt: string;
+  id: string;
+}
+
+export interface FeedPage {
+  pins: FeedPin[];
+  nextCursor: FeedCursor | null;
+}
+
+export type FeedMode = "for_you" | "following" | "latest";
+
+export const FEED_MODES: { value: FeedMode; label: string }[] = [
+  { value: "following", label: "Following" },
+  { value: "for_you", label: "For You" },
+  { value: "latest", label: "Latest" },
+];
+
+export const parseFeedMode = (value: string | null): FeedMode =>
+  FEED_MODES.some((mode) => mode.value === value) ? (value as FeedMode) : "for_you";
+
+// For You pages by (score, created_at, id); asOf pins the scores for the whole session
+export interface RankedCursor {
+  score: number;
+  createdAt: string;
+  id: string;
+  asOf: string;
+}
+
+// Every feed RPC returns the pin columns plus the author profile flattened alongside
+interface FeedRow {
+  id: string;
+  title: string;
+  description: string;
+  image_url: string;
+  original_url: string;
+  user_id: string;
+  board_id: string;
+  created_at: string;
+  is_nsfw: boolean;
+  width: number | null;
+  height: number | null;
+  blurhash: string | null;
+  like_count: number;
+  comment_count: number;
+  save_count: number;
+  author_full_name: string;
+  author_email: string;
+  author_avatar_url: string;
+}
+
+export const toFeedPin = (row: FeedRow): FeedPin => ({
+  id: row.id,
+  title: row.title,
+  description: row.description,
+  image_url: row.image_url,
+  original_url: row.original_url,
+  user_id: row.user_id,
+  board_id: row.board_id,
+  created_at: row.created_at,
+  is_nsfw: row.is_nsfw,
+  width: row.width,
+  height: row.height,
+  blurhash: row.blurhash,
+  like_count: row.like_count,
+  comment_count: row.comment_count,
+  save_count: row.save_count,
+  profiles: toAuthorProfile(row),
+});
+
+const keysetPage = (rows: FeedRow[], pageSize: number): FeedPage => {
+  const pins = rows.map(toFeedPin);
+  const last = pins[pins.length - 1];
+  return {
+    pins,
+    nextCursor: pins.length === pageSize && last ? { createdAt: last.created_at, id: last.id } : null,
+  };
+};
+
+export const fetchFeedPage = async ({
+  cursor,
+  pageSize = FEED_PAGE_SIZE,
+}: {
+  cursor?: FeedCursor | null;
+  pageSize?: number;
+}): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc("get_pins_feed", {
+    cursor_created_at: cursor?.createdAt,
+    cursor_id: cursor?.id,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+  return keysetPage(data ?? [], pageSize);
+};
+
+export const fetchFollowingPage = async ({
+  cursor,
+  pageSize = FEED_PAGE_SIZE,
+}: {
+  cursor?: FeedCursor | null;
+  pageSize?: number;
+}): Promise<FeedPage> => {
+  const { data, error } = await supabase.rpc("get_following_feed", {
+    cursor_created_at: cursor?.createdAt,
+    cursor_id: cursor?.id,
+    page_size: pageSize,
+  });
+
+  if (error) throw error;
+  return keysetPage(data ?? [], pageSize);
+};
+
+export const fetchForYouPage = async ({
+  cursor,
+  pageSize = FEED_PAGE_SIZE,
+}: {
+  cursor?: RankedCursor | null;
+  pageSize?: number;
+}): Promise<{ pins: FeedPin[]; nextCursor: RankedCursor | null }> => {
+  const asOf = cursor?.asOf ?? new Date().toISOString();
+  const { data, error } = await supabase.rpc("get_for_you_feed", {
+    cursor_score: cursor?.score,
+    cursor_created_at: cursor?.createdAt,
+    cursor_id: cursor?.id,
+    page_size: pageSize,
+    as_of: asOf,
+  });
+
+  if (error) throw error;
+
+  const rows = data ?? [];
+  const last = rows[rows.length - 1];
+  return {
+    pins: rows.map(toFeedPin),
+    nextCursor:
+      rows.length === pageSize && last ? { score: last.score, createdAt: last.created_at, id: last.id, asOf } : null,
+  };
+};
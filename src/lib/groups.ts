@@ -0,0 +1,68 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuthorProfile, toAuthorProfile, withAuthor } from "@/lib/authors";
+
+export const GROUP_MESSAGE_LIMIT = 100;
+
+export interface GroupMessageWithAuthor extends Tables<"group_messages"> {
+  profiles?: AuthorProfile;
+}
+
+export interface GroupMemberWithProfile extends Tables<"group_members"> {
+  profiles?: AuthorProfile;
+}
+
+// The first messages of a group, oldest first, each with its author
+export const fetchGroupMessages = async (groupId: string): Promise<GroupMessageWithAuthor[]> => {
+  const { data, error } = await supabase
+    .from("messages_with_author")
+    .select("*")
+    .eq("group_id", groupId)
+    .order("created_at", { ascending: true })
+    .limit(GROUP_MESSAGE_LIMIT);
+
+  if (error) throw error;
+  return (data ?? []).map(withAuthor);
+};
+
+// One message with its author, for messages that arrive over realtime without one
+export const fetchGroupMessage = async (messageId: string): Promise<GroupMessageWithAuthor | null> => {
+  const { data, error } = await supabase
+    .from("messages_with_author")
+    .select("*")
+    .eq("id", messageId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withAuthor(data) : null;
+};
+
+// Admins first, then everyone else in the order they joined
+export const fetchGroupMembers = async (groupId: string): Promise<GroupMemberWithProfile[]> => {
+  const { data, error } = await supabase
+    .from("members_with_profile")
+    .select("*")
+    .eq("group_id", groupId)
+    .order("role", { ascending: false })
+    .order("joined_at", { ascending: true });
+
+  if (error) throw error;
+
+  return (data ?? []).map(({ profile_full_name, profile_email, profile_avatar_url, ...member }) => ({
+    ...member,
+    profiles: toAuthorProfile({
+      author_full_name: profile_full_name,
+      author_email: profile_email,
+      author_avatar_url: profile_avatar_url,
+    }),
+  }));
+};
+
+export const deleteGroupMessage = async (messageId: string) => {
+  const { error } = await supabase
+    .from("group_messages")
+    .delete()
+    .eq("id", messageId);
+
+  if (error) throw error;
+};
@@ -0,0 +1,32 @@
+import { decode, isBlurhashValid } from "blurhash";
+
+// Blurhashes are stretched over the image's box, so a tiny decode is all they need
+const DECODE_SIZE = 32;
+
+// The same pins show up across feeds and boards; decode each hash once
+const cache = new Map<string, string | null>();
+
+// A data URL for a pin's stored blurhash, or null if it's missing or can't be decoded
+export const blurhashToDataURL = (hash: string | null | undefined) => {
+  if (!hash) return null;
+  if (cache.has(hash)) return cache.get(hash)!;
+
+  let url: string | null = null;
+  if (isBlurhashValid(hash).result) {
+    const canvas = document.createElement("canvas");
+    canvas.width = DECODE_SIZE;
+    canvas.height = DECODE_SIZE;
+    const context = canvas.getContext("2d");
+    if (context) {
+      const pixels = decode(hash, DECODE_SIZE, DECODE_SIZE);
+      context.putImageData(new ImageData(pixels, DECODE_SIZE, DECODE_SIZE), 0, 0);
+      url = canvas.toDataURL();
+    }
+  }
+  cache.set(hash, url);
+  return url;
+};
+
+// width / height for an aspect-ratio box, when the image's size is known
+export const aspectRatioOf = (width: number | null | undefined, height: number | null | undefined) =>
+  width && height ? width / height : undefined;
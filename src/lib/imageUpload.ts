@@ -0,0 +1,266 @@
+import { encode } from "blurhash";
+import { supabase } from "@/integrations/supabase/client";
+
+// Every image the app uploads goes through here. Re-encoding through a canvas drops all
+// metadata (EXIF, including GPS) and lets us cap dimensions and pick a smaller format.
+
+export const ACCEPTED_IMAGE_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"];
+// What we're willing to store once processed
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+
+export type ImageKind = "pin" | "cover" | "avatar" | "message";
+
+// maxSourceBytes is what the user may pick, before processing shrinks it
+const PROFILES: Record<ImageKind, { maxDimension: number; quality: number; maxSourceBytes: number }> = {
+  pin: { maxDimension: 2048, quality: 0.85, maxSourceBytes: 20 * 1024 * 1024 },
+  cover: { maxDimension: 1600, quality: 0.85, maxSourceBytes: 10 * 1024 * 1024 },
+  avatar: { maxDimension: 512, quality: 0.9, maxSourceBytes: 5 * 1024 * 1024 },
+  message: { maxDimension: 1600, quality: 0.82, maxSourceBytes: 10 * 1024 * 1024 },
+};
+
+// Errors whose message is safe to show the user verbatim
+export class ImageUploadError extends Error {}
+
+// What pins store about their image so the grid can size and fill the box before it loads
+export interface ImageMetadata {
+  width: number;
+  height: number;
+  blurhash: string | null;
+}
+
+export interface ProcessedImage extends ImageMetadata {
+  blob: Blob;
+  contentType: string;
+  extension: string;
+  // #rrggbb, for placeholders while the image loads
+  dominantColor: string;
+}
+
+export interface UploadedImage extends Omit<ProcessedImage, "blob"> {
+  path: string;
+  publicUrl: string;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  "image/webp": "webp",
+  "image/avif": "avif",
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+};
+
+const formatSize = (bytes: number) => `${Math.round(bytes / 1024 / 1024)}MB`;
+
+export const validateImageFile = (file: File, kind: ImageKind) => {
+  const { maxSourceBytes } = PROFILES[kind];
+  if (!ACCEPTED_IMAGE_TYPES.includes(file.type)) {
+    throw new ImageUploadError("Please choose a JPG, PNG, WebP, GIF or AVIF image");
+  }
+  if (file.size > maxSourceBytes) {
+    throw new ImageUploadError(`Please choose an image smaller than ${formatSize(maxSourceBytes)}`);
+  }
+};
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+const toBlob = (canvas: HTMLCanvasElement, type: string, quality?: number) =>
+  new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, type, quality));
+
+// Browsers quietly encode unsupported types as PNG, so check what actually comes out.
+// WebP is tried first: it's supported almost everywhere and AVIF encodes far more slowly.
+let encoderSupport: Promise<string[]> | undefined;
+const supportedEncoders = () => {
+  encoderSupport ??= (async () => {
+    const probe = createCanvas(1, 1);
+    const supported: string[] = [];
+    for (const type of ["image/webp", "image/avif"]) {
+      const blob = await toBlob(probe, type);
+      if (blob?.type === type) supported.push(type);
+    }
+    return supported;
+  })();
+  return encoderSupport;
+};
+
+// createImageBitmap applies the EXIF orientation before the tags are thrown away
+const decode = async (file: File): Promise<CanvasImageSource & { width: number; height: number }> => {
+  if ("createImageBitmap" in window) {
+    try {
+      return await createImageBitmap(file, { imageOrientation: "from-image" });
+    } catch {
+      // Fall through to an <img>, which some browsers decode more formats with
+    }
+  }
+
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return Object.assign(image, { width: image.naturalWidth, height: image.naturalHeight });
+  } catch {
+    throw new ImageUploadError("That image couldn't be read. It may be damaged or in an unsupported format.");
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
+
+// A thumbnail at most 32px on its long side, enough for the colour and the blurhash
+const SAMPLE_SIZE = 32;
+const sample = (source: CanvasImageSource, width: number, height: number) => {
+  const scale = SAMPLE_SIZE / Math.max(width, height);
+  const canvas = createCanvas(Math.max(1, Math.round(width * scale)), Math.max(1, Math.round(height * scale)));
+  const context = canvas.getContext("2d", { willReadFrequently: true });
+  if (!context) return null;
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+};
+
+// More components along the longer side keeps the hash's detail roughly square
+const blurhashOf = ({ data, width, height }: ImageData) =>
+  encode(data, width, height, width >= height ? 4 : 3, width >= height ? 3 : 4);
+
+// The most common colour after quantizing a small thumbnail, averaged within its bucket
+const dominantColor = (pixels: ImageData | null) => {
+  if (!pixels) return "#cccccc";
+  const { data } = pixels;
+
+  const buckets = new Map<number, { count: number; r: number; g: number; b: number }>();
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    const key = ((data[i] >> 4) << 8) | ((data[i + 1] >> 4) << 4) | (data[i + 2] >> 4);
+    const bucket = buckets.get(key) ?? { count: 0, r: 0, g: 0, b: 0 };
+    bucket.count++;
+    bucket.r += data[i];
+    bucket.g += data[i + 1];
+    bucket.b += data[i + 2];
+    buckets.set(key, bucket);
+  }
+
+  let best: { count: number; r: number; g: number; b: number } | undefined;
+  for (const bucket of buckets.values()) {
+    if (!best || bucket.count > best.count) best = bucket;
+  }
+  if (!best) return "#cccccc";
+
+  const hex = (total: number) => Math.round(total / best!.count).toString(16).padStart(2, "0");
+  return `#${hex(best.r)}${hex(best.g)}${hex(best.b)}`;
+};
+
+export const processImage = async (file: File, kind: ImageKind): Promise<ProcessedImage> => {
+  validateImageFile(file, kind);
+  const { maxDimension, quality } = PROFILES[kind];
+
+  const source = await decode(file);
+  const { width: sourceWidth, height: sourceHeight } = source;
+  const scale = Math.min(1, maxDimension / Math.max(sourceWidth, sourceHeight));
+  const width = Math.max(1, Math.round(sourceWidth * scale));
+  const height = Math.max(1, Math.round(sourceHeight * scale));
+  const pixels = sample(source, sourceWidth, sourceHeight);
+  const color = dominantColor(pixels);
+  const blurhash = pixels && blurhashOf(pixels);
+
+  // GIFs are kept as they are so animations survive; the format has no EXIF to leak
+  if (file.type === "image/gif") {
+    if ("close" in source) source.close();
+    if (file.size > MAX_UPLOAD_BYTES) {
+      throw new ImageUploadError(`GIFs must be smaller than ${formatSize(MAX_UPLOAD_BYTES)}`);
+    }
+    return {
+      blob: file,
+      contentType: file.type,
+      extension: "gif",
+      width: sourceWidth,
+      height: sourceHeight,
+      blurhash,
+      dominantColor: color,
+    };
+  }
+
+  const canvas = createCanvas(width, height);
+  const context = canvas.getContext("2d");
+  if (!context) throw new ImageUploadError("Your browser couldn't process that image");
+  context.imageSmoothingQuality = "high";
+  context.drawImage(source, 0, 0, width, height);
+  if ("close" in source) source.close();
+
+  // Without WebP or AVIF, keep PNGs lossless (and transparent) and everything else as JPEG
+  const [preferred] = await supportedEncoders();
+  const type = preferred ?? (file.type === "image/png" ? "image/png" : "image/jpeg");
+  const blob = await toBlob(canvas, type, quality);
+  if (!blob) throw new ImageUploadError("Your browser couldn't process that image");
+
+  if (blob.size > MAX_UPLOAD_BYTES) {
+    throw new ImageUploadError(`That image is still larger than ${formatSize(MAX_UPLOAD_BYTES)} after resizing`);
+  }
+
+  return {
+    blob,
+    contentType: blob.type,
+    extension: EXTENSIONS[blob.type] ?? "jpg",
+    width,
+    height,
+    blurhash,
+    dominantColor: color,
+  };
+};
+
+// For images that didn't come through processImage, like ones copied from a website.
+// Without CORS headers the pixels can't be read, so only the size is known.
+export const readImageMetadata = async (url: string): Promise<ImageMetadata> => {
+  const load = async (crossOrigin: boolean) => {
+    const image = new Image();
+    if (crossOrigin) image.crossOrigin = "anonymous";
+    image.src = url;
+    await image.decode();
+    return image;
+  };
+
+  let image: HTMLImageElement;
+  let readable = true;
+  try {
+    image = await load(true);
+  } catch {
+    image = await load(false);
+    readable = false;
+  }
+
+  const { naturalWidth: width, naturalHeight: height } = image;
+  const pixels = readable ? sample(image, width, height) : null;
+  return { width, height, blurhash: pixels && blurhashOf(pixels) };
+};
+
+// Processes the file and stores it at `${pathWithoutExtension}.${extension}`
+export const uploadImage = async ({
+  file,
+  kind,
+  bucket,
+  pathWithoutExtension,
+  upsert = false,
+}: {
+  file: File;
+  kind: ImageKind;
+  bucket: string;
+  pathWithoutExtension: string;
+  upsert?: boolean;
+}): Promise<UploadedImage> => {
+  const { blob, ...image } = await processImage(file, kind);
+  const path = `${pathWithoutExtension}.${image.extension}`;
+
+  const { error } = await supabase.storage
+    .from(bucket)
+    .upload(path, blob, { contentType: image.contentType, cacheControl: "3600", upsert });
+
+  if (error) throw error;
+
+  const { data: { publicUrl } } = supabase.storage.from(bucket).getPublicUrl(path);
+  return { ...image, path, publicUrl };
+};
+
+// Several uploads can start in the same millisecond, so the timestamp alone isn't unique
+export const uniqueImageName = () => `${Date.now()}-${crypto.randomUUID()}`;
@@ -0,0 +1,48 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface PinLikes {
+  count: number;
+  // Whether the viewer likes the pin; false when signed out
+  liked: boolean;
+}
+
+export const fetchPinLikes = async (pinId: string, userId?: string): Promise<PinLikes> => {
+  // like_count is kept by a trigger, so it's read off the pin rather than counted
+  const [{ data: pin, error: pinError }, { data: like, error: likeError }] = await Promise.all([
+    supabase
+      .from("pins")
+      .select("like_count")
+      .eq("id", pinId)
+      .maybeSingle(),
+    userId
+      ? supabase
+          .from("likes")
+          .select("id")
+          .eq("pin_id", pinId)
+          .eq("user_id", userId)
+          .maybeSingle()
+      : Promise.resolve({ data: null, error: null }),
+  ]);
+
+  if (pinError) throw pinError;
+  if (likeError) throw likeError;
+  return { count: pin?.like_count ?? 0, liked: Boolean(like) };
+};
+
+export const likePin = async (pinId: string, userId: string) => {
+  const { error } = await supabase
+    .from("likes")
+    .insert({ pin_id: pinId, user_id: userId });
+
+  if (error) throw error;
+};
+
+export const unlikePin = async (pinId: string, userId: string) => {
+  const { error } = await supabase
+    .from("likes")
+    .delete()
+    .eq("pin_id", pinId)
+    .eq("user_id", userId);
+
+  if (error) throw error;
+};
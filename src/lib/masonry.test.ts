@@ -0,0 +1,160 @@
+import { describe, expect, it } from "vitest";
+import { MasonryItem, itemHeight, layoutMasonry, positionMasonry, visibleItems } from "./masonry";
+
+// Items named a, b, c... with the given aspect ratios
+const items = (...ratios: (number | null | undefined)[]): MasonryItem[] =>
+  ratios.map((aspectRatio, index) => ({ key: String.fromCharCode(97 + index), aspectRatio }));
+
+// A fixed spread of portrait, square and landscape ratios, the same on every run
+const syntheticRatios = (count: number) => {
+  let seed = 42;
+  return Array.from({ length: count }, () => {
+    seed = (seed * 1103515245 + 12345) % 2 ** 31;
+    return 0.4 + (seed / 2 ** 31) * 1.6;
+  });
+};
+
+const spread = (heights: number[]) => Math.max(...heights) - Math.min(...heights);
+
+describe("itemHeight", () => {
+  it("is the inverse aspect ratio plus the caption", () => {
+    expect(itemHeight({ key: "a", aspectRatio: 1 })).toBe(1.25);
+    expect(itemHeight({ key: "a", aspectRatio: 0.5 })).toBe(2.25);
+    expect(itemHeight({ key: "a", aspectRatio: 2 }, { extraHeight: 0 })).toBe(0.5);
+  });
+
+  it("clamps extreme ratios", () => {
+    expect(itemHeight({ key: "a", aspectRatio: 100 })).toBe(0.5);
+    expect(itemHeight({ key: "a", aspectRatio: 0.01 })).toBe(4.25);
+    expect(itemHeight({ key: "a", aspectRatio: 0.01 }, { minAspectRatio: 0.5 })).toBe(2.25);
+    expect(itemHeight({ key: "a", aspectRatio: 100 }, { maxAspectRatio: 2 })).toBe(0.75);
+  });
+
+  it("falls back for missing or unusable ratios", () => {
+    for (const aspectRatio of [undefined, null, 0, -1, NaN, Infinity]) {
+      expect(itemHeight({ key: "a", aspectRatio })).toBe(1.25);
+      expect(itemHeight({ key: "a", aspectRatio }, { fallbackAspectRatio: 0.5 })).toBe(2.25);
+    }
+  });
+});
+
+describe("layoutMasonry", () => {
+  it("puts each item in the shortest column, leftmost on ties", () => {
+    const layout = layoutMasonry(items(0.5, 1, 1, 1, 1), 3);
+
+    expect(layout.columnOf).toEqual([0, 1, 2, 1, 2]);
+    expect(layout.columns).toEqual([[0], [1, 3], [2, 4]]);
+    expect(layout.heights).toEqual([2.25, 2.5, 2.5]);
+    expect(layout.keys).toEqual(["a", "b", "c", "d", "e"]);
+  });
+
+  it("keeps at least one column", () => {
+    expect(layoutMasonry(items(1, 1), 0).columnOf).toEqual([0, 0]);
+    expect(layoutMasonry(items(1, 1), 2.7).columnCount).toBe(2);
+  });
+
+  it("keeps placed items where they are when more are appended", () => {
+    const previous = layoutMasonry(items(1, 1, 1, 1), 2);
+    expect(previous.columnOf).toEqual([0, 1, 0, 1]);
+
+    // a turns out to be much taller once measured, which would move c and d if laid out afresh
+    const next = items(0.25, 1, 1, 1, 1);
+    expect(layoutMasonry(next, 2).columnOf).toEqual([0, 1, 1, 1, 1]);
+
+    const appended = layoutMasonry(next, 2, previous);
+    expect(appended.columnOf.slice(0, 4)).toEqual([0, 1, 0, 1]);
+    // e still goes to whichever column is shorter with a's real height
+    expect(appended.columnOf[4]).toBe(1);
+    expect(appended.heights).toEqual([5.5, 3.75]);
+  });
+
+  it("keeps appending stable over many pages", () => {
+    const all = items(...syntheticRatios(60));
+    let layout = layoutMasonry(all.slice(0, 20), 4);
+    const firstPage = layout.columnOf;
+
+    for (const end of [40, 60]) {
+      layout = layoutMasonry(all.slice(0, end), 4, layout);
+    }
+
+    expect(layout.columnOf.slice(0, 20)).toEqual(firstPage);
+    expect(layout.columnOf).toEqual(layoutMasonry(all, 4).columnOf);
+  });
+
+  it("places everything afresh after the first item that changed", () => {
+    const previous = layoutMasonry(items(0.5, 1, 1, 1), 2);
+    expect(previous.columnOf).toEqual([0, 1, 1, 0]);
+
+    // b is removed, so only a keeps its column
+    const next = [{ key: "a", aspectRatio: 0.5 }, { key: "c", aspectRatio: 1 }, { key: "d", aspectRatio: 1 }];
+    expect(layoutMasonry(next, 2, previous).columnOf).toEqual([0, 1, 1]);
+  });
+
+  it("keeps items in their columns when columns are added, unless that unbalances them", () => {
+    const previous = layoutMasonry(items(1, 1, 1, 1, 1, 1), 3);
+    expect(previous.columnOf).toEqual([0, 1, 2, 0, 1, 2]);
+
+    // d moves to fill the new column; e and f stay put rather than shuffling left
+    expect(layoutMasonry(items(1, 1, 1, 1, 1, 1), 4, previous).columnOf).toEqual([0, 1, 2, 3, 1, 2]);
+    expect(layoutMasonry(items(1, 1, 1, 1, 1, 1), 4).columnOf).toEqual([0, 1, 2, 3, 0, 1]);
+  });
+
+  it("moves only the items whose column went away, and what's needed to rebalance, when columns are removed", () => {
+    const previous = layoutMasonry(items(1, 1, 1, 1, 1, 1), 3);
+
+    const layout = layoutMasonry(items(1, 1, 1, 1, 1, 1), 2, previous);
+    expect(layout.columnOf).toEqual([0, 1, 0, 1, 1, 0]);
+    expect(layout.heights).toEqual([3.75, 3.75]);
+  });
+
+  it("stays balanced across column count changes", () => {
+    const all = items(...syntheticRatios(80));
+    const tallest = Math.max(...all.map((item) => itemHeight(item)));
+    let layout = layoutMasonry(all, 6);
+
+    for (const count of [5, 4, 3, 2, 3, 4, 5, 6]) {
+      layout = layoutMasonry(all, count, layout);
+      expect(layout.columnCount).toBe(count);
+      expect(spread(layout.heights)).toBeLessThanOrEqual(1 + tallest);
+      expect(layout.columns.flat().sort((a, b) => a - b)).toEqual(all.map((_, index) => index));
+    }
+  });
+
+  it("holds a resized layout in place once the count settles", () => {
+    const all = items(...syntheticRatios(30));
+    const resized = layoutMasonry(all, 3, layoutMasonry(all, 4));
+
+    expect(layoutMasonry(all, 3, resized).columnOf).toEqual(resized.columnOf);
+  });
+});
+
+describe("positionMasonry", () => {
+  it("stacks each column's items with a gap between them", () => {
+    const layout = layoutMasonry(items(1, 1, 1, 1), 2);
+    const { positions, height } = positionMasonry(layout, () => 100, 200, 10);
+
+    expect(positions).toEqual([
+      { top: 0, left: 0, height: 100 },
+      { top: 0, left: 210, height: 100 },
+      { top: 110, left: 0, height: 100 },
+      { top: 110, left: 210, height: 100 },
+    ]);
+    expect(height).toBe(210);
+  });
+
+  it("has no height without items", () => {
+    expect(positionMasonry(layoutMasonry([], 3), () => 100, 200, 10).height).toBe(0);
+  });
+});
+
+describe("visibleItems", () => {
+  it("finds the items overlapping a range, in item order", () => {
+    const layout = layoutMasonry(items(1, 1, 1, 1), 2);
+    const { positions } = positionMasonry(layout, () => 100, 200, 10);
+
+    expect(visibleItems(layout, positions, 0, 50)).toEqual([0, 1]);
+    expect(visibleItems(layout, positions, 105, 200)).toEqual([2, 3]);
+    expect(visibleItems(layout, positions, 50, 150)).toEqual([0, 1, 2, 3]);
+    expect(visibleItems(layout, positions, 300, 400)).toEqual([]);
+  });
+});
@@ -0,0 +1,160 @@
+// Masonry placement for the pin grid. Each item goes into whichever column is currently
+// shortest, so tall images spread out instead of piling up in one column.
+//
+// Heights are measured in column widths (an image is 1 / aspectRatio tall), which makes
+// the layout independent of the grid's pixel width: resizing the window without changing
+// the column count leaves every item where it is.
+
+export interface MasonryItem {
+  key: string;
+  // width / height; missing when the image's size isn't known
+  aspectRatio?: number | null;
+}
+
+export interface MasonryLayout {
+  columnCount: number;
+  keys: string[];
+  // Column of each item, in item order
+  columnOf: number[];
+  // Indices into the items, top to bottom, for each column
+  columns: number[][];
+  // Each column's height in column widths
+  heights: number[];
+}
+
+export interface MasonryOptions {
+  // The caption and padding under each image, in column widths
+  extraHeight?: number;
+  // Items without a known size are laid out as if they had this ratio
+  fallbackAspectRatio?: number;
+  // Extreme panoramas and strips are clamped so one item can't dominate a column
+  minAspectRatio?: number;
+  maxAspectRatio?: number;
+  // When the column count changes, an item stays in its old column if that column is at
+  // most this much taller than the shortest one, in column widths
+  reflowSlack?: number;
+}
+
+const DEFAULTS: Required<MasonryOptions> = {
+  extraHeight: 0.25,
+  fallbackAspectRatio: 1,
+  minAspectRatio: 0.25,
+  maxAspectRatio: 4,
+  reflowSlack: 1,
+};
+
+export const itemHeight = (item: MasonryItem, options: MasonryOptions = {}) => {
+  const { extraHeight, fallbackAspectRatio, minAspectRatio, maxAspectRatio } = { ...DEFAULTS, ...options };
+  const ratio = item.aspectRatio && Number.isFinite(item.aspectRatio) && item.aspectRatio > 0
+    ? item.aspectRatio
+    : fallbackAspectRatio;
+  return 1 / Math.min(Math.max(ratio, minAspectRatio), maxAspectRatio) + extraHeight;
+};
+
+// Leftmost wins ties, so equal columns fill left to right like the old index-based grid
+const shortestColumn = (heights: number[]) => {
+  let shortest = 0;
+  for (let column = 1; column < heights.length; column++) {
+    if (heights[column] < heights[shortest]) shortest = column;
+  }
+  return shortest;
+};
+
+// Lays out items in order. Pass the previous layout to keep items on screen where they
+// are: the run of leading items it already placed, with the same keys in the same order,
+// keeps its columns even if their sizes have since changed, so appending a page only
+// places the new items. Past the first difference (a removed or moved item) everything is
+// placed afresh. When the column count has changed, those leading items still stay in
+// their old column where it exists and isn't more than reflowSlack taller than the
+// shortest, so a breakpoint resize moves as few of them as it can.
+export const layoutMasonry = (
+  items: MasonryItem[],
+  columnCount: number,
+  previous?: MasonryLayout | null,
+  options: MasonryOptions = {}
+): MasonryLayout => {
+  const count = Math.max(1, Math.floor(columnCount));
+  const { reflowSlack } = { ...DEFAULTS, ...options };
+  const columnOf: number[] = [];
+  const columns: number[][] = Array.from({ length: count }, () => []);
+  const heights: number[] = new Array(count).fill(0);
+
+  let kept = 0;
+  if (previous) {
+    while (kept < items.length && kept < previous.keys.length && items[kept].key === previous.keys[kept]) {
+      kept++;
+    }
+  }
+  const sameCount = previous?.columnCount === count;
+
+  const place = (index: number) => {
+    if (index >= kept) return shortestColumn(heights);
+
+    const before = previous!.columnOf[index];
+    if (sameCount) return before;
+
+    const shortest = shortestColumn(heights);
+    return before < count && heights[before] - heights[shortest] <= reflowSlack ? before : shortest;
+  };
+
+  items.forEach((item, index) => {
+    const column = place(index);
+    columnOf.push(column);
+    columns[column].push(index);
+    heights[column] += itemHeight(item, options);
+  });
+
+  return { columnCount: count, keys: items.map((item) => item.key), columnOf, columns, heights };
+};
+
+export interface MasonryPosition {
+  top: number;
+  left: number;
+  height: number;
+}
+
+// Pixel positions for a layout, for absolutely positioned items. heightOf gives each
+// item's rendered height, measured or estimated.
+export const positionMasonry = (
+  layout: MasonryLayout,
+  heightOf: (index: number) => number,
+  columnWidth: number,
+  gap: number
+) => {
+  const positions: MasonryPosition[] = new Array(layout.keys.length);
+  let height = 0;
+
+  layout.columns.forEach((indices, column) => {
+    let top = 0;
+    for (const index of indices) {
+      const itemHeight = heightOf(index);
+      positions[index] = { top, left: column * (columnWidth + gap), height: itemHeight };
+      top += itemHeight + gap;
+    }
+    height = Math.max(height, top - gap);
+  });
+
+  return { positions, height: Math.max(height, 0) };
+};
+
+// Indices of the items overlapping [top, bottom), in item order. Items are stacked within
+// each column, so each column's visible items are found by binary search.
+export const visibleItems = (layout: MasonryLayout, positions: MasonryPosition[], top: number, bottom: number) => {
+  const visible: number[] = [];
+
+  for (const indices of layout.columns) {
+    let low = 0;
+    let high = indices.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      const position = positions[indices[middle]];
+      if (position.top + position.height <= top) low = middle + 1;
+      else high = middle;
+    }
+    for (let i = low; i < indices.length && positions[indices[i]].top < bottom; i++) {
+      visible.push(indices[i]);
+    }
+  }
+
+  return visible.sort((a, b) => a - b);
+};
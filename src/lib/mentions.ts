@@ -0,0 +1,59 @@
+// Mentions are stored in comment text as @[Name](user id), which is what the
+// notify_comment_mentions trigger looks for. While typing, people see and edit the plain
+// @Name; encodeMentions and decodeMentions convert between the two.
+
+export interface Mention {
+  userId: string;
+  name: string;
+}
+
+const MENTION_PATTERN = /@\[([^\]]*)\]\(([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)/g;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// The name shown after the @. Brackets and parentheses would break the stored form.
+export const mentionName = (profile: { full_name?: string | null; email: string }) =>
+  (profile.full_name || profile.email.split("@")[0]).replace(/[[\]()@]/g, "").trim();
+
+// Turns each @Name the writer picked into its stored form. Longer names go first so
+// "@Ann Lee" isn't taken for "@Ann"; a name followed by more letters isn't a match.
+export const encodeMentions = (text: string, mentions: Mention[]) =>
+  [...mentions]
+    .sort((a, b) => b.name.length - a.name.length)
+    .reduce(
+      (encoded, { userId, name }) =>
+        name
+          ? encoded.replace(new RegExp(`(^|[^\\[\\w])@${escapeRegExp(name)}(?![\\w\\]])`, "g"), `$1@[${name}](${userId})`)
+          : encoded,
+      text
+    );
+
+// The plain text for editing a stored comment, with the mentions it contains
+export const decodeMentions = (content: string) => {
+  const mentions: Mention[] = [];
+  const text = content.replace(MENTION_PATTERN, (match, name: string, userId: string) => {
+    mentions.push({ userId, name });
+    return `@${name}`;
+  });
+  return { text, mentions };
+};
+
+// Splits stored comment text into plain runs and mentions, so no markup is ever injected
+export const splitMentions = (content: string) => {
+  const runs: Array<{ text: string; userId?: string }> = [];
+  let last = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    if (match.index > last) runs.push({ text: content.slice(last, match.index) });
+    runs.push({ text: `@${match[1]}`, userId: match[2] });
+    last = match.index + match[0].length;
+  }
+  if (last < content.length) runs.push({ text: content.slice(last) });
+  return runs;
+};
+
+// The @word being typed at the caret, if any: where its @ is and what follows it
+export const mentionQueryAt = (text: string, caret: number) => {
+  const match = /(^|\s)@([^\s@[\]()]*(?: [^\s@[\]()]*)?)$/.exec(text.slice(0, caret));
+  if (!match) return null;
+  return { start: caret - match[2].length - 1, query: match[2] };
+};
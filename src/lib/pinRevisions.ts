@@ -0,0 +1,60 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+// A pin as it was before one edit. changed_fields lists what that edit changed.
+export type PinRevision = Tables<"pin_revisions">;
+
+export type EditablePinFields = Pick<Tables<"pins">, "title" | "description" | "original_url" | "board_id" | "is_nsfw">;
+
+export const PIN_FIELD_LABELS: Record<keyof EditablePinFields, string> = {
+  title: "Title",
+  description: "Description",
+  original_url: "Link",
+  board_id: "Board",
+  is_nsfw: "NSFW",
+};
+
+// Newest first. Revisions are recorded by the database on every edit, so there is no
+// matching insert here.
+export const fetchPinRevisions = async (pinId: string): Promise<PinRevision[]> => {
+  const { data, error } = await supabase
+    .from("pin_revisions")
+    .select("*")
+    .eq("pin_id", pinId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data ?? [];
+};
+
+export const updatePin = async (pinId: string, fields: EditablePinFields): Promise<Tables<"pins">> => {
+  const { data, error } = await supabase
+    .from("pins")
+    .update({
+      title: fields.title.trim(),
+      description: fields.description?.trim() || null,
+      original_url: fields.original_url?.trim() || null,
+      board_id: fields.board_id,
+      is_nsfw: fields.is_nsfw,
+    })
+    .eq("id", pinId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+// The version being replaced is recorded too, so a restore can itself be undone
+export const restorePinRevision = async (revisionId: string): Promise<Tables<"pins">> => {
+  const { data, error } = await supabase.rpc("restore_pin_revision", { revision_id: revisionId });
+
+  if (error) throw error;
+  if (!data?.length) throw new Error("Pin not found");
+  return data[0];
+};
+
+export const changedFieldLabels = (revision: PinRevision) =>
+  revision.changed_fields
+    .map((field) => PIN_FIELD_LABELS[field as keyof EditablePinFields])
+    .filter(Boolean);
@@ -0,0 +1,31 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { AuthorProfile, withAuthor } from "@/lib/authors";
+
+export interface PinWithAuthor extends Tables<"pins"> {
+  profiles?: AuthorProfile;
+}
+
+// A single pin with its author, or null when it doesn't exist or RLS hides it
+export const fetchPin = async (pinId: string): Promise<PinWithAuthor | null> => {
+  const { data, error } = await supabase
+    .from("pins_with_author")
+    .select("*")
+    .eq("id", pinId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? withAuthor(data) : null;
+};
+
+// Everything a user has pinned, newest first
+export const fetchUserPins = async (userId: string): Promise<PinWithAuthor[]> => {
+  const { data, error } = await supabase
+    .from("pins_with_author")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data ?? []).map(withAuthor);
+};
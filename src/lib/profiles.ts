@@ -0,0 +1,70 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+
+export type Profile = Tables<"profiles">;
+
+// What pickers and mentions show of a person
+export interface ProfileSummary {
+  user_id: string;
+  full_name?: string;
+  email: string;
+  avatar_url?: string;
+}
+
+// null when the user has no profile row
+export const fetchProfile = async (userId: string): Promise<Profile | null> => {
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// People matching a name or email, for the collaborator picker and @mentions
+export const searchProfiles = async (query: string, excludeUserIds: string[] = []): Promise<ProfileSummary[]> => {
+  // Characters that would break out of the PostgREST or() filter
+  const term = query.trim().replace(/[%,()*\\]/g, "");
+  if (term.length < 2) return [];
+
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("user_id, full_name, email, avatar_url")
+    .or(`full_name.ilike.%${term}%,email.ilike.%${term}%`)
+    .limit(8 + excludeUserIds.length);
+
+  if (error) throw error;
+  return (data ?? []).filter((profile) => !excludeUserIds.includes(profile.user_id)).slice(0, 8);
+};
+
+export const fetchIsFollowing = async (followerId: string, userId: string) => {
+  const { data, error } = await supabase
+    .from("follows")
+    .select("id")
+    .eq("follower_id", followerId)
+    .eq("following_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return Boolean(data);
+};
+
+export const followUser = async (followerId: string, userId: string) => {
+  const { error } = await supabase
+    .from("follows")
+    .insert({ follower_id: followerId, following_id: userId });
+
+  if (error) throw error;
+};
+
+export const unfollowUser = async (followerId: string, userId: string) => {
+  const { error } = await supabase
+    .from("follows")
+    .delete()
+    .eq("follower_id", followerId)
+    .eq("following_id", userId);
+
+  if (error) throw error;
+};
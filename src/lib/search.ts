@@ -0,0 +1,71 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FEED_PAGE_SIZE, FeedPin, toFeedPin } from "@/lib/feed";
+
+export type SearchFilter = "all" | "pins" | "boards" | "people";
+
+export const SEARCH_FILTERS: { value: SearchFilter; label: string }[] = [
+  { value: "all", label: "All" },
+  { value: "pins", label: "Pins" },
+  { value: "boards", label: "Boards" },
+  { value: "people", label: "People" },
+];
+
+export const parseSearchFilter = (value: string | null): SearchFilter =>
+  SEARCH_FILTERS.some((filter) => filter.value === value) ? (value as SearchFilter) : "all";
+
+export interface SearchPin extends FeedPin {
+  // Title and description with matches wrapped in {{ }}; render with splitHighlights
+  snippet?: string;
+  matched_on?: "pin" | "board" | "person";
+  board_name?: string;
+}
+
+// Search results are ranked, so they page by offset rather than by created_at
+export interface SearchCursor {
+  offset: number;
+}
+
+export const fetchSearchPage = async ({
+  query,
+  filter = "all",
+  cursor,
+  pageSize = FEED_PAGE_SIZE,
+}: {
+  query: string;
+  filter?: SearchFilter;
+  cursor?: SearchCursor | null;
+  pageSize?: number;
+}): Promise<{ pins: SearchPin[]; nextCursor: SearchCursor | null }> => {
+  const offset = cursor?.offset ?? 0;
+  const { data, error } = await supabase.rpc("search_pins", {
+    search_query: query,
+    filter,
+    page_size: pageSize,
+    page_offset: offset,
+  });
+
+  if (error) throw error;
+
+  const pins: SearchPin[] = (data ?? []).map((row) => ({
+    ...toFeedPin(row),
+    snippet: row.snippet,
+    matched_on: row.matched_on as SearchPin["matched_on"],
+    board_name: row.board_name,
+  }));
+
+  return {
+    pins,
+    nextCursor: pins.length === pageSize ? { offset: offset + pins.length } : null,
+  };
+};
+
+// Splits a search_pins snippet into plain and highlighted runs, so no markup is ever injected
+export const splitHighlights = (snippet: string) =>
+  snippet
+    .split(/(\{\{.*?\}\})/)
+    .filter(Boolean)
+    .map((part) =>
+      part.startsWith("{{") && part.endsWith("}}")
+        ? { text: part.slice(2, -2), highlighted: true }
+        : { text: part, highlighted: false }
+    );
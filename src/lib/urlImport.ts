@@ -0,0 +1,43 @@
+import { supabase } from "@/integrations/supabase/client";
+import { FunctionsHttpError } from "@supabase/supabase-js";
+
+export interface ScrapedImage {
+  url: string;
+  // og and twitter are the images the page asks to be shared with; img ones are from the page body
+  source: "og" | "twitter" | "link" | "img";
+  width?: number;
+  height?: number;
+  alt?: string;
+}
+
+export interface ScrapedPage {
+  // After redirects, so it's the better value for a pin's original_url
+  url: string;
+  title?: string;
+  description?: string;
+  siteName?: string;
+  images: ScrapedImage[];
+}
+
+// The function explains what went wrong in its body, e.g. that an address isn't reachable
+const invokeScraper = async <T>(body: Record<string, string>) => {
+  const { data, error, response } = await supabase.functions.invoke("scrape-url", { body });
+  if (error instanceof FunctionsHttpError) {
+    const details = await error.context.json().catch(() => null);
+    throw new Error(details?.error ?? error.message);
+  }
+  if (error) throw error;
+  return { data: data as T, response };
+};
+
+export const scrapeUrl = async (url: string) => (await invokeScraper<ScrapedPage>({ url })).data;
+
+// Fetches one of a scraped page's images as a file, to be stored with uploadImage like one
+// the user picked, so pins don't break when the site changes. pageUrl is the page it was
+// found on; only that page's images are accepted.
+export const importImageFromUrl = async (imageUrl: string, pageUrl: string) => {
+  const { data, response } = await invokeScraper<Blob>({ url: pageUrl, imageUrl });
+  const type = response?.headers.get("X-Image-Type") ?? data.type;
+  const name = new URL(imageUrl).pathname.split("/").pop() || "image";
+  return new File([data], name, { type });
+};
@@ -4,43 +4,39 @@ import { Button } from "@/components/ui/button";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { ArrowLeft, Settings, Plus, Edit } from "lucide-react";
+import { ArrowLeft, Settings, Plus, Edit, Lock, Users, FolderPlus, CheckSquare } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import Header from "@/components/Header";
 import PinGrid from "@/components/PinGrid";
 import BoardImageUpload from "@/components/BoardImageUpload";
+import BoardCollaboratorsDialog from "@/components/BoardCollaboratorsDialog";
+import BoardSectionGroup from "@/components/BoardSectionGroup";
+import BulkPinActions from "@/components/BulkPinActions";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
-
-interface Board {
-  id: string;
-  name: string;
-  description?: string;
-  cover_image_url?: string;
-  created_at: string;
-  user_id: string;
-  profiles?: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
-  };
-}
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  original_url?: string;
-  user_id: string;
-  board_id: string;
-  created_at: string;
-  profiles?: {
-    full_name?: string;
-    email: string;
-  };
-}
+import { BoardPin, boardEntryKey, isSameBoardEntry, moveBoardEntry } from "@/lib/boardPins";
+import { BulkPinAction, BulkPinResult } from "@/lib/bulkPins";
+import {
+  BoardSection,
+  createBoardSection,
+  deleteBoardSection,
+  movePinToSection,
+  renameBoardSection,
+} from "@/lib/boardSections";
+import {
+  useBoard,
+  useBoardCollaborators,
+  useBoardPins,
+  useBoardSections,
+  useForgetPin,
+  useSetBoard,
+  useSetBoardCollaborators,
+  useSetBoardPins,
+  useSetBoardSections,
+} from "@/data";
 
 const Board = () => {
   const { boardId } = useParams();
@@ -48,11 +44,28 @@ const Board = () => {
   const { toast } = useToast();
   
   const [session, setSession] = useState<Session | null>(null);
-  const [board, setBoard] = useState<Board | null>(null);
-  const [pins, setPins] = useState<Pin[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isOwner, setIsOwner] = useState(false);
+  const { data: board, isPending: loading, isError: boardFailed } = useBoard(boardId);
+  const { data: pins = [], refetch: refetchPins } = useBoardPins(boardId);
+  const { data: collaborators = [] } = useBoardCollaborators(boardId);
+  const { data: sections = [] } = useBoardSections(boardId);
+  const setBoard = useSetBoard(boardId ?? "");
+  const setPins = useSetBoardPins(boardId ?? "");
+  const setCollaborators = useSetBoardCollaborators(boardId ?? "");
+  const setSections = useSetBoardSections(boardId ?? "");
+  const forgetPin = useForgetPin();
+  // The section being renamed, or "new" while one is being added
+  const [editingSection, setEditingSection] = useState<BoardSection | "new" | null>(null);
+  const [sectionName, setSectionName] = useState("");
+  const [savingSection, setSavingSection] = useState(false);
+  // Keys of selected pins while in selection mode, null otherwise
+  const [selectedKeys, setSelectedKeys] = useState<Set<string> | null>(null);
   const [isEditingCover, setIsEditingCover] = useState(false);
+  const [isCollaboratorsOpen, setIsCollaboratorsOpen] = useState(false);
+
+  const isOwner = Boolean(session?.user?.id) && session?.user?.id === board?.user_id;
+  const canEdit = isOwner || collaborators.some(
+    collaborator => collaborator.user_id === session?.user?.id && collaborator.role === 'editor'
+  );
 
   useEffect(() => {
     const getSession = async () => {
@@ -71,90 +84,161 @@ const Board = () => {
   }, []);
 
   useEffect(() => {
-    if (boardId) {
-      fetchBoardData();
+    if (boardFailed) {
+      toast({
+        title: "Error",
+        description: "Something went wrong. Please try again.",
+        variant: "destructive",
+      });
     }
-  }, [boardId]);
+  }, [boardFailed, toast]);
+
+  const savedCount = pins.filter(pin => pin.saved_pin_id).length;
 
-  const fetchBoardData = async () => {
+  const openSectionDialog = (section: BoardSection | "new") => {
+    setSectionName(section === "new" ? "" : section.name);
+    setEditingSection(section);
+  };
+
+  const handleSaveSection = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!board || !session || !editingSection || !sectionName.trim()) return;
+
+    setSavingSection(true);
     try {
-      setLoading(true);
-
-      // Fetch board details
-      const { data: boardData, error: boardError } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('id', boardId)
-        .single();
-
-      if (boardError) {
-        console.error('Error fetching board:', boardError);
-        toast({
-          title: "Error",
-          description: "Board not found or access denied",
-          variant: "destructive",
-        });
-        navigate('/');
-        return;
+      if (editingSection === "new") {
+        const section = await createBoardSection({ boardId: board.id, name: sectionName, createdBy: session.user.id });
+        setSections(prev => [...prev, section]);
+      } else {
+        await renameBoardSection(editingSection.id, sectionName);
+        setSections(prev => prev.map(section =>
+          section.id === editingSection.id ? { ...section, name: sectionName.trim() } : section
+        ));
       }
+      setEditingSection(null);
+    } catch (error) {
+      console.error('Error saving section:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save section",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSection(false);
+    }
+  };
 
-      // Fetch board owner profile separately
-      const { data: profileData } = await supabase
-        .from('profiles')
-        .select('full_name, email, avatar_url')
-        .eq('user_id', boardData.user_id)
-        .single();
-
-      const boardWithProfile = {
-        ...boardData,
-        profiles: profileData
-      };
-
-      setBoard(boardWithProfile);
-      setIsOwner(session?.user?.id === boardData.user_id);
-
-      // Fetch pins in this board
-      const { data: pinsData, error: pinsError } = await supabase
-        .from('pins')
-        .select('*')
-        .eq('board_id', boardId)
-        .order('created_at', { ascending: false});
-
-      // Fetch profiles for pins separately
-      const pinsWithProfiles = [];
-      if (pinsData) {
-        for (const pin of pinsData) {
-          const { data: pinProfile } = await supabase
-            .from('profiles')
-            .select('full_name, email')
-            .eq('user_id', pin.user_id)
-            .single();
-          
-          pinsWithProfiles.push({
-            ...pin,
-            profiles: pinProfile
-          });
-        }
-      }
+  const handleDeleteSection = async (sectionId: string) => {
+    try {
+      await deleteBoardSection(sectionId);
+      setSections(prev => prev.filter(section => section.id !== sectionId));
+      setPins(prev => prev.map(pin => pin.section_id === sectionId ? { ...pin, section_id: null } : pin));
+    } catch (error) {
+      console.error('Error deleting section:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete section",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Moves optimistically and puts the pin back if the update is rejected
+  const handleMoveToSection = async (entry: { id: string; saved_pin_id?: string }, sectionId: string | null) => {
+    const isEntry = (pin: BoardPin) =>
+      entry.saved_pin_id ? pin.saved_pin_id === entry.saved_pin_id : pin.id === entry.id && !pin.saved_pin_id;
+    const previous = pins.find(isEntry)?.section_id ?? null;
+    if (previous === sectionId) return;
 
-      if (pinsError) {
-        console.error('Error fetching pins:', pinsError);
+    setPins(prev => prev.map(pin => isEntry(pin) ? { ...pin, section_id: sectionId } : pin));
+    try {
+      await movePinToSection(entry, sectionId);
+    } catch (error) {
+      console.error('Error moving pin:', error);
+      setPins(prev => prev.map(pin => isEntry(pin) ? { ...pin, section_id: previous } : pin));
+      toast({
+        title: "Error",
+        description: "Failed to move pin",
+        variant: "destructive",
+      });
+    }
+  };
+
+  // Reorders optimistically within the dragged grid, then asks the server to place the pin after
+  // the same neighbour. Sections show a filtered slice of the board's order, so a pin dragged to
+  // the front of a section is anchored to whatever precedes that section's first pin.
+  const handleReorder = async (gridPins: BoardPin[], fromIndex: number, toIndex: number) => {
+    if (!board) return;
+
+    const moved = gridPins[fromIndex];
+    const reordered = gridPins.filter((_, index) => index !== fromIndex);
+    reordered.splice(toIndex, 0, moved);
+
+    const rest = pins.filter(pin => !isSameBoardEntry(pin, moved));
+    let after: BoardPin | null = reordered[toIndex - 1] ?? null;
+    if (!after && reordered[1]) {
+      after = rest[rest.findIndex(pin => isSameBoardEntry(pin, reordered[1])) - 1] ?? null;
+    }
+
+    const insertAt = after ? rest.findIndex(pin => isSameBoardEntry(pin, after)) + 1 : 0;
+    const next = rest[insertAt];
+    const localPosition = after && next
+      ? (after.position + next.position) / 2
+      : after ? after.position + 1024 : next ? next.position - 1024 : 0;
+
+    const previous = pins;
+    setPins([...rest.slice(0, insertAt), { ...moved, position: localPosition }, ...rest.slice(insertAt)]);
+
+    try {
+      const { position, renumbered } = await moveBoardEntry({ boardId: board.id, entry: moved, after });
+      if (renumbered) {
+        await refetchPins();
       } else {
-        setPins(pinsWithProfiles);
+        setPins(prev => prev.map(pin => isSameBoardEntry(pin, moved) ? { ...pin, position } : pin));
       }
-
     } catch (error) {
-      console.error('Error:', error);
+      console.error('Error reordering pins:', error);
+      setPins(previous);
       toast({
         title: "Error",
-        description: "Something went wrong. Please try again.",
+        description: "Couldn't save the new order. Please try again.",
         variant: "destructive",
       });
-    } finally {
-      setLoading(false);
     }
   };
 
+  const handleBulkApplied = (action: BulkPinAction, results: BulkPinResult[], options: { nsfw?: boolean }) => {
+    const succeeded = new Set(results.filter(result => result.ok).map(result => result.key));
+
+    if (action === 'move' || action === 'delete') {
+      setPins(prev => prev.filter(pin => !succeeded.has(boardEntryKey(pin))));
+    } else if (action === 'set_nsfw') {
+      setPins(prev => prev.map(pin => succeeded.has(boardEntryKey(pin)) ? { ...pin, is_nsfw: options.nsfw } : pin));
+    }
+
+    // Leave the pins that weren't changed selected so they can be retried or handled another way
+    setSelectedKeys(prev => prev && new Set([...prev].filter(key => !succeeded.has(key))));
+  };
+
+  const sectionIds = new Set(sections.map(section => section.id));
+  const unsortedPins = pins.filter(pin => !pin.section_id || !sectionIds.has(pin.section_id));
+
+  const renderPinGrid = (gridPins: BoardPin[]) => (
+    <PinGrid 
+      pins={gridPins} 
+      currentUserId={session?.user?.id}
+      onPinDeleted={forgetPin}
+      onSavedPinRemoved={(savedPinId) => {
+        setPins(prev => prev.filter(pin => pin.saved_pin_id !== savedPinId));
+      }}
+      sections={canEdit ? sections : undefined}
+      onMoveToSection={canEdit ? handleMoveToSection : undefined}
+      onReorder={canEdit ? (fromIndex, toIndex) => handleReorder(gridPins, fromIndex, toIndex) : undefined}
+      selectedKeys={selectedKeys ?? undefined}
+      onSelectionChange={selectedKeys ? setSelectedKeys : undefined}
+    />
+  );
+
   if (loading) {
     return (
       <div className="min-h-screen">
@@ -174,7 +258,10 @@ const Board = () => {
         <Header />
         <main className="container mx-auto px-4 py-8">
           <div className="text-center py-16">
-            <h1 className="text-2xl font-bold mb-4">Board not found</h1>
+            <h1 className="text-2xl font-bold mb-2">Board not found</h1>
+            <p className="text-muted-foreground mb-6">
+              This board doesn't exist, or it's secret and only its owner can see it.
+            </p>
             <Button onClick={() => navigate('/')} variant="outline">
               <ArrowLeft className="h-4 w-4 mr-2" />
               Go Home
@@ -203,6 +290,12 @@ const Board = () => {
             <div className="flex-1">
               <div className="flex items-center gap-2 mb-2 flex-wrap">
                 <h1 className="text-2xl md:text-3xl font-bold">{board.name}</h1>
+                {board.is_private && (
+                  <Badge variant="outline" className="rounded-full text-xs">
+                    <Lock className="h-3 w-3 mr-1" />
+                    Secret
+                  </Badge>
+                )}
                 {isOwner && (
                   <Badge variant="secondary" className="rounded-full text-xs">
                     Owner
@@ -213,7 +306,40 @@ const Board = () => {
                 <p className="text-muted-foreground text-base md:text-lg">{board.description}</p>
               )}
             </div>
-            <div className="flex gap-2">
+            <div className="flex items-center gap-2">
+              {(isOwner || collaborators.length > 0) && (
+                <button
+                  type="button"
+                  onClick={() => setIsCollaboratorsOpen(true)}
+                  className="flex items-center -space-x-2 rounded-full focus:outline-none focus-visible:ring-2 focus-visible:ring-ring"
+                  aria-label="Collaborators"
+                >
+                  <Avatar className="w-8 h-8 border-2 border-background">
+                    <AvatarImage src={board.profiles?.avatar_url} />
+                    <AvatarFallback className="text-xs">
+                      {board.profiles?.email?.charAt(0).toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  {collaborators.slice(0, 4).map((collaborator) => (
+                    <Avatar key={collaborator.id} className="w-8 h-8 border-2 border-background">
+                      <AvatarImage src={collaborator.profiles?.avatar_url} />
+                      <AvatarFallback className="text-xs">
+                        {collaborator.profiles?.email?.charAt(0).toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                  ))}
+                  {collaborators.length > 4 && (
+                    <span className="w-8 h-8 rounded-full border-2 border-background bg-muted text-xs font-medium flex items-center justify-center">
+                      +{collaborators.length - 4}
+                    </span>
+                  )}
+                  {isOwner && (
+                    <span className="w-8 h-8 rounded-full border-2 border-background bg-muted flex items-center justify-center">
+                      <Users className="h-4 w-4" />
+                    </span>
+                  )}
+                </button>
+              )}
               {isOwner && (
                 <>
                   <Dialog open={isEditingCover} onOpenChange={setIsEditingCover}>
@@ -277,52 +403,152 @@ const Board = () => {
               <div className="text-right">
                 <p className="text-xs md:text-sm text-muted-foreground">
                   {pins.length} {pins.length === 1 ? 'pin' : 'pins'}
+                  {savedCount > 0 && ` · ${savedCount} saved`}
                 </p>
               </div>
-              {isOwner && (
-                <Button
-                  onClick={() => navigate('/create-pin')}
-                  size="sm"
-                  className="rounded-full"
-                >
-                  <Plus className="h-4 w-4 mr-2" />
-                  <span className="hidden md:inline">Add Pin</span>
-                </Button>
+              {canEdit && (
+                <>
+                  {pins.length > 0 && (
+                    <Button
+                      onClick={() => setSelectedKeys(selectedKeys ? null : new Set())}
+                      size="sm"
+                      variant={selectedKeys ? "secondary" : "outline"}
+                      className="rounded-full"
+                    >
+                      <CheckSquare className="h-4 w-4 md:mr-2" />
+                      <span className="hidden md:inline">{selectedKeys ? "Done" : "Select"}</span>
+                    </Button>
+                  )}
+                  <Button
+                    onClick={() => openSectionDialog("new")}
+                    size="sm"
+                    variant="outline"
+                    className="rounded-full"
+                  >
+                    <FolderPlus className="h-4 w-4 md:mr-2" />
+                    <span className="hidden md:inline">Add Section</span>
+                  </Button>
+                  <Button
+                    onClick={() => navigate('/create-pin')}
+                    size="sm"
+                    className="rounded-full"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    <span className="hidden md:inline">Add Pin</span>
+                  </Button>
+                </>
               )}
             </div>
           </Card>
         </div>
 
         {/* Pins Grid */}
-        {pins.length === 0 ? (
+        {pins.length === 0 && sections.length === 0 ? (
           <Card className="p-8 text-center">
             <div className="w-16 h-16 bg-muted rounded-full flex items-center justify-center mx-auto mb-4">
               <span className="text-2xl">📌</span>
             </div>
             <h3 className="text-lg font-medium mb-2">No pins in this board yet</h3>
             <p className="text-muted-foreground mb-4">
-              {isOwner 
+              {canEdit 
                 ? "Start adding pins to organize your ideas" 
                 : "This board doesn't have any pins yet"
               }
             </p>
-            {isOwner && (
+            {canEdit && (
               <Button onClick={() => navigate('/create-pin')} className="rounded-full">
                 <Plus className="h-4 w-4 mr-2" />
                 Add Your First Pin
               </Button>
             )}
           </Card>
+        ) : sections.length === 0 ? (
+          renderPinGrid(pins)
         ) : (
-          <PinGrid 
-            pins={pins} 
-            currentUserId={session?.user?.id}
-            onPinDeleted={(pinId) => {
-              setPins(pins.filter(pin => pin.id !== pinId));
-            }}
-          />
+          <>
+            {unsortedPins.length > 0 && (
+              <BoardSectionGroup title="Unsorted" count={unsortedPins.length}>
+                {renderPinGrid(unsortedPins)}
+              </BoardSectionGroup>
+            )}
+            {sections.map((section) => {
+              const sectionPins = pins.filter(pin => pin.section_id === section.id);
+              return (
+                <BoardSectionGroup
+                  key={section.id}
+                  title={section.name}
+                  count={sectionPins.length}
+                  onRename={canEdit ? () => openSectionDialog(section) : undefined}
+                  onDelete={canEdit ? () => handleDeleteSection(section.id) : undefined}
+                >
+                  {renderPinGrid(sectionPins)}
+                </BoardSectionGroup>
+              );
+            })}
+          </>
         )}
       </main>
+
+      <Dialog open={editingSection !== null} onOpenChange={(open) => !open && setEditingSection(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingSection === "new" ? "Add Section" : "Rename Section"}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={handleSaveSection} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="sectionName">Section Name</Label>
+              <Input
+                id="sectionName"
+                placeholder="e.g., Color palettes"
+                value={sectionName}
+                onChange={(e) => setSectionName(e.target.value)}
+                autoFocus
+                className="rounded-xl"
+              />
+            </div>
+            <div className="flex gap-3">
+              <Button
+                type="submit"
+                disabled={savingSection || !sectionName.trim()}
+                className="flex-1 rounded-xl"
+              >
+                {savingSection ? "Saving..." : editingSection === "new" ? "Add Section" : "Save"}
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => setEditingSection(null)}
+                className="rounded-xl"
+              >
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {selectedKeys && session && (
+        <BulkPinActions
+          selectedPins={pins.filter(pin => selectedKeys.has(boardEntryKey(pin)))}
+          totalCount={pins.length}
+          currentUserId={session.user.id}
+          currentBoardId={board.id}
+          onSelectAll={() => setSelectedKeys(new Set(pins.map(boardEntryKey)))}
+          onClear={() => setSelectedKeys(new Set())}
+          onExit={() => setSelectedKeys(null)}
+          onApplied={handleBulkApplied}
+        />
+      )}
+
+      <BoardCollaboratorsDialog
+        isOpen={isCollaboratorsOpen}
+        onClose={() => setIsCollaboratorsOpen(false)}
+        boardId={board.id}
+        ownerId={board.user_id}
+        currentUserId={session?.user?.id}
+        collaborators={collaborators}
+        onCollaboratorsChange={setCollaborators}
+      />
     </div>
   );
 };
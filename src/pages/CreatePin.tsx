@@ -8,16 +8,28 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { ArrowLeft, Upload, Link } from "lucide-react";
 import Header from "@/components/Header";
+import UrlImagePicker from "@/components/UrlImagePicker";
+import BulkPinUpload from "@/components/BulkPinUpload";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
+import { useInvalidatePins } from "@/data";
+import { fetchEditableBoards } from "@/lib/boardCollaborators";
+import { BoardSection, fetchBoardSections } from "@/lib/boardSections";
+import { ScrapedPage } from "@/lib/urlImport";
+import { ACCEPTED_IMAGE_TYPES, ImageMetadata, readImageMetadata, uniqueImageName, uploadImage } from "@/lib/imageUpload";
+
+// Select items can't use an empty value, so "no section" gets its own
+const UNSORTED = "unsorted";
 
 interface Board {
   id: string;
   name: string;
   description?: string;
+  role?: "owner" | "editor";
 }
 
 const CreatePin = () => {
@@ -26,16 +38,24 @@ const CreatePin = () => {
   const [title, setTitle] = useState("");
   const [description, setDescription] = useState("");
   const [imageUrl, setImageUrl] = useState("");
+  // Known for uploads; images from a link are measured when the pin is saved
+  const [imageMetadata, setImageMetadata] = useState<ImageMetadata | null>(null);
   const [originalUrl, setOriginalUrl] = useState("");
   const [selectedBoard, setSelectedBoard] = useState("");
+  const [sections, setSections] = useState<BoardSection[]>([]);
+  const [selectedSection, setSelectedSection] = useState(UNSORTED);
   const [imageFile, setImageFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState("");
   const [isNsfw, setIsNsfw] = useState(false);
+  // Set when more than one image is chosen, which switches the page to bulk upload
+  const [bulkFiles, setBulkFiles] = useState<File[] | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
   
   const navigate = useNavigate();
   const { toast } = useToast();
+  const invalidatePins = useInvalidatePins();
 
   useEffect(() => {
     // Check authentication and redirect if not logged in
@@ -70,22 +90,29 @@ const CreatePin = () => {
     }
   }, [session]);
 
+  useEffect(() => {
+    setSections([]);
+    setSelectedSection(UNSORTED);
+    if (!selectedBoard) return;
+
+    let cancelled = false;
+    fetchBoardSections(selectedBoard)
+      .then((boardSections) => {
+        if (!cancelled) setSections(boardSections);
+      })
+      .catch((error) => console.error('Error fetching sections:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedBoard]);
+
   const fetchBoards = async () => {
     try {
-      const { data, error } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('user_id', session?.user.id)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching boards:', error);
-        return;
-      }
-
-      setBoards(data || []);
+      // Boards the user owns plus boards they were invited to edit
+      setBoards(await fetchEditableBoards(session.user.id));
     } catch (error) {
-      console.error('Error:', error);
+      console.error('Error fetching boards:', error);
     }
   };
 
@@ -94,23 +121,15 @@ const CreatePin = () => {
     setError("");
 
     try {
-      const fileExt = file.name.split('.').pop();
-      const fileName = `${Date.now()}.${fileExt}`;
-      const filePath = `pins/${session?.user.id}/${fileName}`;
-
-      const { error: uploadError } = await supabase.storage
-        .from('pin-images')
-        .upload(filePath, file);
-
-      if (uploadError) {
-        throw uploadError;
-      }
-
-      const { data: { publicUrl } } = supabase.storage
-        .from('pin-images')
-        .getPublicUrl(filePath);
+      const { publicUrl, width, height, blurhash } = await uploadImage({
+        file,
+        kind: "pin",
+        bucket: "pin-images",
+        pathWithoutExtension: `pins/${session?.user.id}/${uniqueImageName()}`,
+      });
 
       setImageUrl(publicUrl);
+      setImageMetadata({ width, height, blurhash });
       toast({
         title: "Image uploaded!",
         description: "Your image has been uploaded successfully.",
@@ -123,14 +142,29 @@ const CreatePin = () => {
     }
   };
 
-  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      setImageFile(file);
-      handleImageUpload(file);
+  const handleFiles = (files: File[]) => {
+    const images = files.filter((file) => file.type.startsWith("image/"));
+    if (images.length > 1) {
+      setBulkFiles(images);
+    } else if (images.length === 1) {
+      setImageFile(images[0]);
+      handleImageUpload(images[0]);
     }
   };
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    handleFiles(Array.from(e.target.files ?? []));
+  };
+
+  // Fill in whatever the user hasn't typed yet from the page the image came from, and
+  // store the image the same way as one picked from disk
+  const handleUrlImport = (file: File, page: ScrapedPage) => {
+    setTitle((current) => current || page.title?.slice(0, 100) || "");
+    setDescription((current) => current || page.description || "");
+    setOriginalUrl((current) => current || page.url);
+    handleImageUpload(file);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session) return;
@@ -143,14 +177,24 @@ const CreatePin = () => {
         throw new Error("Please fill in all required fields");
       }
 
+      // A pin without a size still works, it just can't reserve its space in the grid
+      const metadata = imageMetadata ?? await readImageMetadata(imageUrl).catch((error) => {
+        console.error('Error measuring image:', error);
+        return null;
+      });
+
       const { error } = await supabase
         .from('pins')
         .insert({
           title,
           description,
           image_url: imageUrl,
+          width: metadata?.width ?? null,
+          height: metadata?.height ?? null,
+          blurhash: metadata?.blurhash ?? null,
           original_url: originalUrl || null,
           board_id: selectedBoard,
+          section_id: selectedSection === UNSORTED ? null : selectedSection,
           user_id: session.user.id,
           is_nsfw: isNsfw
         });
@@ -159,6 +203,7 @@ const CreatePin = () => {
         throw error;
       }
 
+      invalidatePins();
       toast({
         title: "Pin created!",
         description: "Your pin has been saved successfully.",
@@ -199,190 +244,254 @@ const CreatePin = () => {
           <CardHeader>
             <CardTitle>Pin Details</CardTitle>
             <CardDescription>
-              Add an image and details about your pin
+              {bulkFiles
+                ? "Give each image a title, then choose where they all go"
+                : "Add an image and details about your pin"}
             </CardDescription>
           </CardHeader>
           
           <CardContent>
-            <form onSubmit={handleSubmit} className="space-y-6">
-              {/* Image Upload Section */}
-              <div className="space-y-4">
-                <Label className="text-base font-medium">Image</Label>
+            {bulkFiles ? (
+              <BulkPinUpload
+                files={bulkFiles}
+                boards={boards}
+                userId={session.user.id}
+                onDone={() => navigate("/")}
+                onCancel={() => setBulkFiles(null)}
+              />
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-6">
+                {/* Image Upload Section */}
+                <div className="space-y-4">
+                  <Label className="text-base font-medium">Image</Label>
                 
-                {!imageUrl ? (
-                  <div className="space-y-4">
-                    {/* File Upload */}
-                    <div className="border-2 border-dashed border-muted-foreground/25 rounded-lg p-8 text-center hover:border-muted-foreground/40 transition-colors">
-                      <input
-                        type="file"
-                        accept="image/*"
-                        onChange={handleFileChange}
-                        className="hidden"
-                        id="image-upload"
-                        disabled={isUploading}
-                      />
-                      <label htmlFor="image-upload" className="cursor-pointer">
-                        <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
-                        <p className="text-lg font-medium mb-2">
-                          {isUploading ? "Uploading..." : "Choose a file"}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          Or drag and drop an image here
-                        </p>
-                      </label>
-                    </div>
+                  {!imageUrl ? (
+                    <Tabs defaultValue="upload" className="w-full">
+                      <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="upload">Upload</TabsTrigger>
+                        <TabsTrigger value="url">From URL</TabsTrigger>
+                      </TabsList>
+
+                      <TabsContent value="upload" className="space-y-4">
+                        {/* File Upload */}
+                        <div
+                          className={`border-2 border-dashed rounded-lg p-8 text-center transition-colors ${
+                            isDragging ? "border-primary bg-primary/5" : "border-muted-foreground/25 hover:border-muted-foreground/40"
+                          }`}
+                          onDragOver={(e) => {
+                            e.preventDefault();
+                            setIsDragging(true);
+                          }}
+                          onDragLeave={() => setIsDragging(false)}
+                          onDrop={(e) => {
+                            e.preventDefault();
+                            setIsDragging(false);
+                            if (!isUploading) handleFiles(Array.from(e.dataTransfer.files));
+                          }}
+                        >
+                          <input
+                            type="file"
+                            accept="image/*"
+                            multiple
+                            onChange={handleFileChange}
+                            className="hidden"
+                            id="image-upload"
+                            disabled={isUploading}
+                          />
+                          <label htmlFor="image-upload" className="cursor-pointer">
+                            <Upload className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                            <p className="text-lg font-medium mb-2">
+                              {isUploading ? "Uploading..." : "Choose a file"}
+                            </p>
+                            <p className="text-sm text-muted-foreground">
+                              Or drag and drop images here. Choose several to create a pin for each.
+                            </p>
+                          </label>
+                        </div>
                     
-                    <div className="text-center text-muted-foreground">or</div>
+                        <div className="text-center text-muted-foreground">or</div>
                     
-                    {/* URL Input */}
-                    <div className="space-y-2">
-                      <Label htmlFor="imageUrl" className="flex items-center">
-                        <Link className="h-4 w-4 mr-2" />
-                        Image URL
-                      </Label>
-                      <Input
-                        id="imageUrl"
-                        type="url"
-                        placeholder="https://example.com/image.jpg"
-                        value={imageUrl}
-                        onChange={(e) => setImageUrl(e.target.value)}
-                        className="rounded-xl"
-                      />
+                        {/* URL Input */}
+                        <div className="space-y-2">
+                          <Label htmlFor="imageUrl" className="flex items-center">
+                            <Link className="h-4 w-4 mr-2" />
+                            Image URL
+                          </Label>
+                          <Input
+                            id="imageUrl"
+                            type="url"
+                            placeholder="https://example.com/image.jpg"
+                            value={imageUrl}
+                            onChange={(e) => {
+                              setImageUrl(e.target.value);
+                              setImageMetadata(null);
+                            }}
+                            className="rounded-xl"
+                          />
+                        </div>
+                      </TabsContent>
+
+                      <TabsContent value="url">
+                        <UrlImagePicker onImported={handleUrlImport} disabled={isUploading} />
+                      </TabsContent>
+                    </Tabs>
+                  ) : (
+                    <div className="space-y-4">
+                      <div className="relative">
+                        <img
+                          src={imageUrl}
+                          alt="Preview"
+                          className="w-full max-w-md mx-auto rounded-lg shadow-soft"
+                        />
+                        <Button
+                          type="button"
+                          variant="outline"
+                          size="sm"
+                          onClick={() => {
+                            setImageUrl("");
+                            setImageMetadata(null);
+                            setImageFile(null);
+                          }}
+                          className="absolute top-2 right-2"
+                        >
+                          Change
+                        </Button>
+                      </div>
                     </div>
+                  )}
+                </div>
+
+                {/* Pin Details */}
+                <div className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="title">Title *</Label>
+                    <Input
+                      id="title"
+                      placeholder="Add a title"
+                      value={title}
+                      onChange={(e) => setTitle(e.target.value)}
+                      required
+                      className="rounded-xl"
+                    />
                   </div>
-                ) : (
-                  <div className="space-y-4">
-                    <div className="relative">
-                      <img
-                        src={imageUrl}
-                        alt="Preview"
-                        className="w-full max-w-md mx-auto rounded-lg shadow-soft"
-                      />
-                      <Button
-                        type="button"
-                        variant="outline"
-                        size="sm"
-                        onClick={() => {
-                          setImageUrl("");
-                          setImageFile(null);
-                        }}
-                        className="absolute top-2 right-2"
-                      >
-                        Change
-                      </Button>
-                    </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="description">Description</Label>
+                    <Textarea
+                      id="description"
+                      placeholder="Tell everyone what your pin is about"
+                      value={description}
+                      onChange={(e) => setDescription(e.target.value)}
+                      rows={3}
+                      className="rounded-xl"
+                    />
                   </div>
-                )}
-              </div>
-
-              {/* Pin Details */}
-              <div className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="title">Title *</Label>
-                  <Input
-                    id="title"
-                    placeholder="Add a title"
-                    value={title}
-                    onChange={(e) => setTitle(e.target.value)}
-                    required
-                    className="rounded-xl"
-                  />
-                </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="description">Description</Label>
-                  <Textarea
-                    id="description"
-                    placeholder="Tell everyone what your pin is about"
-                    value={description}
-                    onChange={(e) => setDescription(e.target.value)}
-                    rows={3}
-                    className="rounded-xl"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="originalUrl">Link</Label>
+                    <Input
+                      id="originalUrl"
+                      type="url"
+                      placeholder="Add a destination link"
+                      value={originalUrl}
+                      onChange={(e) => setOriginalUrl(e.target.value)}
+                      className="rounded-xl"
+                    />
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="originalUrl">Link</Label>
-                  <Input
-                    id="originalUrl"
-                    type="url"
-                    placeholder="Add a destination link"
-                    value={originalUrl}
-                    onChange={(e) => setOriginalUrl(e.target.value)}
-                    className="rounded-xl"
-                  />
-                </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="board">Board *</Label>
+                    <Select value={selectedBoard} onValueChange={setSelectedBoard}>
+                      <SelectTrigger className="rounded-xl">
+                        <SelectValue placeholder="Choose a board" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {boards.map((board) => (
+                          <SelectItem key={board.id} value={board.id}>
+                            {board.name}
+                            {board.role === "editor" && (
+                              <span className="text-muted-foreground"> · Shared</span>
+                            )}
+                          </SelectItem>
+                        ))}
+                        {boards.length === 0 && (
+                          <SelectItem value="none" disabled>
+                            No boards found - create one first
+                          </SelectItem>
+                        )}
+                      </SelectContent>
+                    </Select>
+                    {boards.length === 0 && (
+                      <p className="text-sm text-muted-foreground">
+                        You need to create a board first.{" "}
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="p-0 h-auto text-primary"
+                          onClick={() => navigate("/profile")}
+                        >
+                          Go to your profile
+                        </Button>
+                      </p>
+                    )}
+                  </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="board">Board *</Label>
-                  <Select value={selectedBoard} onValueChange={setSelectedBoard}>
-                    <SelectTrigger className="rounded-xl">
-                      <SelectValue placeholder="Choose a board" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {boards.map((board) => (
-                        <SelectItem key={board.id} value={board.id}>
-                          {board.name}
-                        </SelectItem>
-                      ))}
-                      {boards.length === 0 && (
-                        <SelectItem value="none" disabled>
-                          No boards found - create one first
-                        </SelectItem>
-                      )}
-                    </SelectContent>
-                  </Select>
-                  {boards.length === 0 && (
-                    <p className="text-sm text-muted-foreground">
-                      You need to create a board first.{" "}
-                      <Button
-                        type="button"
-                        variant="link"
-                        className="p-0 h-auto text-primary"
-                        onClick={() => navigate("/profile")}
-                      >
-                        Go to your profile
-                      </Button>
-                    </p>
+                  {sections.length > 0 && (
+                    <div className="space-y-2">
+                      <Label htmlFor="section">Section</Label>
+                      <Select value={selectedSection} onValueChange={setSelectedSection}>
+                        <SelectTrigger id="section" className="rounded-xl">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={UNSORTED}>No section</SelectItem>
+                          {sections.map((section) => (
+                            <SelectItem key={section.id} value={section.id}>
+                              {section.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
                   )}
+
+                  <div className="flex items-center space-x-2">
+                    <Checkbox
+                      id="nsfw"
+                      checked={isNsfw}
+                      onCheckedChange={(checked) => setIsNsfw(!!checked)}
+                    />
+                    <Label htmlFor="nsfw" className="text-sm font-normal">
+                      Mark as NSFW (Adult content)
+                    </Label>
+                  </div>
                 </div>
 
-                <div className="flex items-center space-x-2">
-                  <Checkbox
-                    id="nsfw"
-                    checked={isNsfw}
-                    onCheckedChange={(checked) => setIsNsfw(!!checked)}
-                  />
-                  <Label htmlFor="nsfw" className="text-sm font-normal">
-                    Mark as NSFW (Adult content)
-                  </Label>
+                {error && (
+                  <Alert variant="destructive">
+                    <AlertDescription>{error}</AlertDescription>
+                  </Alert>
+                )}
+
+                <div className="flex gap-4">
+                  <Button 
+                    type="submit" 
+                    disabled={loading || isUploading || !imageUrl || !title || !selectedBoard}
+                    className="flex-1 rounded-xl"
+                  >
+                    {loading ? "Creating..." : "Create Pin"}
+                  </Button>
+                  <Button 
+                    type="button" 
+                    variant="outline"
+                    onClick={() => navigate("/")}
+                    className="rounded-xl"
+                  >
+                    Cancel
+                  </Button>
                 </div>
-              </div>
-
-              {error && (
-                <Alert variant="destructive">
-                  <AlertDescription>{error}</AlertDescription>
-                </Alert>
-              )}
-
-              <div className="flex gap-4">
-                <Button 
-                  type="submit" 
-                  disabled={loading || isUploading || !imageUrl || !title || !selectedBoard}
-                  className="flex-1 rounded-xl"
-                >
-                  {loading ? "Creating..." : "Create Pin"}
-                </Button>
-                <Button 
-                  type="button" 
-                  variant="outline"
-                  onClick={() => navigate("/")}
-                  className="rounded-xl"
-                >
-                  Cancel
-                </Button>
-              </div>
-            </form>
+              </form>
+            )}
           </CardContent>
         </Card>
       </main>
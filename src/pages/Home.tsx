@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, useSearchParams, useParams } from "react-router-dom";
 import Header from "@/components/Header";
 import PinGrid from "@/components/PinGrid";
@@ -6,42 +6,52 @@ import PinModal from "@/components/PinModal";
 import NetworkIndicator from "@/components/NetworkIndicator";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
 import { ExternalLink } from "lucide-react";
 import { motion, AnimatePresence } from "framer-motion";
+import { FEED_MODES, FeedMode, parseFeedMode } from "@/lib/feed";
+import { SEARCH_FILTERS, parseSearchFilter } from "@/lib/search";
+import { PinFeed, useForgetPin, usePins } from "@/data";
 
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  original_url?: string;
-  user_id: string;
-  board_id: string;
-  created_at: string;
-  is_nsfw?: boolean;
-  profiles?: {
-    full_name?: string;
-    email: string;
-    avatar_url?: string;
+// The query cache keeps loaded pages between visits; only the scroll offset is kept here,
+// so coming back from a pin lands where the viewer left the feed
+let savedScroll: { key: string; y: number } | null = null;
+
+// Images above the saved offset may still be loading, so retry until the page is tall enough
+const restoreScroll = (y: number) => {
+  let attempts = 0;
+  const tryScroll = () => {
+    window.scrollTo(0, y);
+    if (Math.abs(window.scrollY - y) > 1 && attempts++ < 20) {
+      setTimeout(tryScroll, 50);
+    }
   };
-}
+  requestAnimationFrame(tryScroll);
+};
 
 const Home = () => {
-  const [pins, setPins] = useState<Pin[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [searchParams] = useSearchParams();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { pinId } = useParams();
   const searchQuery = searchParams.get('search');
+  const searchFilter = parseSearchFilter(searchParams.get('in'));
+  const feedMode = parseFeedMode(searchParams.get('feed'));
+  const feed: PinFeed = searchQuery
+    ? { kind: 'search', query: searchQuery, filter: searchFilter }
+    : { kind: 'feed', mode: feedMode };
+  const feedKey = JSON.stringify(feed);
+  const { data, isPending: loading, isFetchingNextPage: loadingMore, hasNextPage, fetchNextPage } = usePins(feed);
+  const pins = data?.pages.flatMap(page => page.pins) ?? [];
+  const forgetPin = useForgetPin();
   const [session, setSession] = useState<Session | null>(null);
   const [showPinModal, setShowPinModal] = useState(false);
   const navigate = useNavigate();
   const { toast } = useToast();
 
   const handlePinDeleted = (pinId: string) => {
-    setPins(prev => prev.filter(pin => pin.id !== pinId));
+    forgetPin(pinId);
     toast({
       title: "Pin deleted",
       description: "Pin has been removed from your view.",
@@ -71,53 +81,27 @@ const Home = () => {
     return () => subscription.unsubscribe();
   }, []);
 
+  // Back on a feed that's still cached: put the viewer where they were
   useEffect(() => {
-    fetchPins();
-  }, [searchQuery]);
-
-  const fetchPins = async () => {
-    setLoading(true);
-    
-    let query = supabase
-      .from('pins')
-      .select('*');
-
-    if (searchQuery) {
-      // Use ilike for basic text search
-      query = query.or(`title.ilike.%${searchQuery}%,description.ilike.%${searchQuery}%`);
+    if (savedScroll?.key === feedKey) {
+      restoreScroll(savedScroll.y);
     }
+    savedScroll = null;
+    return () => {
+      savedScroll = { key: feedKey, y: window.scrollY };
+    };
+  }, [feedKey]);
 
-    const { data: pinsData, error } = await query.order('created_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching pins:', error);
-      setLoading(false);
-      return;
+  const loadMorePins = () => {
+    if (hasNextPage && !loadingMore) {
+      fetchNextPage().catch(error => console.error('Error fetching more pins:', error));
     }
-
-    // Fetch profiles for pins
-    if (pinsData && pinsData.length > 0) {
-      const userIds = [...new Set(pinsData.map(pin => pin.user_id))];
-      const { data: profilesData } = await supabase
-        .from('profiles')
-        .select('user_id, full_name, email, avatar_url')
-        .in('user_id', userIds);
-
-      const profilesMap = new Map(profilesData?.map(profile => [profile.user_id, profile]) || []);
-      
-      const pinsWithProfiles = pinsData.map(pin => ({
-        ...pin,
-        profiles: profilesMap.get(pin.user_id)
-      }));
-
-      setPins(pinsWithProfiles);
-    } else {
-      setPins([]);
-    }
-    
-    setLoading(false);
   };
 
+  const handleFeedModeChange = (mode: string) => {
+    if (!mode) return;
+    setSearchParams(mode === 'for_you' ? {} : { feed: mode as FeedMode });
+  };
 
   const pageVariants = {
     initial: { opacity: 0, y: 20 },
@@ -333,6 +317,28 @@ const Home = () => {
           </motion.div>
         )}
         
+        {!searchQuery && (
+          <div className="container mx-auto px-4 mb-6 flex justify-center">
+            <ToggleGroup
+              type="single"
+              value={feedMode}
+              onValueChange={handleFeedModeChange}
+              className="rounded-full bg-muted p-1"
+              aria-label="Feed"
+            >
+              {FEED_MODES.map((mode) => (
+                <ToggleGroupItem
+                  key={mode.value}
+                  value={mode.value}
+                  className="rounded-full px-4 h-8 text-sm data-[state=on]:bg-background data-[state=on]:shadow-sm"
+                >
+                  {mode.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          </div>
+        )}
+
         {searchQuery && (
           <motion.div 
             className="container mx-auto px-4 mb-6"
@@ -347,6 +353,11 @@ const Home = () => {
               transition={{ delay: 0.3 }}
             >
               Search results for "{searchQuery}"
+              {searchFilter !== 'all' && (
+                <span className="text-muted-foreground font-normal">
+                  {' '}in {SEARCH_FILTERS.find(filter => filter.value === searchFilter)?.label.toLowerCase()}
+                </span>
+              )}
             </motion.h2>
             <motion.p 
               className="text-muted-foreground"
@@ -354,7 +365,7 @@ const Home = () => {
               animate={{ opacity: 1 }}
               transition={{ delay: 0.4 }}
             >
-              {pins.length} pins found
+              {pins.length}{hasNextPage ? '+' : ''} pins found
             </motion.p>
           </motion.div>
         )}
@@ -388,6 +399,17 @@ const Home = () => {
                 </motion.p>
               </div>
             </motion.div>
+          ) : !searchQuery && feedMode === 'following' && pins.length === 0 ? (
+            <motion.div
+              className="text-center py-16 text-muted-foreground"
+              initial={{ opacity: 0 }}
+              animate={{ opacity: 1 }}
+              exit={{ opacity: 0 }}
+              key="following-empty"
+            >
+              <p className="text-lg font-medium text-foreground mb-2">Nothing from people you follow yet</p>
+              <p>Follow creators you like and their new pins will show up here.</p>
+            </motion.div>
           ) : (
             <motion.div
               initial={{ opacity: 0 }}
@@ -400,6 +422,9 @@ const Home = () => {
                 pins={pins} 
                 currentUserId={session?.user?.id}
                 onPinDeleted={handlePinDeleted}
+                hasMore={hasNextPage}
+                loadingMore={loadingMore}
+                onLoadMore={loadMorePins}
               />
             </motion.div>
           )}
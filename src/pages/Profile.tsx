@@ -3,50 +3,52 @@ import { useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Plus, Settings } from "lucide-react";
+import { CheckSquare, Lock, Plus, Settings } from "lucide-react";
 import Header from "@/components/Header";
 import PinGrid from "@/components/PinGrid";
 import NewProfilePictureUpload from "@/components/NewProfilePictureUpload";
+import BulkPinActions from "@/components/BulkPinActions";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
-
-interface Board {
-  id: string;
-  name: string;
-  description?: string;
-  cover_image_url?: string;
-  created_at: string;
-  pin_count?: number;
-}
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  original_url?: string;
-  user_id: string;
-  board_id: string;
-  created_at: string;
-}
+import { boardEntryKey } from "@/lib/boardPins";
+import { BulkPinAction, BulkPinResult } from "@/lib/bulkPins";
+import { PinWithAuthor } from "@/lib/pins";
+import {
+  useCreateBoard,
+  useForgetPin,
+  useProfile,
+  useSavedCounts,
+  useSetProfile,
+  useSetUserPins,
+  useUserBoards,
+  useUserPins,
+} from "@/data";
 
 const Profile = () => {
   const [session, setSession] = useState<Session | null>(null);
-  const [userProfile, setUserProfile] = useState<any>(null);
-  const [boards, setBoards] = useState<Board[]>([]);
-  const [userPins, setUserPins] = useState<Pin[]>([]);
-  const [loading, setLoading] = useState(true);
+  const userId = session?.user?.id;
+  const { data: userProfile, isPending: profileLoading, error: profileError } = useProfile(userId);
+  const { data: boards = [], isPending: boardsLoading } = useUserBoards(userId);
+  const { data: userPins = [], isPending: pinsLoading } = useUserPins(userId);
+  const { data: savedCounts = {}, refetch: refetchSavedCounts } = useSavedCounts(boards.map(board => board.id));
+  const setUserProfile = useSetProfile(userId ?? "");
+  const setUserPins = useSetUserPins(userId ?? "");
+  const createBoardMutation = useCreateBoard(userId);
+  const forgetPin = useForgetPin();
+  const loading = profileLoading || boardsLoading || pinsLoading;
+  const creatingBoard = createBoardMutation.isPending;
   const [isCreateBoardOpen, setIsCreateBoardOpen] = useState(false);
   const [newBoardName, setNewBoardName] = useState("");
   const [newBoardDescription, setNewBoardDescription] = useState("");
-  const [creatingBoard, setCreatingBoard] = useState(false);
+  const [newBoardPrivate, setNewBoardPrivate] = useState(false);
   const [error, setError] = useState("");
-  const [followersCount, setFollowersCount] = useState(0);
-  const [followingCount, setFollowingCount] = useState(0);
+  // Keys of selected pins while in selection mode, null otherwise
+  const [selectedKeys, setSelectedKeys] = useState<Set<string> | null>(null);
   
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -79,95 +81,15 @@ const Profile = () => {
   }, [navigate]);
 
   useEffect(() => {
-    if (session) {
-      fetchUserData();
-    }
-  }, [session]);
-
-  const fetchUserData = async () => {
-    if (!session) return;
-    
-    try {
-      setLoading(true);
-      
-      // Fetch user profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .single();
-
-      if (profileError) {
-        console.error('Error fetching profile:', profileError);
-      } else {
-        setUserProfile(profileData);
-      }
-      
-      // Fetch user's boards
-      const { data: boardsData, error: boardsError } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .order('created_at', { ascending: false });
-
-      if (boardsError) {
-        console.error('Error fetching boards:', boardsError);
-      } else {
-        setBoards(boardsData || []);
-      }
-
-      // Fetch user's pins
-      const { data: pinsData, error: pinsError } = await supabase
-        .from('pins')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .order('created_at', { ascending: false });
-
-      if (pinsError) {
-        console.error('Error fetching pins:', pinsError);
-      } else {
-        setUserPins(pinsData || []);
-      }
-
-      // Fetch follow counts
-      await fetchFollowCounts();
-      
-    } catch (error) {
-      console.error('Error:', error);
-      toast({
-        title: "Error",
-        description: "Something went wrong. Please try again.",
-        variant: "destructive",
-      });
-    } finally {
-      setLoading(false);
+    if (profileError) {
+      console.error('Error fetching profile:', profileError);
     }
-  };
-
-  const fetchFollowCounts = async () => {
-    if (!session?.user?.id) return;
-
-    // Get followers count
-    const { count: followersCount } = await supabase
-      .from('follows')
-      .select('*', { count: 'exact', head: true })
-      .eq('following_id', session.user.id);
-
-    // Get following count  
-    const { count: followingCount } = await supabase
-      .from('follows')
-      .select('*', { count: 'exact', head: true })
-      .eq('follower_id', session.user.id);
-
-    setFollowersCount(followersCount || 0);
-    setFollowingCount(followingCount || 0);
-  };
+  }, [profileError]);
 
   const handleCreateBoard = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!session) return;
 
-    setCreatingBoard(true);
     setError("");
 
     try {
@@ -175,17 +97,11 @@ const Profile = () => {
         throw new Error("Board name is required");
       }
 
-      const { error } = await supabase
-        .from('boards')
-        .insert({
-          name: newBoardName.trim(),
-          description: newBoardDescription.trim() || null,
-          user_id: session.user.id
-        });
-
-      if (error) {
-        throw error;
-      }
+      await createBoardMutation.mutateAsync({
+        name: newBoardName,
+        description: newBoardDescription,
+        isPrivate: newBoardPrivate,
+      });
 
       toast({
         title: "Board created!",
@@ -194,17 +110,36 @@ const Profile = () => {
 
       setNewBoardName("");
       setNewBoardDescription("");
+      setNewBoardPrivate(false);
       setIsCreateBoardOpen(false);
-      fetchUserData(); // Refresh the data
     } catch (error: any) {
       console.error('Error creating board:', error);
       setError(error.message || "Failed to create board");
-    } finally {
-      setCreatingBoard(false);
     }
   };
 
 
+  const handleBulkApplied = async (
+    action: BulkPinAction,
+    results: BulkPinResult[],
+    options: { targetBoardId?: string; nsfw?: boolean }
+  ) => {
+    const succeeded = new Set(results.filter(result => result.ok).map(result => result.key));
+    const changed = (pin: PinWithAuthor) => succeeded.has(boardEntryKey(pin));
+
+    if (action === 'delete') {
+      setUserPins(prev => prev.filter(pin => !changed(pin)));
+    } else if (action === 'move') {
+      setUserPins(prev => prev.map(pin => changed(pin) ? { ...pin, board_id: options.targetBoardId } : pin));
+    } else if (action === 'set_nsfw') {
+      setUserPins(prev => prev.map(pin => changed(pin) ? { ...pin, is_nsfw: options.nsfw } : pin));
+    } else if (action === 'copy') {
+      refetchSavedCounts();
+    }
+
+    setSelectedKeys(prev => prev && new Set([...prev].filter(key => !succeeded.has(key))));
+  };
+
   if (!session) {
     return <div>Loading...</div>;
   }
@@ -233,7 +168,7 @@ const Profile = () => {
               currentAvatarUrl={userProfile?.avatar_url}
               userEmail={session.user.email || ''}
               userId={session.user.id}
-              onAvatarUpdate={(newUrl) => setUserProfile({...userProfile, avatar_url: newUrl})}
+              onAvatarUpdate={(newUrl) => setUserProfile(profile => profile && { ...profile, avatar_url: newUrl })}
             />
           </div>
           <h1 className="text-3xl md:text-4xl font-bold mb-4 text-gradient">
@@ -249,11 +184,11 @@ const Profile = () => {
               <div className="text-sm">boards</div>
             </div>
             <div className="text-center">
-              <div className="text-lg md:text-xl font-semibold text-foreground">{followersCount}</div>
+              <div className="text-lg md:text-xl font-semibold text-foreground">{userProfile?.follower_count ?? 0}</div>
               <div className="text-sm">followers</div>
             </div>
             <div className="text-center">
-              <div className="text-lg md:text-xl font-semibold text-foreground">{followingCount}</div>
+              <div className="text-lg md:text-xl font-semibold text-foreground">{userProfile?.following_count ?? 0}</div>
               <div className="text-sm">following</div>
             </div>
           </div>
@@ -303,6 +238,19 @@ const Profile = () => {
                         className="rounded-xl"
                       />
                     </div>
+                    <div className="flex items-center justify-between gap-4 rounded-xl border p-3">
+                      <div className="space-y-0.5">
+                        <Label htmlFor="boardPrivate">Keep this board secret</Label>
+                        <p className="text-xs text-muted-foreground">
+                          Only you can see a secret board and the pins on it
+                        </p>
+                      </div>
+                      <Switch
+                        id="boardPrivate"
+                        checked={newBoardPrivate}
+                        onCheckedChange={setNewBoardPrivate}
+                      />
+                    </div>
                     {error && (
                       <Alert variant="destructive">
                         <AlertDescription>{error}</AlertDescription>
@@ -364,10 +312,14 @@ const Profile = () => {
                     </div>
                     <CardContent className="p-2 md:p-3">
                       <h3 className="font-medium text-xs md:text-sm line-clamp-2 mb-1">
+                        {board.is_private && (
+                          <Lock className="inline h-3 w-3 mr-1 -mt-0.5 text-muted-foreground" aria-label="Secret board" />
+                        )}
                         {board.name}
                       </h3>
                       <p className="text-xs text-muted-foreground">
                         {userPins.filter(pin => pin.board_id === board.id).length} pins
+                        {savedCounts[board.id] > 0 && ` · ${savedCounts[board.id]} saved`}
                       </p>
                     </CardContent>
                   </Card>
@@ -383,13 +335,25 @@ const Profile = () => {
                 <h2 className="text-3xl font-bold mb-2 text-gradient">Your Pins</h2>
                 <p className="text-muted-foreground">All your saved ideas in one place</p>
               </div>
-              <Button 
-                onClick={() => navigate("/create-pin")}
-                className="rounded-full btn-modern shadow-card hover:shadow-hover"
-              >
-                <Plus className="h-4 w-4 mr-2" />
-                Create Pin
-              </Button>
+              <div className="flex gap-2">
+                {userPins.length > 0 && (
+                  <Button
+                    variant={selectedKeys ? "secondary" : "outline"}
+                    onClick={() => setSelectedKeys(selectedKeys ? null : new Set())}
+                    className="rounded-full"
+                  >
+                    <CheckSquare className="h-4 w-4 mr-2" />
+                    {selectedKeys ? "Done" : "Select"}
+                  </Button>
+                )}
+                <Button 
+                  onClick={() => navigate("/create-pin")}
+                  className="rounded-full btn-modern shadow-card hover:shadow-hover"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Create Pin
+                </Button>
+              </div>
             </div>
 
             {userPins.length === 0 ? (
@@ -409,14 +373,26 @@ const Profile = () => {
               <PinGrid 
                 pins={userPins} 
                 currentUserId={session?.user?.id}
-                onPinDeleted={(pinId) => {
-                  setUserPins(userPins.filter(pin => pin.id !== pinId));
-                }}
+                onPinDeleted={forgetPin}
+                selectedKeys={selectedKeys ?? undefined}
+                onSelectionChange={selectedKeys ? setSelectedKeys : undefined}
               />
             )}
           </div>
         </div>
       </main>
+
+      {selectedKeys && (
+        <BulkPinActions
+          selectedPins={userPins.filter(pin => selectedKeys.has(boardEntryKey(pin)))}
+          totalCount={userPins.length}
+          currentUserId={session.user.id}
+          onSelectAll={() => setSelectedKeys(new Set(userPins.map(boardEntryKey)))}
+          onClear={() => setSelectedKeys(new Set())}
+          onExit={() => setSelectedKeys(null)}
+          onApplied={handleBulkApplied}
+        />
+      )}
     </div>
   );
 };
@@ -9,44 +9,17 @@ import PinGrid from "@/components/PinGrid";
 import { supabase } from "@/integrations/supabase/client";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
-
-interface UserProfile {
-  id: string;
-  user_id: string;
-  full_name?: string;
-  email: string;
-  avatar_url?: string;
-  created_at: string;
-}
-
-interface Board {
-  id: string;
-  name: string;
-  description?: string;
-  cover_image_url?: string;
-  created_at: string;
-}
-
-interface Pin {
-  id: string;
-  title: string;
-  description?: string;
-  image_url: string;
-  user_id: string;
-  board_id: string;
-  created_at: string;
-}
+import { useForgetPin, useIsFollowing, useProfile, useToggleFollow, useUserBoards, useUserPins } from "@/data";
 
 const UserProfile = () => {
   const { userId } = useParams<{ userId: string }>();
   const [session, setSession] = useState<Session | null>(null);
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
-  const [boards, setBoards] = useState<Board[]>([]);
-  const [userPins, setUserPins] = useState<Pin[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [isFollowing, setIsFollowing] = useState(false);
-  const [followersCount, setFollowersCount] = useState(0);
-  const [followingCount, setFollowingCount] = useState(0);
+  const { data: userProfile, isPending: loading } = useProfile(userId);
+  const { data: boards = [] } = useUserBoards(userId);
+  const { data: userPins = [] } = useUserPins(userId);
+  const { data: isFollowing = false } = useIsFollowing(session?.user?.id, userId);
+  const toggleFollowMutation = useToggleFollow(session?.user?.id, userId ?? "");
+  const forgetPin = useForgetPin();
   
   const navigate = useNavigate();
   const { toast } = useToast();
@@ -70,105 +43,6 @@ const UserProfile = () => {
     return () => subscription.unsubscribe();
   }, []);
 
-  useEffect(() => {
-    if (userId) {
-      fetchUserProfile();
-    }
-  }, [userId, session]);
-
-  const fetchUserProfile = async () => {
-    if (!userId) return;
-    
-    try {
-      setLoading(true);
-      
-      // Fetch user profile
-      const { data: profileData, error: profileError } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', userId)
-        .single();
-
-      if (profileError) {
-        console.error('Error fetching profile:', profileError);
-        return;
-      }
-
-      setUserProfile(profileData);
-
-      // Fetch user's boards
-      const { data: boardsData, error: boardsError } = await supabase
-        .from('boards')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (boardsError) {
-        console.error('Error fetching boards:', boardsError);
-      } else {
-        setBoards(boardsData || []);
-      }
-
-      // Fetch user's pins
-      const { data: pinsData, error: pinsError } = await supabase
-        .from('pins')
-        .select('*')
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (pinsError) {
-        console.error('Error fetching pins:', pinsError);
-      } else {
-        setUserPins(pinsData || []);
-      }
-
-      // Fetch follow counts
-      await fetchFollowCounts();
-      
-      // Check if current user follows this user
-      if (session?.user?.id && session.user.id !== userId) {
-        await checkFollowStatus();
-      }
-      
-    } catch (error) {
-      console.error('Error:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const fetchFollowCounts = async () => {
-    if (!userId) return;
-
-    // Get followers count
-    const { count: followersCount } = await supabase
-      .from('follows')
-      .select('*', { count: 'exact', head: true })
-      .eq('following_id', userId);
-
-    // Get following count
-    const { count: followingCount } = await supabase
-      .from('follows')
-      .select('*', { count: 'exact', head: true })
-      .eq('follower_id', userId);
-
-    setFollowersCount(followersCount || 0);
-    setFollowingCount(followingCount || 0);
-  };
-
-  const checkFollowStatus = async () => {
-    if (!session?.user?.id || !userId) return;
-
-    const { data } = await supabase
-      .from('follows')
-      .select('id')
-      .eq('follower_id', session.user.id)
-      .eq('following_id', userId)
-      .maybeSingle();
-
-    setIsFollowing(!!data);
-  };
-
   const toggleFollow = async () => {
     if (!session?.user?.id || !userId) {
       toast({
@@ -188,39 +62,18 @@ const UserProfile = () => {
       return;
     }
 
+    const follow = !isFollowing;
     try {
-      if (isFollowing) {
-        const { error } = await supabase
-          .from('follows')
-          .delete()
-          .eq('follower_id', session.user.id)
-          .eq('following_id', userId);
-
-        if (!error) {
-          setIsFollowing(false);
-          setFollowersCount(prev => prev - 1);
-          toast({
-            title: "Unfollowed",
-            description: `You unfollowed ${userProfile?.full_name || userProfile?.email}`,
-          });
-        }
-      } else {
-        const { error } = await supabase
-          .from('follows')
-          .insert({
-            follower_id: session.user.id,
-            following_id: userId
-          });
-
-        if (!error) {
-          setIsFollowing(true);
-          setFollowersCount(prev => prev + 1);
-          toast({
+      await toggleFollowMutation.mutateAsync(follow);
+      toast(follow
+        ? {
             title: "Following",
             description: `You are now following ${userProfile?.full_name || userProfile?.email}`,
+          }
+        : {
+            title: "Unfollowed",
+            description: `You unfollowed ${userProfile?.full_name || userProfile?.email}`,
           });
-        }
-      }
     } catch (error) {
       console.error('Error toggling follow:', error);
       toast({
@@ -267,8 +120,9 @@ const UserProfile = () => {
           <div className="flex items-center justify-center space-x-4 md:space-x-6 mb-4 text-sm md:text-base text-muted-foreground">
             <span>{userPins.length} pins</span>
             <span>{boards.length} boards</span>
-            <span>{followersCount} followers</span>
-            <span>{followingCount} following</span>
+            {/* Kept up to date by triggers on follows */}
+            <span>{userProfile.follower_count} followers</span>
+            <span>{userProfile.following_count} following</span>
           </div>
 
           {!isOwnProfile && session?.user && (
@@ -366,9 +220,7 @@ const UserProfile = () => {
               <PinGrid 
                 pins={userPins} 
                 currentUserId={session?.user?.id}
-                onPinDeleted={(pinId) => {
-                  setUserPins(userPins.filter(pin => pin.id !== pinId));
-                }}
+                onPinDeleted={forgetPin}
               />
             )}
           </div>
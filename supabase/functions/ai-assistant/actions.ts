@@ -0,0 +1,387 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ActionName } from './intents.ts'
+import { ModelProvider, TextSink, ToolSpec } from './providers.ts'
+
+// Everything runs through the caller's client, so RLS decides what each action may touch
+export interface ActionContext {
+  supabase: SupabaseClient
+  userId: string
+  provider: ModelProvider
+  // Set when the reply is streamed, so long-running actions can show progress
+  onText?: TextSink
+  // Aborted once the client stops reading a streamed reply
+  signal?: AbortSignal
+}
+
+type Args = Record<string, string>
+type Result = Record<string, unknown>
+
+// Errors whose message is safe to show the user verbatim
+export class ActionError extends Error {}
+
+export interface ActionDefinition {
+  tool: ToolSpec
+  // Read-only actions run straight away; mutating ones need the user to confirm
+  mutates: boolean
+  // Resolve names from the message into ids and describe what will happen
+  prepare(ctx: ActionContext, args: Args): Promise<{ args: Args; summary: string }>
+  execute(ctx: ActionContext, args: Args): Promise<{ result: Result; message: string }>
+  undo?(ctx: ActionContext, result: Result): Promise<string>
+}
+
+export interface ProposedAction {
+  id: string
+  type: ActionName
+  args: Args
+  summary: string
+}
+
+const RESULT_LIMIT = 12
+const SUMMARY_MESSAGE_LIMIT = 50
+
+// ilike treats % and _ as wildcards, so escape them in user input
+const likePattern = (value: string) => `%${value.replace(/[\\%_]/g, (char) => `\\${char}`)}%`
+
+const requireArg = (args: Args, key: string) => {
+  const value = args[key]?.trim()
+  if (!value) throw new ActionError(`Missing "${key}" for this action.`)
+  return value
+}
+
+const findOwnBoard = async ({ supabase, userId }: ActionContext, name: string) => {
+  const { data, error } = await supabase
+    .from('boards')
+    .select('id, name')
+    .eq('user_id', userId)
+    .ilike('name', likePattern(name))
+    .limit(5)
+
+  if (error) throw error
+  const exact = data?.find((board) => board.name.toLowerCase() === name.toLowerCase())
+  const board = exact ?? data?.[0]
+  if (!board) throw new ActionError(`I couldn't find a board of yours called "${name}".`)
+  return board
+}
+
+const findMemberGroup = async ({ supabase, userId }: ActionContext, name: string) => {
+  // Invite links make some non-member groups visible, so check membership explicitly
+  const { data, error } = await supabase
+    .from('groups')
+    .select('id, name, group_members!inner(user_id, role)')
+    .eq('group_members.user_id', userId)
+    .ilike('name', likePattern(name))
+    .limit(5)
+
+  if (error) throw error
+  const exact = data?.find((group) => group.name.toLowerCase() === name.toLowerCase())
+  const group = exact ?? data?.[0]
+  if (!group) throw new ActionError(`You're not a member of a group called "${name}".`)
+  return group as { id: string; name: string; group_members: Array<{ role: string }> }
+}
+
+// Clients can post an action back with any args, so execute and undo check this again
+// rather than trusting that prepare did
+const requireGroupAdmin = async ({ supabase, userId }: ActionContext, groupId: string, groupName: string) => {
+  const { data, error } = await supabase
+    .from('group_members')
+    .select('role')
+    .eq('group_id', groupId)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw error
+  if (data?.role !== 'admin') throw new ActionError(`Only admins can add or remove people in "${groupName}".`)
+}
+
+const createBoard: ActionDefinition = {
+  tool: {
+    name: 'create_board',
+    description: 'Create a new board owned by the user',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+      },
+      required: ['name'],
+    },
+  },
+  mutates: true,
+  async prepare(_ctx, args) {
+    const name = requireArg(args, 'name')
+    return {
+      args: { name, description: args.description?.trim() ?? '' },
+      summary: `Create a board named "${name}"`,
+    }
+  },
+  async execute({ supabase, userId }, args) {
+    const { data, error } = await supabase
+      .from('boards')
+      .insert({
+        name: requireArg(args, 'name'),
+        description: args.description || null,
+        user_id: userId,
+      })
+      .select('id, name')
+      .single()
+
+    if (error) throw error
+    return { result: { boardId: data.id, boardName: data.name }, message: `Created board "${data.name}".` }
+  },
+  async undo({ supabase, userId }, result) {
+    const { error } = await supabase
+      .from('boards')
+      .delete()
+      .eq('id', result.boardId)
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return `Deleted board "${result.boardName}".`
+  },
+}
+
+const savePin: ActionDefinition = {
+  tool: {
+    name: 'save_pin',
+    description: "Save an existing pin to one of the user's boards",
+    parameters: {
+      type: 'object',
+      properties: {
+        pin: { type: 'string', description: 'Pin title or id' },
+        board: { type: 'string', description: 'Board name' },
+      },
+      required: ['pin', 'board'],
+    },
+  },
+  mutates: true,
+  async prepare(ctx, args) {
+    const pinQuery = requireArg(args, 'pin')
+    const board = await findOwnBoard(ctx, requireArg(args, 'board'))
+
+    const { data: pins, error } = await ctx.supabase
+      .from('pins')
+      .select('id, title')
+      .ilike('title', likePattern(pinQuery))
+      .order('created_at', { ascending: false })
+      .limit(1)
+
+    if (error) throw error
+    const pin = pins?.[0]
+    if (!pin) throw new ActionError(`I couldn't find a pin matching "${pinQuery}".`)
+
+    return {
+      args: { pinId: pin.id, pinTitle: pin.title, boardId: board.id, boardName: board.name },
+      summary: `Save "${pin.title}" to "${board.name}"`,
+    }
+  },
+  async execute({ supabase, userId }, args) {
+    // Same rule as saved_pins RLS, checked first so the user gets a readable error
+    const boardId = requireArg(args, 'boardId')
+    const { data: canEdit, error: accessError } = await supabase.rpc('user_can_edit_board', {
+      user_uuid: userId,
+      board_uuid: boardId,
+    })
+
+    if (accessError) throw accessError
+    if (!canEdit) throw new ActionError('You can only save pins to boards you own or edit.')
+
+    const { data, error } = await supabase
+      .from('saved_pins')
+      .insert({ user_id: userId, pin_id: requireArg(args, 'pinId'), board_id: boardId })
+      .select('id')
+      .single()
+
+    if (error?.code === '23505') throw new ActionError('That pin is already saved to this board.')
+    if (error) throw error
+    return {
+      result: { savedPinId: data.id, pinTitle: args.pinTitle, boardName: args.boardName },
+      message: `Saved "${args.pinTitle}" to "${args.boardName}".`,
+    }
+  },
+  async undo({ supabase, userId }, result) {
+    const { error } = await supabase
+      .from('saved_pins')
+      .delete()
+      .eq('id', result.savedPinId)
+      .eq('user_id', userId)
+
+    if (error) throw error
+    return `Removed "${result.pinTitle}" from "${result.boardName}".`
+  },
+}
+
+const searchPins: ActionDefinition = {
+  tool: {
+    name: 'search_pins',
+    description: 'Search pins by their text, board name or author name',
+    parameters: {
+      type: 'object',
+      properties: { query: { type: 'string' } },
+      required: ['query'],
+    },
+  },
+  mutates: false,
+  async prepare(_ctx, args) {
+    const query = requireArg(args, 'query')
+    return { args: { query }, summary: `Search pins for "${query}"` }
+  },
+  async execute({ supabase }, args) {
+    const query = requireArg(args, 'query')
+    const { data, error } = await supabase.rpc('search_pins', {
+      search_query: query,
+      page_size: RESULT_LIMIT,
+    })
+
+    if (error) throw error
+    const pins = (data ?? []).map(({ id, title, image_url }: { id: string; title: string; image_url: string }) => ({
+      id,
+      title,
+      image_url,
+    }))
+    return {
+      result: { pins },
+      message: pins.length
+        ? `Found ${pins.length} ${pins.length === 1 ? 'pin' : 'pins'} for "${query}".`
+        : `No pins matched "${query}".`,
+    }
+  },
+}
+
+const summarizeGroup: ActionDefinition = {
+  tool: {
+    name: 'summarize_group',
+    description: 'Summarize recent messages in a group chat the user belongs to',
+    parameters: {
+      type: 'object',
+      properties: { group: { type: 'string', description: 'Group name' } },
+      required: ['group'],
+    },
+  },
+  mutates: false,
+  async prepare(ctx, args) {
+    const group = await findMemberGroup(ctx, requireArg(args, 'group'))
+    return { args: { groupId: group.id, groupName: group.name }, summary: `Summarize "${group.name}"` }
+  },
+  async execute(ctx, args) {
+    const { data: messages, error } = await ctx.supabase
+      .from('group_messages')
+      .select('content, message_type, user_id, created_at')
+      .eq('group_id', requireArg(args, 'groupId'))
+      .order('created_at', { ascending: false })
+      .limit(SUMMARY_MESSAGE_LIMIT)
+
+    if (error) throw error
+
+    const userIds = [...new Set((messages ?? []).map((message) => message.user_id))]
+    const { data: profiles } = await ctx.supabase
+      .from('profiles')
+      .select('user_id, full_name, email')
+      .in('user_id', userIds)
+
+    const names = new Map((profiles ?? []).map((profile) => [profile.user_id, profile.full_name || profile.email]))
+    const lines = (messages ?? []).reverse().map((message) => ({
+      author: names.get(message.user_id) ?? 'Someone',
+      content: message.content,
+      message_type: message.message_type,
+    }))
+
+    const summary = await ctx.provider.summarize(args.groupName, lines, ctx.onText)
+    return { result: { groupId: args.groupId, summary }, message: summary }
+  },
+}
+
+const inviteUser: ActionDefinition = {
+  tool: {
+    name: 'invite_user',
+    description: 'Add another user to a group the current user administers',
+    parameters: {
+      type: 'object',
+      properties: {
+        user: { type: 'string', description: 'Email address or full name' },
+        group: { type: 'string', description: 'Group name' },
+      },
+      required: ['user', 'group'],
+    },
+  },
+  mutates: true,
+  async prepare(ctx, args) {
+    const group = await findMemberGroup(ctx, requireArg(args, 'group'))
+    if (group.group_members[0]?.role !== 'admin') {
+      throw new ActionError(`Only admins can add people to "${group.name}".`)
+    }
+
+    const who = requireArg(args, 'user')
+    const column = who.includes('@') ? 'email' : 'full_name'
+    const { data: profiles, error } = await ctx.supabase
+      .from('profiles')
+      .select('user_id, full_name, email')
+      .ilike(column, column === 'email' ? who : likePattern(who))
+      .limit(2)
+
+    if (error) throw error
+    if (!profiles?.length) throw new ActionError(`I couldn't find anyone matching "${who}".`)
+    if (profiles.length > 1) throw new ActionError(`More than one person matches "${who}". Try their email address.`)
+
+    const profile = profiles[0]
+    const displayName = profile.full_name || profile.email
+    return {
+      args: { groupId: group.id, groupName: group.name, userId: profile.user_id, userName: displayName },
+      summary: `Add ${displayName} to "${group.name}"`,
+    }
+  },
+  async execute(ctx, args) {
+    const groupId = requireArg(args, 'groupId')
+    await requireGroupAdmin(ctx, groupId, args.groupName)
+
+    const { data, error } = await ctx.supabase
+      .from('group_members')
+      .insert({ group_id: groupId, user_id: requireArg(args, 'userId'), role: 'member' })
+      .select('id')
+      .single()
+
+    if (error?.code === '23505') throw new ActionError(`${args.userName} is already in "${args.groupName}".`)
+    if (error) throw error
+    return {
+      result: { memberId: data.id, userName: args.userName, groupName: args.groupName },
+      message: `Added ${args.userName} to "${args.groupName}".`,
+    }
+  },
+  async undo(ctx, result) {
+    // The group comes from the membership itself, not from the result the client sent
+    const { data: member, error: memberError } = await ctx.supabase
+      .from('group_members')
+      .select('group_id')
+      .eq('id', result.memberId)
+      .maybeSingle()
+
+    if (memberError) throw memberError
+    if (!member) throw new ActionError(`${result.userName} is no longer in "${result.groupName}".`)
+    await requireGroupAdmin(ctx, member.group_id, String(result.groupName))
+
+    const { error } = await ctx.supabase
+      .from('group_members')
+      .delete()
+      .eq('id', result.memberId)
+
+    if (error) throw error
+    return `Removed ${result.userName} from "${result.groupName}".`
+  },
+}
+
+export const actionRegistry: Record<ActionName, ActionDefinition> = {
+  create_board: createBoard,
+  save_pin: savePin,
+  search_pins: searchPins,
+  summarize_group: summarizeGroup,
+  invite_user: inviteUser,
+}
+
+export const actionTools = Object.values(actionRegistry).map((action) => action.tool)
+
+// type comes from the client, so names like "constructor" mustn't reach Object.prototype
+export const getAction = (type: string): ActionDefinition => {
+  if (typeof type !== 'string' || !Object.hasOwn(actionRegistry, type)) {
+    throw new ActionError(`Unknown action "${type}".`)
+  }
+  return actionRegistry[type as ActionName]
+}
@@ -0,0 +1,130 @@
+import { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ActionContext, ActionError } from './actions.ts'
+import { ConversationContext, ConversationTurn } from './providers.ts'
+import { ChatLine } from './intents.ts'
+
+// Turns after the summary are sent verbatim until there are this many,
+// then everything but the most recent CONTEXT_TURNS is folded into the summary
+const SUMMARIZE_AFTER = 24
+const CONTEXT_TURNS = 12
+const MAX_TURN_LENGTH = 2000
+const MAX_TITLE_LENGTH = 60
+
+interface Conversation {
+  id: string
+  summary: string | null
+  summarized_until: string | null
+}
+
+interface StoredTurn extends ConversationTurn {
+  created_at: string
+}
+
+const toChatLine = (turn: ConversationTurn): ChatLine => ({
+  author: turn.role === 'user' ? 'User' : 'Assistant',
+  content: turn.content,
+  message_type: 'text',
+})
+
+// Continue the given conversation, or start one titled after the first message
+export const openConversation = async (
+  { supabase, userId }: ActionContext,
+  conversationId: string | undefined,
+  firstMessage: string,
+): Promise<Conversation> => {
+  if (conversationId) {
+    const { data, error } = await supabase
+      .from('assistant_conversations')
+      .select('id, summary, summarized_until')
+      .eq('id', conversationId)
+      .maybeSingle()
+
+    if (error) throw error
+    if (!data) throw new ActionError('That conversation no longer exists.')
+    return data
+  }
+
+  const { data, error } = await supabase
+    .from('assistant_conversations')
+    .insert({ user_id: userId, title: firstMessage.trim().slice(0, MAX_TITLE_LENGTH) })
+    .select('id, summary, summarized_until')
+    .single()
+
+  if (error) throw error
+  return data
+}
+
+// Everything the model should know about earlier turns, kept within a fixed budget
+export const loadContext = async (ctx: ActionContext, conversation: Conversation): Promise<ConversationContext> => {
+  let query = ctx.supabase
+    .from('assistant_messages')
+    .select('role, content, created_at')
+    .eq('conversation_id', conversation.id)
+    .order('created_at', { ascending: true })
+
+  if (conversation.summarized_until) {
+    query = query.gt('created_at', conversation.summarized_until)
+  }
+
+  const { data, error } = await query
+  if (error) throw error
+
+  const turns: StoredTurn[] = (data ?? []).map((row) => ({
+    ...row,
+    content: row.content.slice(0, MAX_TURN_LENGTH),
+  }))
+
+  if (turns.length <= SUMMARIZE_AFTER) {
+    return { summary: conversation.summary, turns }
+  }
+
+  const older = turns.slice(0, -CONTEXT_TURNS)
+  const lines = older.map(toChatLine)
+  if (conversation.summary) {
+    lines.unshift({ author: 'Earlier summary', content: conversation.summary, message_type: 'text' })
+  }
+
+  const summary = await ctx.provider.summarize('PinBoard assistant', lines)
+  const { error: updateError } = await ctx.supabase
+    .from('assistant_conversations')
+    .update({ summary, summarized_until: older[older.length - 1].created_at })
+    .eq('id', conversation.id)
+
+  if (updateError) throw updateError
+
+  return { summary, turns: turns.slice(-CONTEXT_TURNS) }
+}
+
+// Stores a user's message and the reply to it in one insert, so history never holds a
+// message that wasn't answered. The message keeps the time it arrived.
+export const recordExchange = async (
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  message: { content: string; receivedAt: string },
+  reply: { content: string; data?: Record<string, unknown> },
+) => {
+  const { data, error } = await supabase
+    .from('assistant_messages')
+    .insert([
+      {
+        conversation_id: conversationId,
+        user_id: userId,
+        role: 'user',
+        content: message.content,
+        created_at: message.receivedAt,
+      },
+      {
+        conversation_id: conversationId,
+        user_id: userId,
+        role: 'assistant',
+        content: reply.content,
+        data: reply.data ?? null,
+        created_at: new Date().toISOString(),
+      },
+    ])
+    .select('id, role')
+
+  if (error) throw error
+  return data.find((row) => row.role === 'assistant')!.id as string
+}
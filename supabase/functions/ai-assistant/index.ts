@@ -0,0 +1,315 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient, SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ConversationContext, TextSink, createProvider } from './providers.ts'
+import { HELP_TEXT, formatTemplate } from './intents.ts'
+import { ActionContext, ActionError, ProposedAction, actionTools, getAction } from './actions.ts'
+import { loadContext, openConversation, recordExchange } from './history.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_INVITE_ATTEMPTS = 3
+
+interface AssistantResponse {
+  response: string
+  success: boolean
+  data?: Record<string, unknown>
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Invite codes are random, so retry on the unique constraint instead of checking first
+const createInvite = async (supabase: SupabaseClient, groupId: string, userId: string) => {
+  for (let attempt = 0; attempt < MAX_INVITE_ATTEMPTS; attempt++) {
+    const { data: inviteCode, error: codeError } = await supabase.rpc('generate_invite_code')
+    if (codeError) throw codeError
+
+    const { error } = await supabase
+      .from('group_invites')
+      .insert({
+        group_id: groupId,
+        invite_code: inviteCode,
+        created_by: userId,
+      })
+
+    if (!error) return inviteCode as string
+    if (error.code !== '23505') throw error
+  }
+
+  throw new Error('Could not generate a unique invite code')
+}
+
+// Runs read-only actions directly, and mutating ones once the user confirms them
+const runAction = async (ctx: ActionContext, type: string, args: Record<string, string>): Promise<AssistantResponse> => {
+  const action = getAction(type)
+  const { result, message } = await action.execute(ctx, args ?? {})
+  return {
+    response: message,
+    success: true,
+    data: { actionResult: { type, result, undoable: Boolean(action.undo) } },
+  }
+}
+
+const undoAction = async (ctx: ActionContext, type: string, result: Record<string, unknown>): Promise<AssistantResponse> => {
+  const action = getAction(type)
+  if (!action.undo) throw new ActionError(`"${type}" can't be undone.`)
+  return { response: await action.undo(ctx, result ?? {}), success: true }
+}
+
+// Errors the user can act on become the reply, so they're still recorded in the conversation
+const respond = async (
+  ctx: ActionContext,
+  message: string,
+  context: ConversationContext,
+  origin: string,
+): Promise<AssistantResponse> => {
+  try {
+    const intent = await ctx.provider.interpret(message, actionTools, context, ctx.onText)
+    // Stopped while the model was still writing, so nothing it asked for is carried out
+    if (ctx.signal?.aborted) return { response: '', success: false }
+
+    let result: AssistantResponse
+
+    switch (intent.type) {
+      case 'create_group': {
+        const { data: group, error: groupError } = await ctx.supabase
+          .from('groups')
+          .insert({
+            name: intent.name,
+            description: intent.description ?? null,
+            is_private: intent.isPrivate ?? false,
+            created_by: ctx.userId,
+          })
+          .select('id, name, description, is_private')
+          .single()
+
+        if (groupError) throw groupError
+
+        const inviteCode = await createInvite(ctx.supabase, group.id, ctx.userId)
+        const inviteLink = `${origin}/join/${inviteCode}`
+
+        result = {
+          response: `Done! I created the group "${group.name}". Share the invite link below so others can join.`,
+          success: true,
+          data: { group, inviteLink },
+        }
+        break
+      }
+
+      case 'create_template': {
+        const template = await ctx.provider.writeTemplate(intent.topic)
+        result = {
+          response: formatTemplate(template),
+          success: true,
+          data: { template },
+        }
+        break
+      }
+
+      case 'action': {
+        const action = getAction(intent.action)
+        const { args, summary } = await action.prepare(ctx, intent.args)
+
+        if (!action.mutates) {
+          result = await runAction(ctx, intent.action, args)
+          break
+        }
+
+        // Nothing is written until the client confirms the proposal
+        const proposal: ProposedAction = { id: crypto.randomUUID(), type: intent.action, args, summary }
+        result = {
+          response: 'Here is what I can do. Confirm to go ahead.',
+          success: true,
+          data: { proposedActions: [proposal] },
+        }
+        break
+      }
+
+      case 'help':
+        result = { response: HELP_TEXT, success: true }
+        break
+
+      case 'reply':
+        result = { response: intent.text, success: true }
+        break
+
+      default:
+        result = {
+          response: `Sorry, I didn't understand that. ${HELP_TEXT}`,
+          success: false,
+        }
+    }
+
+    return result
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return { response: error.message, success: false }
+    }
+    throw error
+  }
+}
+
+interface StreamHooks {
+  // Aborted when the client stops reading
+  signal: AbortSignal
+  onConversation(id: string): void
+  onText: TextSink
+}
+
+// Matches what the client shows for a reply the user stopped
+const stoppedReply = (shown: string) => (shown.trim() ? `${shown}\n\n(stopped)` : '(stopped)')
+
+// Records both turns once there's a reply, so a request that fails leaves no unanswered
+// message in history. A stopped reply is stored as far as the client read it, with no
+// data, so a reload never shows text or action cards the user didn't see.
+const handleMessage = async (
+  ctx: ActionContext,
+  message: string,
+  conversationId: string | undefined,
+  origin: string,
+  hooks?: StreamHooks,
+) => {
+  const receivedAt = new Date().toISOString()
+  const conversation = await openConversation(ctx, conversationId, message)
+  hooks?.onConversation(conversation.id)
+
+  let shown = ''
+  const replyCtx: ActionContext = hooks
+    ? {
+      ...ctx,
+      signal: hooks.signal,
+      onText: (text) => {
+        shown += text
+        hooks.onText(text)
+      },
+    }
+    : ctx
+
+  const context = await loadContext(ctx, conversation)
+  const result = await respond(replyCtx, message, context, origin)
+  const stopped = hooks?.signal.aborted ?? false
+
+  // Replies that weren't produced incrementally arrive in one piece
+  if (hooks && !stopped && result.response.startsWith(shown) && result.response.length > shown.length) {
+    replyCtx.onText!(result.response.slice(shown.length))
+  }
+
+  const messageId = await recordExchange(
+    ctx.supabase,
+    ctx.userId,
+    conversation.id,
+    { content: message, receivedAt },
+    stopped ? { content: stoppedReply(shown) } : { content: result.response, data: result.data },
+  )
+
+  return { ...result, conversationId: conversation.id, messageId }
+}
+
+type SendEvent = (event: 'conversation' | 'delta' | 'done' | 'error', payload: unknown) => void
+
+// Server-sent events: any number of deltas, then exactly one done or error.
+// run's signal is aborted when the client disconnects or cancels the body.
+const stream = (request: AbortSignal, run: (send: SendEvent, signal: AbortSignal) => Promise<void>) => {
+  const encoder = new TextEncoder()
+  const stopped = new AbortController()
+  request.addEventListener('abort', () => stopped.abort(), { once: true })
+
+  const body = new ReadableStream({
+    async start(controller) {
+      const send: SendEvent = (event, payload) => {
+        if (stopped.signal.aborted) return
+        controller.enqueue(encoder.encode(`event: ${event}\ndata: ${JSON.stringify(payload)}\n\n`))
+      }
+
+      try {
+        await run(send, stopped.signal)
+      } catch (error) {
+        if (error instanceof ActionError) {
+          send('done', { response: error.message, success: false })
+        } else {
+          console.error('AI assistant error:', error)
+          send('error', { error: 'AI assistant request failed' })
+        }
+      }
+
+      if (!stopped.signal.aborted) controller.close()
+    },
+    cancel() {
+      stopped.abort()
+    },
+  })
+
+  return new Response(body, {
+    headers: { ...corsHeaders, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' },
+  })
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Act as the caller so every write goes through their RLS policies
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } },
+    )
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401)
+    }
+
+    const body = await req.json()
+    const provider = createProvider(Deno.env)
+    const ctx: ActionContext = { supabase, userId: user.id, provider }
+
+    if (body.action) {
+      return json(await runAction(ctx, body.action.type, body.action.args))
+    }
+    if (body.undo) {
+      return json(await undoAction(ctx, body.undo.type, body.undo.result))
+    }
+
+    const { message, conversationId } = body
+    if (typeof message !== 'string' || !message.trim()) {
+      return json({ error: 'Message is required' }, 400)
+    }
+
+    const origin = req.headers.get('origin') ?? Deno.env.get('SITE_URL') ?? ''
+
+    if (!body.stream) {
+      return json(await handleMessage(ctx, message, conversationId, origin))
+    }
+
+    return stream(req.signal, async (send, signal) => {
+      const reply = await handleMessage(ctx, message, conversationId, origin, {
+        signal,
+        onConversation: (id) => send('conversation', { conversationId: id }),
+        onText: (text) => send('delta', { text }),
+      })
+      send('done', reply)
+    })
+
+  } catch (error) {
+    if (error instanceof ActionError) {
+      return json({ response: error.message, success: false })
+    }
+
+    console.error('AI assistant error:', error)
+
+    return json({
+      error: 'AI assistant request failed',
+      details: error.message,
+    }, 500)
+  }
+})
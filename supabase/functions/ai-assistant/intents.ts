@@ -0,0 +1,191 @@
+// Deterministic intent parsing and template generation for the AI assistant.
+// This is the offline fallback for the model provider, so it must never throw.
+
+export type ActionName =
+  | 'create_board'
+  | 'save_pin'
+  | 'search_pins'
+  | 'summarize_group'
+  | 'invite_user'
+
+export type AssistantIntent =
+  | { type: 'create_group'; name: string; description?: string; isPrivate?: boolean }
+  | { type: 'create_template'; topic: string }
+  | { type: 'action'; action: ActionName; args: Record<string, string> }
+  | { type: 'help' }
+  // The model's own answer when no tool fits
+  | { type: 'reply'; text: string }
+  | { type: 'unknown' }
+
+export interface ContentTemplate {
+  topic: string
+  title: string
+  sections: string[]
+  hashtags: string[]
+}
+
+const MAX_NAME_LENGTH = 60
+
+// Strip surrounding quotes and trailing punctuation from a captured name
+const cleanName = (value: string) =>
+  value
+    .trim()
+    .replace(/^["'“‘]+|["'”’]+$/g, '')
+    .replace(/[.!?]+$/, '')
+    .trim()
+    .slice(0, MAX_NAME_LENGTH)
+
+const GROUP_PATTERNS = [
+  /(?:create|make|start|set up|new)\s+(?:a\s+|an\s+)?(?:new\s+)?(private\s+)?group\s+(?:named|called|for)\s+(.+)/i,
+  /(?:create|make|start|set up|new)\s+(?:a\s+|an\s+)?(?:new\s+)?(private\s+)?group\s*[:-]\s*(.+)/i,
+]
+
+const TEMPLATE_PATTERNS = [
+  /(?:make|create|generate|write|give me)\s+(?:a\s+|an\s+)?(?:content\s+)?template\s+(?:for|about|on)\s+(.+)/i,
+  /template\s+(?:for|about|on)\s+(.+)/i,
+]
+
+// Checked in order, so the more specific phrasings come first
+const ACTION_PATTERNS: Array<{ action: ActionName; pattern: RegExp; args: string[] }> = [
+  {
+    action: 'create_board',
+    pattern: /(?:create|make|start|new)\s+(?:a\s+)?(?:new\s+)?board\s+(?:named|called|for)\s+(.+)/i,
+    args: ['name'],
+  },
+  {
+    action: 'invite_user',
+    pattern: /(?:invite|add)\s+(.+?)\s+to\s+(?:the\s+|my\s+)?(?:group\s+)?(.+?)(?:\s+group)?$/i,
+    args: ['user', 'group'],
+  },
+  {
+    action: 'save_pin',
+    pattern: /save\s+(?:the\s+)?(?:pin\s+)?(.+?)\s+(?:to|into|in)\s+(?:my\s+)?(?:board\s+)?(.+?)(?:\s+board)?$/i,
+    args: ['pin', 'board'],
+  },
+  {
+    action: 'summarize_group',
+    pattern: /summar(?:ize|ise|y)\s+(?:of\s+)?(?:the\s+|my\s+)?(?:group\s+chat|group|chat)?\s*(?:for|in|of)?\s*(.+?)(?:\s+(?:group|chat))*$/i,
+    args: ['group'],
+  },
+  {
+    action: 'search_pins',
+    pattern: /(?:search|find|look for|show me)\s+(?:for\s+)?(?:pins?\s+)?(?:about|for|of|with)?\s*(.+)/i,
+    args: ['query'],
+  },
+]
+
+const HELP_PATTERN = /^(?:help|what can you do|\?|hi|hello|hey)\b/i
+
+export const parseIntent = (message: string): AssistantIntent => {
+  const text = message.trim()
+  if (!text) return { type: 'unknown' }
+
+  for (const pattern of GROUP_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      const name = cleanName(match[2])
+      if (name) {
+        return { type: 'create_group', name, isPrivate: Boolean(match[1]) }
+      }
+    }
+  }
+
+  for (const { action, pattern, args } of ACTION_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      const values = args.map((_, index) => cleanName(match[index + 1] ?? ''))
+      if (values.every(Boolean)) {
+        return {
+          type: 'action',
+          action,
+          args: Object.fromEntries(args.map((key, index) => [key, values[index]])),
+        }
+      }
+    }
+  }
+
+  for (const pattern of TEMPLATE_PATTERNS) {
+    const match = text.match(pattern)
+    if (match) {
+      const topic = cleanName(match[1])
+      if (topic) return { type: 'create_template', topic }
+    }
+  }
+
+  if (HELP_PATTERN.test(text)) return { type: 'help' }
+
+  return { type: 'unknown' }
+}
+
+const toHashtag = (word: string) =>
+  '#' + word.toLowerCase().replace(/[^a-z0-9]/g, '')
+
+export const buildTemplate = (topic: string): ContentTemplate => {
+  const title = topic.charAt(0).toUpperCase() + topic.slice(1)
+  const words = topic.split(/\s+/).filter((word) => word.length > 2)
+
+  return {
+    topic,
+    title: `${title}: Board Template`,
+    sections: [
+      `Inspiration: pins that capture the mood of ${topic}`,
+      `How-to: step-by-step guides and tutorials for ${topic}`,
+      `Essentials: tools, products and resources for ${topic}`,
+      `Ideas to try: things you want to do next`,
+    ],
+    hashtags: [...new Set([toHashtag(topic.replace(/\s+/g, '')), ...words.map(toHashtag)])]
+      .filter((tag) => tag.length > 1)
+      .slice(0, 5),
+  }
+}
+
+export const formatTemplate = (template: ContentTemplate): string =>
+  [
+    `Here's a template for "${template.topic}":`,
+    '',
+    template.title,
+    ...template.sections.map((section, index) => `${index + 1}. ${section}`),
+    '',
+    template.hashtags.join(' '),
+  ].join('\n')
+
+export interface ChatLine {
+  author: string
+  content: string
+  message_type: string | null
+}
+
+// Plain-text digest of a group chat for when no model is configured
+export const summarizeChat = (groupName: string, lines: ChatLine[]): string => {
+  if (lines.length === 0) {
+    return `There are no messages in "${groupName}" yet.`
+  }
+
+  const counts = new Map<string, number>()
+  for (const line of lines) {
+    counts.set(line.author, (counts.get(line.author) ?? 0) + 1)
+  }
+  const topPosters = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 3)
+    .map(([author, count]) => `${author} (${count})`)
+
+  const images = lines.filter((line) => line.message_type === 'image').length
+  const links = lines.filter((line) => line.message_type === 'link' || line.message_type === 'pin').length
+  const recent = lines
+    .filter((line) => line.content.trim())
+    .slice(-3)
+    .map((line) => `- ${line.author}: ${line.content.slice(0, 80)}`)
+
+  return [
+    `"${groupName}" has ${lines.length} recent messages from ${counts.size} ${counts.size === 1 ? 'person' : 'people'}.`,
+    `Most active: ${topPosters.join(', ')}.`,
+    images || links ? `Shared ${images} images and ${links} links.` : null,
+    recent.length ? `Latest:\n${recent.join('\n')}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n')
+}
+
+export const HELP_TEXT =
+  "I can create groups and boards, save pins to your boards, search pins, summarize group chats, invite people to your groups and write content templates. Try 'create a board named recipes' or 'search pins for sunsets'."
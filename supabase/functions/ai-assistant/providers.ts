@@ -0,0 +1,329 @@
+import {
+  ActionName,
+  AssistantIntent,
+  ChatLine,
+  ContentTemplate,
+  buildTemplate,
+  parseIntent,
+  summarizeChat,
+} from './intents.ts'
+
+// JSON-schema description of something the model may call
+export interface ToolSpec {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+// Earlier turns of the conversation, already trimmed to fit the model context
+export interface ConversationContext {
+  summary: string | null
+  turns: ConversationTurn[]
+}
+
+// Receives text as the model produces it
+export type TextSink = (text: string) => void
+
+// A model backend turns free text into a structured intent and writes templates.
+// Anything that talks to the network must be wrapped with the rule-based fallback.
+export interface ModelProvider {
+  name: string
+  // onText, when given, receives any answer the model writes instead of calling a tool
+  interpret(
+    message: string,
+    tools: ToolSpec[],
+    context?: ConversationContext,
+    onText?: TextSink,
+  ): Promise<AssistantIntent>
+  writeTemplate(topic: string): Promise<ContentTemplate>
+  // onText, when given, receives the summary incrementally before the promise resolves
+  summarize(groupName: string, lines: ChatLine[], onText?: TextSink): Promise<string>
+}
+
+export class RuleBasedProvider implements ModelProvider {
+  name = 'rules'
+
+  interpret(message: string) {
+    return Promise.resolve(parseIntent(message))
+  }
+
+  writeTemplate(topic: string) {
+    return Promise.resolve(buildTemplate(topic))
+  }
+
+  summarize(groupName: string, lines: ChatLine[]) {
+    return Promise.resolve(summarizeChat(groupName, lines))
+  }
+}
+
+interface ChatCompletionMessage {
+  content: string | null
+  tool_calls?: Array<{ function: { name: string; arguments: string } }>
+}
+
+interface ChatCompletionResponse {
+  choices: Array<{ message: ChatCompletionMessage }>
+}
+
+// Tool calls arrive in pieces too, keyed by their position in the message
+interface ChatCompletionDelta {
+  content?: string | null
+  tool_calls?: Array<{ index: number; function?: { name?: string; arguments?: string } }>
+}
+
+interface ChatCompletionChunk {
+  choices: Array<{ delta?: ChatCompletionDelta }>
+}
+
+// Tools that map onto the built-in intents rather than the action registry
+const BUILTIN_TOOLS: ToolSpec[] = [
+  {
+    name: 'create_group',
+    description: 'Create a new chat group with an invite link',
+    parameters: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        description: { type: 'string' },
+        isPrivate: { type: 'boolean' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'create_template',
+    description: 'Write a content template for a board topic',
+    parameters: {
+      type: 'object',
+      properties: { topic: { type: 'string' } },
+      required: ['topic'],
+    },
+  },
+]
+
+const INTENT_PROMPT = `You are the PinBoard assistant. Call exactly one tool that matches the user's request.
+If no tool fits, answer the user briefly without calling a tool.`
+
+const TEMPLATE_PROMPT = `You write Pinterest-style board templates.
+Reply with JSON only: {"title":string,"sections":string[],"hashtags":string[]}.
+Use 3 to 6 sections and at most 5 hashtags.`
+
+// Any OpenAI-compatible chat completions endpoint
+export class ChatCompletionsProvider implements ModelProvider {
+  name = 'chat-completions'
+
+  constructor(
+    private apiKey: string,
+    private model: string,
+    private baseUrl = 'https://api.openai.com/v1',
+  ) {}
+
+  private async request(body: Record<string, unknown>) {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.apiKey}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ model: this.model, temperature: 0, ...body }),
+    })
+
+    if (!response.ok) {
+      throw new Error(`Model API error: ${response.status}`)
+    }
+
+    return response
+  }
+
+  private async complete(body: Record<string, unknown>) {
+    const response = await this.request(body)
+    const result: ChatCompletionResponse = await response.json()
+    return result.choices[0].message
+  }
+
+  // Yields deltas from the endpoint's server-sent event stream
+  private async *streamComplete(body: Record<string, unknown>): AsyncGenerator<ChatCompletionDelta> {
+    const response = await this.request({ ...body, stream: true })
+    if (!response.body) throw new Error('Model API returned an empty stream')
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+
+    while (true) {
+      const { value, done } = await reader.read()
+      if (done) return
+
+      buffer += value
+      const lines = buffer.split('\n')
+      buffer = lines.pop() ?? ''
+
+      for (const line of lines) {
+        if (!line.startsWith('data:')) continue
+        const payload = line.slice(5).trim()
+        if (payload === '[DONE]') return
+
+        const chunk: ChatCompletionChunk = JSON.parse(payload)
+        const delta = chunk.choices[0]?.delta
+        if (delta) yield delta
+      }
+    }
+  }
+
+  // Assembles a streamed completion into the message complete() would return,
+  // passing its text on as it arrives
+  private async streamMessage(body: Record<string, unknown>, onText: TextSink): Promise<ChatCompletionMessage> {
+    let content = ''
+    const calls: NonNullable<ChatCompletionMessage['tool_calls']> = []
+
+    for await (const delta of this.streamComplete(body)) {
+      if (delta.content) {
+        content += delta.content
+        onText(delta.content)
+      }
+      for (const part of delta.tool_calls ?? []) {
+        const call = (calls[part.index] ??= { function: { name: '', arguments: '' } })
+        call.function.name += part.function?.name ?? ''
+        call.function.arguments += part.function?.arguments ?? ''
+      }
+    }
+
+    return { content, tool_calls: calls.filter(Boolean) }
+  }
+
+  private async completeJson<T>(system: string, user: string): Promise<T> {
+    const message = await this.complete({
+      response_format: { type: 'json_object' },
+      messages: [
+        { role: 'system', content: system },
+        { role: 'user', content: user },
+      ],
+    })
+    return JSON.parse(message.content ?? '') as T
+  }
+
+  async interpret(
+    message: string,
+    tools: ToolSpec[],
+    context?: ConversationContext,
+    onText?: TextSink,
+  ): Promise<AssistantIntent> {
+    const system = context?.summary
+      ? `${INTENT_PROMPT}\n\nSummary of the conversation so far:\n${context.summary}`
+      : INTENT_PROMPT
+
+    const body = {
+      messages: [
+        { role: 'system', content: system },
+        ...(context?.turns ?? []).map(({ role, content }) => ({ role, content })),
+        { role: 'user', content: message },
+      ],
+      tools: [...BUILTIN_TOOLS, ...tools].map((tool) => ({ type: 'function', function: tool })),
+      tool_choice: 'auto',
+    }
+    const reply = onText ? await this.streamMessage(body, onText) : await this.complete(body)
+
+    const call = reply.tool_calls?.[0]?.function
+    if (!call) {
+      return reply.content?.trim() ? { type: 'reply', text: reply.content } : { type: 'unknown' }
+    }
+
+    const args = JSON.parse(call.arguments || '{}')
+
+    if (call.name === 'create_group') {
+      if (!args.name?.trim()) throw new Error('Model returned a group intent without a name')
+      return { type: 'create_group', name: args.name, description: args.description, isPrivate: args.isPrivate }
+    }
+    if (call.name === 'create_template') {
+      if (!args.topic?.trim()) throw new Error('Model returned a template intent without a topic')
+      return { type: 'create_template', topic: args.topic }
+    }
+    if (tools.some((tool) => tool.name === call.name)) {
+      return { type: 'action', action: call.name as ActionName, args }
+    }
+
+    throw new Error(`Model called an unknown tool: ${call.name}`)
+  }
+
+  async writeTemplate(topic: string) {
+    const template = await this.completeJson<Omit<ContentTemplate, 'topic'>>(TEMPLATE_PROMPT, topic)
+    if (!template.title || !Array.isArray(template.sections)) {
+      throw new Error('Model returned a malformed template')
+    }
+    return { ...template, hashtags: template.hashtags ?? [], topic }
+  }
+
+  async summarize(groupName: string, lines: ChatLine[], onText?: TextSink) {
+    if (lines.length === 0) return summarizeChat(groupName, lines)
+
+    const transcript = lines.map((line) => `${line.author}: ${line.content}`).join('\n')
+    const body = {
+      messages: [
+        { role: 'system', content: `Summarize this chat from the group "${groupName}" in at most five short lines.` },
+        { role: 'user', content: transcript },
+      ],
+    }
+
+    const summary = (onText ? await this.streamMessage(body, onText) : await this.complete(body)).content ?? ''
+
+    if (!summary.trim()) throw new Error('Model returned an empty summary')
+    return summary.trim()
+  }
+}
+
+// Try the primary provider, and fall back to the deterministic one on any failure
+export class FallbackProvider implements ModelProvider {
+  constructor(private primary: ModelProvider, private fallback: ModelProvider) {}
+
+  get name() {
+    return this.primary.name
+  }
+
+  async interpret(message: string, tools: ToolSpec[], context?: ConversationContext, onText?: TextSink) {
+    try {
+      return await this.primary.interpret(message, tools, context, onText)
+    } catch (error) {
+      console.warn(`${this.primary.name} failed to interpret message, using ${this.fallback.name}:`, error)
+      return this.fallback.interpret(message, tools, context, onText)
+    }
+  }
+
+  async writeTemplate(topic: string) {
+    try {
+      return await this.primary.writeTemplate(topic)
+    } catch (error) {
+      console.warn(`${this.primary.name} failed to write template, using ${this.fallback.name}:`, error)
+      return this.fallback.writeTemplate(topic)
+    }
+  }
+
+  async summarize(groupName: string, lines: ChatLine[], onText?: TextSink) {
+    try {
+      return await this.primary.summarize(groupName, lines, onText)
+    } catch (error) {
+      console.warn(`${this.primary.name} failed to summarize chat, using ${this.fallback.name}:`, error)
+      return this.fallback.summarize(groupName, lines, onText)
+    }
+  }
+}
+
+// AI_PROVIDER=rules forces the offline backend; otherwise AI_API_KEY enables the model
+export const createProvider = (env: { get(key: string): string | undefined }): ModelProvider => {
+  const rules = new RuleBasedProvider()
+  const apiKey = env.get('AI_API_KEY')
+
+  if (env.get('AI_PROVIDER') === 'rules' || !apiKey) {
+    return rules
+  }
+
+  const model = new ChatCompletionsProvider(
+    apiKey,
+    env.get('AI_MODEL') ?? 'gpt-4o-mini',
+    env.get('AI_API_URL') ?? undefined,
+  )
+  return new FallbackProvider(model, rules)
+}
@@ -0,0 +1,99 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { fetchImage } from '../scrape-url/scrape.ts'
+import { probeImage } from './probe.ts'
+import { blurhashFor } from './placeholder.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+const DEFAULT_BATCH_SIZE = 25
+const MAX_BATCH_SIZE = 100
+
+// Fills in width, height and blurhash for pins created before uploads recorded them.
+// Runs with the service role key, one batch per call, in id order:
+//   { limit?, after? }  ->  { updated, failed, nextCursor }
+// Call again with after = nextCursor until it comes back null. Pins that fail are left
+// NULL and skipped by the cursor, so a fresh run without `after` retries them.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    if (!serviceRoleKey || req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+      return json({ error: 'The backfill needs the service role key' }, 403)
+    }
+
+    const supabase = createClient(Deno.env.get('SUPABASE_URL') ?? '', serviceRoleKey)
+
+    const { limit, after } = await req.json().catch(() => ({}))
+    const batchSize = Math.min(Math.max(Number(limit) || DEFAULT_BATCH_SIZE, 1), MAX_BATCH_SIZE)
+
+    let query = supabase
+      .from('pins')
+      .select('id, image_url')
+      .is('width', null)
+      .order('id')
+      .limit(batchSize)
+    if (typeof after === 'string' && after) {
+      query = query.gt('id', after)
+    }
+
+    const { data: pins, error } = await query
+    if (error) throw error
+
+    let updated = 0
+    const failed: Array<{ id: string; error: string }> = []
+
+    // One at a time: each image can be up to 10MB and the function's memory is small
+    for (const pin of pins ?? []) {
+      try {
+        const image = await fetchImage(pin.image_url)
+        const probed = probeImage(image.bytes, image.contentType)
+        if (!probed) {
+          throw new Error(`Couldn't read the size of a ${image.contentType} image`)
+        }
+
+        const blurhash = await blurhashFor(image.bytes, image.contentType, probed.orientation)
+        const { error: updateError } = await supabase
+          .from('pins')
+          .update({ width: probed.width, height: probed.height, blurhash })
+          .eq('id', pin.id)
+
+        if (updateError) throw updateError
+        updated++
+      } catch (error) {
+        console.error(`Backfill failed for pin ${pin.id}:`, error)
+        failed.push({ id: pin.id, error: error.message })
+      }
+    }
+
+    console.log(`Backfilled ${updated} of ${pins?.length ?? 0} pins`)
+
+    const last = pins?.[pins.length - 1]
+    return json({
+      updated,
+      failed,
+      nextCursor: pins && pins.length === batchSize ? last.id : null,
+    })
+
+  } catch (error) {
+    console.error('Backfill error:', error)
+
+    return json({
+      error: 'Backfill failed',
+      details: error.message,
+    }, 500)
+  }
+})
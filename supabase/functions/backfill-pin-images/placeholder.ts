@@ -0,0 +1,58 @@
+import { decode } from 'https://deno.land/x/imagescript@1.2.17/mod.ts'
+import { encode } from 'https://esm.sh/blurhash@2.0.5'
+
+// Matches the client: a thumbnail at most 32px on its long side, with more components
+// along the longer side. ImageScript only decodes these formats; WebP and AVIF pins get
+// their size from the header and no blurhash.
+const SAMPLE_SIZE = 32
+const DECODABLE = ['image/jpeg', 'image/png', 'image/gif']
+
+// Where the pixel shown at (x, y) sits in the stored image, per EXIF orientation.
+// width and height are the stored image's.
+const sourcePixel = (x: number, y: number, width: number, height: number, orientation: number) => {
+  switch (orientation) {
+    case 2: return [width - 1 - x, y]
+    case 3: return [width - 1 - x, height - 1 - y]
+    case 4: return [x, height - 1 - y]
+    case 5: return [y, x]
+    case 6: return [y, height - 1 - x]
+    case 7: return [width - 1 - y, height - 1 - x]
+    case 8: return [width - 1 - y, x]
+    default: return [x, y]
+  }
+}
+
+// ImageScript ignores EXIF, so the thumbnail is turned the way a browser would show it
+const orient = (pixels: Uint8ClampedArray, width: number, height: number, orientation: number) => {
+  if (orientation <= 1) return { pixels, width, height }
+
+  const [outWidth, outHeight] = orientation >= 5 ? [height, width] : [width, height]
+  const out = new Uint8ClampedArray(outWidth * outHeight * 4)
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      const [sx, sy] = sourcePixel(x, y, width, height, orientation)
+      out.set(pixels.subarray((sy * width + sx) * 4, (sy * width + sx) * 4 + 4), (y * outWidth + x) * 4)
+    }
+  }
+  return { pixels: out, width: outWidth, height: outHeight }
+}
+
+// null when the format can't be decoded here or the file turns out to be damaged
+export const blurhashFor = async (bytes: Uint8Array, contentType: string, orientation: number) => {
+  if (!DECODABLE.includes(contentType)) return null
+
+  try {
+    // A GIF's first frame stands in for the animation
+    const image = await decode(bytes, true)
+    const scale = SAMPLE_SIZE / Math.max(image.width, image.height)
+    if (scale < 1) {
+      image.resize(Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)))
+    }
+
+    const { pixels, width, height } = orient(image.bitmap, image.width, image.height, orientation)
+    return encode(pixels, width, height, width >= height ? 4 : 3, width >= height ? 3 : 4)
+  } catch (error) {
+    console.error('Blurhash error:', error)
+    return null
+  }
+}
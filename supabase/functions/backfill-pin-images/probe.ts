@@ -0,0 +1,136 @@
+// Reads an image's size from its header, without decoding it. Works for every format the
+// upload pipeline accepts, including the WebP and AVIF files there's no decoder for here.
+
+export interface ProbedImage {
+  // As displayed, i.e. after the EXIF orientation is applied
+  width: number
+  height: number
+  // EXIF orientation, 1 to 8; 1 when the file doesn't say
+  orientation: number
+}
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end))
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+
+// Orientations 5 to 8 turn the image a quarter, so width and height trade places
+const oriented = (width: number, height: number, orientation: number): ProbedImage =>
+  orientation >= 5 ? { width: height, height: width, orientation } : { width, height, orientation }
+
+const probePng = (bytes: Uint8Array) => {
+  const data = view(bytes)
+  return oriented(data.getUint32(16), data.getUint32(20), 1)
+}
+
+const probeGif = (bytes: Uint8Array) => {
+  const data = view(bytes)
+  return oriented(data.getUint16(6, true), data.getUint16(8, true), 1)
+}
+
+// The orientation tag in IFD0 of an APP1 Exif segment starting at `start`
+const exifOrientation = (bytes: Uint8Array, start: number) => {
+  if (ascii(bytes, start, start + 4) !== 'Exif') return 1
+  const tiff = start + 6
+  const data = view(bytes)
+  const little = ascii(bytes, tiff, tiff + 2) === 'II'
+  const ifd = tiff + data.getUint32(tiff + 4, little)
+  const entries = data.getUint16(ifd, little)
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12
+    if (data.getUint16(entry, little) === 0x0112) {
+      const value = data.getUint16(entry + 8, little)
+      return value >= 1 && value <= 8 ? value : 1
+    }
+  }
+  return 1
+}
+
+const probeJpeg = (bytes: Uint8Array) => {
+  const data = view(bytes)
+  let orientation = 1
+  let offset = 2
+
+  while (offset + 9 < bytes.length) {
+    if (bytes[offset] !== 0xff) return null
+    const marker = bytes[offset + 1]
+    // Fill bytes before a marker
+    if (marker === 0xff) {
+      offset++
+      continue
+    }
+
+    const length = data.getUint16(offset + 2)
+    if (marker === 0xe1) {
+      orientation = exifOrientation(bytes, offset + 4)
+    }
+    // Any start-of-frame; C4, C8 and CC share the range but are other segments
+    if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+      return oriented(data.getUint16(offset + 7), data.getUint16(offset + 5), orientation)
+    }
+    // Image data follows start-of-scan, and the frame header always comes before it
+    if (marker === 0xda) return null
+    offset += 2 + length
+  }
+  return null
+}
+
+const probeWebp = (bytes: Uint8Array) => {
+  const data = view(bytes)
+  const chunk = ascii(bytes, 12, 16)
+  if (chunk === 'VP8 ') {
+    return oriented(data.getUint16(26, true) & 0x3fff, data.getUint16(28, true) & 0x3fff, 1)
+  }
+  if (chunk === 'VP8L') {
+    const bits = data.getUint32(21, true)
+    return oriented((bits & 0x3fff) + 1, ((bits >> 14) & 0x3fff) + 1, 1)
+  }
+  if (chunk === 'VP8X') {
+    const width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16))
+    const height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16))
+    return oriented(width, height, 1)
+  }
+  return null
+}
+
+// AVIF keeps the size in an 'ispe' property and any rotation in 'irot'. Looking for the
+// box names is cruder than walking the box tree, but they don't turn up by accident in
+// the header's first few kilobytes.
+const findBox = (bytes: Uint8Array, name: string) => {
+  const limit = Math.min(bytes.length - 4, 64 * 1024)
+  for (let i = 4; i < limit; i++) {
+    if (ascii(bytes, i, i + 4) === name) return i
+  }
+  return -1
+}
+
+const probeAvif = (bytes: Uint8Array) => {
+  const ispe = findBox(bytes, 'ispe')
+  if (ispe < 0 || ispe + 16 > bytes.length) return null
+  const data = view(bytes)
+  const width = data.getUint32(ispe + 8)
+  const height = data.getUint32(ispe + 12)
+
+  const irot = findBox(bytes, 'irot')
+  const quarterTurns = irot < 0 ? 0 : bytes[irot + 4] & 3
+  return quarterTurns % 2 === 1 ? { width: height, height: width, orientation: 1 } : oriented(width, height, 1)
+}
+
+const PROBES: Record<string, (bytes: Uint8Array) => ProbedImage | null> = {
+  'image/png': probePng,
+  'image/gif': probeGif,
+  'image/jpeg': probeJpeg,
+  'image/webp': probeWebp,
+  'image/avif': probeAvif,
+}
+
+// null when the header is truncated or doesn't make sense
+export const probeImage = (bytes: Uint8Array, contentType: string): ProbedImage | null => {
+  try {
+    const probed = PROBES[contentType]?.(bytes) ?? null
+    return probed && probed.width > 0 && probed.height > 0 ? probed : null
+  } catch {
+    // DataView reads past the end throw RangeError
+    return null
+  }
+}
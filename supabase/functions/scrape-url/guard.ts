@@ -0,0 +1,167 @@
+// Keeps server-side fetches pointed at the public internet. Every URL, including each
+// redirect hop, must be http(s) on a default port and resolve only to public addresses.
+//
+// The hostname is resolved here and again by fetch, so a DNS server answering differently
+// the second time (rebinding) is not caught. Redirects, literal IPs and ordinary private
+// hostnames are.
+
+// Errors whose message is safe to show the user verbatim
+export class ScrapeError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message)
+  }
+}
+
+export type ResolveHost = (hostname: string) => Promise<string[]>
+
+export interface GuardOptions {
+  resolveHost?: ResolveHost
+  // Lifts the address and port checks, for pointing the scraper at a local fixture server
+  allowLocalNetwork?: boolean
+}
+
+const BLOCKED_HOST_SUFFIXES = ['.localhost', '.local', '.internal', '.home.arpa']
+
+// [network, prefix length]
+const BLOCKED_IPV4: Array<[string, number]> = [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+]
+
+const parseIPv4 = (address: string): number | null => {
+  const parts = address.split('.')
+  if (parts.length !== 4 || parts.some((part) => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null
+  }
+  return parts.reduce((value, part) => value * 256 + Number(part), 0)
+}
+
+const ipv4InRange = (value: number, [network, prefix]: [string, number]) => {
+  const size = 2 ** (32 - prefix)
+  const start = parseIPv4(network)!
+  return value >= start && value < start + size
+}
+
+// Expands an IPv6 address into its eight 16-bit groups, or null if it isn't one
+const parseIPv6 = (address: string): number[] | null => {
+  let text = address.toLowerCase().replace(/%.*$/, '')
+
+  // A trailing dotted quad, as in ::ffff:10.0.0.1
+  const dotted = text.match(/^(.*:)(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const value = parseIPv4(dotted[2])
+    if (value === null) return null
+    text = `${dotted[1]}${(value >>> 16).toString(16)}:${(value & 0xffff).toString(16)}`
+  }
+
+  const halves = text.split('::')
+  if (halves.length > 2) return null
+
+  const head = halves[0] ? halves[0].split(':') : []
+  const tail = halves.length === 2 && halves[1] ? halves[1].split(':') : []
+  const missing = 8 - head.length - tail.length
+  if (halves.length === 1 ? missing !== 0 : missing < 1) return null
+
+  const groups = [...head, ...Array(halves.length === 2 ? missing : 0).fill('0'), ...tail]
+  if (groups.some((group) => !/^[0-9a-f]{1,4}$/.test(group))) return null
+  return groups.map((group) => parseInt(group, 16))
+}
+
+const isBlockedIPv4 = (value: number) => BLOCKED_IPV4.some((range) => ipv4InRange(value, range))
+
+const isBlockedIPv6 = (groups: number[]) => {
+  const embeddedIPv4 = (high: number, low: number) => isBlockedIPv4(high * 65536 + low)
+
+  if (groups.every((group) => group === 0)) return true // ::
+  if (groups.slice(0, 7).every((group) => group === 0) && groups[7] === 1) return true // ::1
+  if ((groups[0] & 0xfe00) === 0xfc00) return true // fc00::/7 unique local
+  if ((groups[0] & 0xffc0) === 0xfe80) return true // fe80::/10 link local
+  if ((groups[0] & 0xff00) === 0xff00) return true // ff00::/8 multicast
+  if (groups[0] === 0x2001 && groups[1] === 0x0db8) return true // 2001:db8::/32 documentation
+
+  // Addresses that carry an IPv4 address are as public as the address they carry
+  if (groups.slice(0, 5).every((group) => group === 0) && (groups[5] === 0xffff || groups[5] === 0)) {
+    return embeddedIPv4(groups[6], groups[7]) // ::ffff:a.b.c.d and the deprecated ::a.b.c.d
+  }
+  if (groups[0] === 0x64 && groups[1] === 0xff9b) return embeddedIPv4(groups[6], groups[7]) // NAT64
+  if (groups[0] === 0x2002) return embeddedIPv4(groups[1], groups[2]) // 6to4
+
+  return false
+}
+
+export const isBlockedAddress = (address: string) => {
+  const ipv4 = parseIPv4(address)
+  if (ipv4 !== null) return isBlockedIPv4(ipv4)
+
+  const ipv6 = parseIPv6(address)
+  if (ipv6 !== null) return isBlockedIPv6(ipv6)
+
+  // Not an address we understand, so not one we'll connect to
+  return true
+}
+
+const resolveWithDns: ResolveHost = async (hostname) => {
+  const lookups = await Promise.allSettled([
+    Deno.resolveDns(hostname, 'A'),
+    Deno.resolveDns(hostname, 'AAAA'),
+  ])
+  return lookups.flatMap((lookup) => (lookup.status === 'fulfilled' ? lookup.value : []))
+}
+
+// Parses and checks a URL before anything connects to it
+export const assertPublicUrl = async (raw: string, options: GuardOptions = {}): Promise<URL> => {
+  let url: URL
+  try {
+    url = new URL(raw)
+  } catch {
+    throw new ScrapeError('That doesn\'t look like a valid URL')
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ScrapeError('Only http and https links are supported')
+  }
+  if (url.username || url.password) {
+    throw new ScrapeError('Links with credentials aren\'t supported')
+  }
+
+  if (options.allowLocalNetwork) return url
+
+  if (url.port && url.port !== '80' && url.port !== '443') {
+    throw new ScrapeError('Links on non-standard ports aren\'t supported')
+  }
+
+  // URL keeps the brackets around IPv6 literals
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase()
+  if (
+    hostname === 'localhost' ||
+    BLOCKED_HOST_SUFFIXES.some((suffix) => hostname.endsWith(suffix)) ||
+    (!hostname.includes('.') && !hostname.includes(':'))
+  ) {
+    throw new ScrapeError('That address isn\'t reachable from here')
+  }
+
+  const isLiteral = parseIPv4(hostname) !== null || parseIPv6(hostname) !== null
+  const addresses = isLiteral ? [hostname] : await (options.resolveHost ?? resolveWithDns)(hostname)
+
+  if (addresses.length === 0) {
+    throw new ScrapeError('Couldn\'t find that website')
+  }
+  if (addresses.some(isBlockedAddress)) {
+    throw new ScrapeError('That address isn\'t reachable from here')
+  }
+
+  return url
+}
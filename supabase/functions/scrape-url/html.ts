@@ -0,0 +1,186 @@
+// Pulls the bits of a page worth pinning out of its HTML. Pages are scanned with a few
+// regular expressions rather than a DOM: we only read attributes of void-ish tags and the
+// title, and a tolerant scan copes better with the broken markup found in the wild.
+
+export type ImageSource = 'og' | 'twitter' | 'link' | 'img'
+
+export interface ScrapedImage {
+  url: string
+  source: ImageSource
+  width?: number
+  height?: number
+  alt?: string
+}
+
+export interface PageMetadata {
+  title?: string
+  description?: string
+  siteName?: string
+  images: ScrapedImage[]
+}
+
+const MAX_IMAGES = 24
+// Images that say they are smaller than this are icons, spacers or tracking pixels
+const MIN_IMAGE_SIDE = 100
+
+const TAG = /<(meta|link|img|base)\b([^>]*)>/gi
+const ATTRIBUTE = /([^\s=/"'>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: '\'',
+  nbsp: ' ',
+}
+
+export const decodeEntities = (text: string) =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1] === 'x' || entity[1] === 'X'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10)
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match
+  })
+
+const parseAttributes = (text: string) => {
+  const attributes: Record<string, string> = {}
+  for (const [, name, double, single, bare] of text.matchAll(ATTRIBUTE)) {
+    const key = name.toLowerCase()
+    if (!(key in attributes)) {
+      attributes[key] = decodeEntities(double ?? single ?? bare ?? '')
+    }
+  }
+  return attributes
+}
+
+const clean = (text?: string) => {
+  const collapsed = text?.replace(/\s+/g, ' ').trim()
+  return collapsed || undefined
+}
+
+const toSize = (value?: string) => {
+  const size = parseInt(value ?? '', 10)
+  return Number.isFinite(size) && size > 0 ? size : undefined
+}
+
+// The widest candidate in a srcset, or the last one when there are no width descriptors
+const largestFromSrcset = (srcset: string) => {
+  let best: { url: string; width: number } | undefined
+  for (const candidate of srcset.split(/,\s+/)) {
+    const [url, descriptor = ''] = candidate.trim().split(/\s+/)
+    if (!url) continue
+    const width = descriptor.endsWith('w') ? parseInt(descriptor, 10) || 0 : 0
+    if (!best || width >= best.width) best = { url, width }
+  }
+  return best?.url
+}
+
+export const extractPageMetadata = (html: string, pageUrl: string): PageMetadata => {
+  const meta: Record<string, string> = {}
+  const images: ScrapedImage[] = []
+  const seen = new Set<string>()
+  let base = pageUrl
+
+  const resolve = (value?: string) => {
+    if (!value) return undefined
+    try {
+      const url = new URL(value.trim(), base)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return undefined
+      url.hash = ''
+      return url.href
+    } catch {
+      return undefined
+    }
+  }
+
+  const addImage = (image: Omit<ScrapedImage, 'url'> & { url?: string }) => {
+    const url = resolve(image.url)
+    if (!url || seen.has(url) || /\.svgz?(\?|$)/i.test(url)) return
+    if (image.width !== undefined && image.width < MIN_IMAGE_SIDE) return
+    if (image.height !== undefined && image.height < MIN_IMAGE_SIDE) return
+    seen.add(url)
+    images.push({ ...image, url })
+  }
+
+  const pageImages: ScrapedImage[] = []
+  const linkImages: string[] = []
+  let ogImage: Partial<ScrapedImage> | undefined
+  const ogImages: Partial<ScrapedImage>[] = []
+
+  for (const [, tag, rawAttributes] of html.matchAll(TAG)) {
+    const attributes = parseAttributes(rawAttributes)
+
+    switch (tag.toLowerCase()) {
+      case 'base': {
+        const href = resolve(attributes.href)
+        if (href) base = href
+        break
+      }
+
+      case 'meta': {
+        const key = (attributes.property ?? attributes.name ?? '').toLowerCase()
+        const content = attributes.content
+        if (!key || content === undefined) break
+
+        // og:image:width and friends describe the og:image before them
+        if (key === 'og:image' || key === 'og:image:url' || key === 'og:image:secure_url') {
+          if (!ogImage || (ogImage.url && key === 'og:image')) {
+            ogImage = {}
+            ogImages.push(ogImage)
+          }
+          if (!ogImage.url || key === 'og:image:secure_url') ogImage.url = content
+        } else if (key === 'og:image:width' && ogImage) {
+          ogImage.width = toSize(content)
+        } else if (key === 'og:image:height' && ogImage) {
+          ogImage.height = toSize(content)
+        } else if (key === 'og:image:alt' && ogImage) {
+          ogImage.alt = clean(content)
+        } else if (!(key in meta)) {
+          meta[key] = content
+        }
+        break
+      }
+
+      case 'link': {
+        const rel = (attributes.rel ?? '').toLowerCase().split(/\s+/)
+        if (rel.includes('image_src')) linkImages.push(attributes.href)
+        break
+      }
+
+      case 'img': {
+        const src = attributes['data-src']
+          ?? attributes['data-lazy-src']
+          ?? (attributes.srcset ? largestFromSrcset(attributes.srcset) : undefined)
+          ?? attributes.src
+        if (!src || /^(data|blob):/i.test(src)) break
+        pageImages.push({
+          url: src,
+          source: 'img',
+          width: toSize(attributes.width),
+          height: toSize(attributes.height),
+          alt: clean(attributes.alt),
+        })
+        break
+      }
+    }
+  }
+
+  // Most specific first: what the page asks to be shared as, then everything on it
+  for (const image of ogImages) addImage({ ...image, source: 'og' })
+  addImage({ url: meta['twitter:image'] ?? meta['twitter:image:src'], source: 'twitter' })
+  for (const href of linkImages) addImage({ url: href, source: 'link' })
+  for (const image of pageImages) addImage(image)
+
+  const title = html.match(/<title\b[^>]*>([\s\S]*?)<\/title>/i)?.[1]
+
+  return {
+    title: clean(meta['og:title'] ?? meta['twitter:title'] ?? (title && decodeEntities(title))),
+    description: clean(meta['og:description'] ?? meta['twitter:description'] ?? meta.description),
+    siteName: clean(meta['og:site_name']),
+    images: images.slice(0, MAX_IMAGES),
+  }
+}
@@ -0,0 +1,75 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { ScrapeError } from './guard.ts'
+import { importImage, scrapePage } from './scrape.ts'
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+    status,
+  })
+
+// Two requests:
+//   { url }            fetch a page and return its title, description and candidate images
+//   { url, imageUrl }  fetch one of that page's candidate images and return its bytes, with
+//                      the sniffed type in X-Image-Type. The client stores it like any other
+//                      upload, so it's re-encoded and measured the same way.
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders })
+  }
+
+  try {
+    // Only signed-in users may have the function fetch things for them
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_ANON_KEY') ?? '',
+      { global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } } },
+    )
+
+    const { data: { user } } = await supabase.auth.getUser()
+    if (!user) {
+      return json({ error: 'Not authenticated' }, 401)
+    }
+
+    const { url, imageUrl } = await req.json()
+
+    if (typeof url !== 'string' || !url.trim()) {
+      return json({ error: 'A url is required' }, 400)
+    }
+
+    if (typeof imageUrl === 'string' && imageUrl.trim()) {
+      const image = await importImage(url.trim(), imageUrl.trim())
+
+      // supabase-js only hands binary bodies back as a Blob when they're octet-stream
+      return new Response(image.bytes, {
+        headers: {
+          ...corsHeaders,
+          'Access-Control-Expose-Headers': 'X-Image-Type',
+          'Content-Type': 'application/octet-stream',
+          'X-Image-Type': image.contentType,
+        },
+      })
+    }
+
+    return json(await scrapePage(url.trim()))
+
+  } catch (error) {
+    if (error instanceof ScrapeError) {
+      return json({ error: error.message }, error.status)
+    }
+
+    console.error('Scrape error:', error)
+
+    return json({
+      error: 'Couldn\'t load that link',
+      details: error.message,
+    }, 500)
+  }
+})
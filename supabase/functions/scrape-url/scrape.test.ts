@@ -0,0 +1,221 @@
+import { assertEquals, assertRejects } from 'https://deno.land/std@0.168.0/testing/asserts.ts'
+import { ScrapeError } from './guard.ts'
+import { ScrapeOptions, fetchImage, importImage, scrapePage } from './scrape.ts'
+
+const PNG = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13])
+const GIF = new TextEncoder().encode('GIF89a\x01\x00\x01\x00')
+const TEN_MB = 10 * 1024 * 1024
+
+const PAGE = `<!doctype html>
+<html><head>
+  <title>Fixture page</title>
+  <meta property="og:image" content="/photo.png">
+  <meta property="og:description" content="A page served by the test">
+</head><body><img src="/inline.gif" width="400" height="300"></body></html>`
+
+const padded = (bytes: Uint8Array, size: number) => {
+  const body = new Uint8Array(size)
+  body.set(bytes)
+  return body
+}
+
+// The fixture site. Pages link and redirect to each other by path, and /redirect sends
+// the client wherever ?to= says.
+const handle = (request: Request) => {
+  const url = new URL(request.url)
+  switch (url.pathname) {
+    case '/page':
+      return new Response(PAGE, { headers: { 'Content-Type': 'text/html; charset=utf-8' } })
+    case '/long-page':
+      // The meta tags come first and the rest is past the page limit
+      return new Response(PAGE + ' '.repeat(3 * 1024 * 1024), { headers: { 'Content-Type': 'text/html' } })
+    case '/photo.png':
+      // Servers mislabel images; the bytes decide
+      return new Response(PNG, { headers: { 'Content-Type': 'application/octet-stream' } })
+    case '/inline.gif':
+      return new Response(GIF, { headers: { 'Content-Type': 'image/gif' } })
+    case '/not-an-image.png':
+      return new Response('<svg xmlns="http://www.w3.org/2000/svg"><script>alert(1)</script></svg>', {
+        headers: { 'Content-Type': 'image/png' },
+      })
+    case '/huge.png':
+      return new Response(padded(PNG, TEN_MB + 1), { headers: { 'Content-Type': 'image/png' } })
+    case '/huge-stream.png': {
+      // No Content-Length, so only counting the bytes catches it
+      let sent = 0
+      const chunk = padded(PNG, 1024 * 1024)
+      return new Response(
+        new ReadableStream({
+          pull(controller) {
+            if (sent > TEN_MB) return controller.close()
+            controller.enqueue(chunk)
+            sent += chunk.length
+          },
+        }),
+        { headers: { 'Content-Type': 'image/png' } },
+      )
+    }
+    case '/file.pdf':
+      return new Response('%PDF-1.4', { headers: { 'Content-Type': 'application/pdf' } })
+    case '/redirect':
+      return new Response(null, { status: 302, headers: { Location: url.searchParams.get('to')! } })
+    case '/redirect-loop':
+      return new Response(null, { status: 301, headers: { Location: '/redirect-loop' } })
+    default:
+      return new Response('Not found', { status: 404 })
+  }
+}
+
+interface Fixture {
+  // Requests the site stands in for: fixture.test resolves to a public address, and its
+  // requests are sent to the local server
+  options: ScrapeOptions
+  // Every URL the scraper actually fetched
+  requested: string[]
+}
+
+// AbortSignal.timeout leaves its timer running past the end of each test
+const fixtureTest = (name: string, run: (fixture: Fixture) => Promise<void>) =>
+  Deno.test({ name, sanitizeOps: false }, async () => {
+    const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, handle)
+    const requested: string[] = []
+    const options: ScrapeOptions = {
+      resolveHost: (hostname) => Promise.resolve(hostname === 'fixture.test' ? ['93.184.216.34'] : []),
+      fetch: (input, init) => {
+        const url = new URL(input instanceof Request ? input.url : input)
+        requested.push(url.href)
+        return fetch(`http://127.0.0.1:${server.addr.port}${url.pathname}${url.search}`, init)
+      },
+    }
+
+    try {
+      await run({ options, requested })
+    } finally {
+      await server.shutdown()
+    }
+  })
+
+fixtureTest('scrapes a page and resolves its images against the final URL', async ({ options }) => {
+  const page = await scrapePage('http://fixture.test/redirect?to=/page', options)
+
+  assertEquals(page.url, 'http://fixture.test/page')
+  assertEquals(page.title, 'Fixture page')
+  assertEquals(page.description, 'A page served by the test')
+  assertEquals(page.images.map((image) => image.url), [
+    'http://fixture.test/photo.png',
+    'http://fixture.test/inline.gif',
+  ])
+})
+
+fixtureTest('a direct image link is a page with one candidate', async ({ options }) => {
+  const page = await scrapePage('http://fixture.test/inline.gif', options)
+
+  assertEquals(page.images, [{ url: 'http://fixture.test/inline.gif', source: 'img' }])
+})
+
+fixtureTest('pages past the size limit are cut off, not refused', async ({ options }) => {
+  const page = await scrapePage('http://fixture.test/long-page', options)
+
+  assertEquals(page.title, 'Fixture page')
+})
+
+fixtureTest('links that are neither pages nor images are refused', async ({ options }) => {
+  await assertRejects(() => scrapePage('http://fixture.test/file.pdf', options), ScrapeError, 'isn\'t a web page')
+})
+
+fixtureTest('redirects to private addresses are refused before they are followed', async ({ options, requested }) => {
+  for (const target of [
+    'http://10.0.0.1/',
+    'http://169.254.169.254/latest/meta-data/',
+    'http://localhost/',
+    'http://[::1]/',
+    'http://[fd00::1]/',
+    'http://[::ffff:127.0.0.1]/',
+    'http://[::ffff:a00:1]/',
+    'http://[64:ff9b::a9fe:a9fe]/',
+  ]) {
+    requested.length = 0
+    await assertRejects(
+      () => scrapePage(`http://fixture.test/redirect?to=${encodeURIComponent(target)}`, options),
+      ScrapeError,
+      'isn\'t reachable',
+      target,
+    )
+    assertEquals(requested.length, 1, target)
+  }
+})
+
+fixtureTest('redirects to hosts that resolve privately are refused', async ({ options, requested }) => {
+  const resolveHost = (hostname: string) =>
+    Promise.resolve(hostname === 'fixture.test' ? ['93.184.216.34'] : ['::ffff:192.168.0.10'])
+
+  await assertRejects(
+    () => scrapePage('http://fixture.test/redirect?to=http://router.example/', { ...options, resolveHost }),
+    ScrapeError,
+    'isn\'t reachable',
+  )
+  assertEquals(requested, ['http://fixture.test/redirect?to=http://router.example/'])
+})
+
+fixtureTest('redirects to other ports are refused', async ({ options }) => {
+  await assertRejects(
+    () => scrapePage('http://fixture.test/redirect?to=http://fixture.test:8080/page', options),
+    ScrapeError,
+    'non-standard ports',
+  )
+})
+
+fixtureTest('redirect loops give up', async ({ options }) => {
+  await assertRejects(() => scrapePage('http://fixture.test/redirect-loop', options), ScrapeError, 'Too many redirects')
+})
+
+fixtureTest('images are recognised by their bytes, not their Content-Type', async ({ options }) => {
+  const image = await fetchImage('http://fixture.test/photo.png', options)
+
+  assertEquals(image.contentType, 'image/png')
+  assertEquals(image.extension, 'png')
+  assertEquals(image.bytes, PNG)
+
+  await assertRejects(
+    () => fetchImage('http://fixture.test/not-an-image.png', options),
+    ScrapeError,
+    'isn\'t a supported image',
+  )
+})
+
+fixtureTest('images over the size limit are refused', async ({ options }) => {
+  const tooLarge = (url: string) =>
+    assertRejects(() => fetchImage(url, options), ScrapeError, 'too large').then((error) =>
+      assertEquals((error as ScrapeError).status, 413)
+    )
+
+  await tooLarge('http://fixture.test/huge.png')
+  await tooLarge('http://fixture.test/huge-stream.png')
+})
+
+fixtureTest('only images found on the page can be imported', async ({ options, requested }) => {
+  const image = await importImage('http://fixture.test/page', 'http://fixture.test/inline.gif', options)
+  assertEquals(image.contentType, 'image/gif')
+
+  requested.length = 0
+  await assertRejects(
+    () => importImage('http://fixture.test/page', 'http://fixture.test/huge.png', options),
+    ScrapeError,
+    'isn\'t on the page',
+  )
+  assertEquals(requested, ['http://fixture.test/page'])
+})
+
+Deno.test({ name: 'allowLocalNetwork lets the scraper reach a local server directly', sanitizeOps: false }, async () => {
+  const server = Deno.serve({ hostname: '127.0.0.1', port: 0, onListen() {} }, handle)
+  const origin = `http://127.0.0.1:${server.addr.port}`
+
+  try {
+    await assertRejects(() => scrapePage(`${origin}/page`), ScrapeError, 'non-standard ports')
+
+    const page = await scrapePage(`${origin}/page`, { allowLocalNetwork: true })
+    assertEquals(page.images[0].url, `${origin}/photo.png`)
+  } finally {
+    await server.shutdown()
+  }
+})
@@ -0,0 +1,183 @@
+import { GuardOptions, ScrapeError, assertPublicUrl } from './guard.ts'
+import { PageMetadata, extractPageMetadata } from './html.ts'
+
+// Everything the network side needs is injectable, so the scraper can be exercised
+// against a local fixture server with allowLocalNetwork and a plain fetch.
+export interface ScrapeOptions extends GuardOptions {
+  fetch?: typeof fetch
+  timeoutMs?: number
+}
+
+export interface ScrapedPage extends PageMetadata {
+  // Where the page ended up after redirects
+  url: string
+}
+
+export interface FetchedImage {
+  bytes: Uint8Array
+  contentType: string
+  extension: string
+}
+
+const MAX_REDIRECTS = 5
+const DEFAULT_TIMEOUT_MS = 8000
+// Meta tags live in the head, so a page's first couple of megabytes is plenty
+const MAX_PAGE_BYTES = 2 * 1024 * 1024
+const MAX_IMAGE_BYTES = 10 * 1024 * 1024
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; PinPreviewBot/1.0)'
+
+// Recognised by their first bytes rather than the Content-Type header, which servers get
+// wrong often enough. SVG is deliberately absent: it can carry script.
+const IMAGE_SIGNATURES: Array<{ contentType: string; extension: string; matches: (bytes: Uint8Array) => boolean }> = [
+  { contentType: 'image/jpeg', extension: 'jpg', matches: (b) => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { contentType: 'image/png', extension: 'png', matches: (b) => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { contentType: 'image/gif', extension: 'gif', matches: (b) => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 },
+  {
+    contentType: 'image/webp',
+    extension: 'webp',
+    matches: (b) => ascii(b, 0, 4) === 'RIFF' && ascii(b, 8, 12) === 'WEBP',
+  },
+  {
+    contentType: 'image/avif',
+    extension: 'avif',
+    matches: (b) => ascii(b, 4, 8) === 'ftyp' && ['avif', 'avis'].includes(ascii(b, 8, 12)),
+  },
+]
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end))
+
+export const sniffImage = (bytes: Uint8Array) =>
+  IMAGE_SIGNATURES.find((signature) => signature.matches(bytes))
+
+// Follows redirects by hand so every hop goes through the guard
+const guardedFetch = async (raw: string, accept: string, options: ScrapeOptions, signal: AbortSignal) => {
+  const doFetch = options.fetch ?? fetch
+  let url = await assertPublicUrl(raw, options)
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    let response: Response
+    try {
+      response = await doFetch(url.href, {
+        redirect: 'manual',
+        signal,
+        headers: { 'User-Agent': USER_AGENT, Accept: accept },
+      })
+    } catch (error) {
+      if (signal.aborted) throw new ScrapeError('The website took too long to respond', 504)
+      console.error('Scrape fetch error:', error)
+      throw new ScrapeError('Couldn\'t reach that website', 502)
+    }
+
+    if (response.status >= 300 && response.status < 400 && response.headers.has('location')) {
+      await response.body?.cancel()
+      url = await assertPublicUrl(new URL(response.headers.get('location')!, url).href, options)
+      continue
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel()
+      throw new ScrapeError(`The website responded with an error (${response.status})`, 502)
+    }
+
+    return { response, url }
+  }
+
+  throw new ScrapeError('Too many redirects', 502)
+}
+
+// Reads the body up to limit bytes. With truncate the rest is dropped, otherwise it's an error.
+const readBody = async (response: Response, limit: number, truncate: boolean) => {
+  const declared = Number(response.headers.get('content-length'))
+  if (!truncate && declared > limit) {
+    await response.body?.cancel()
+    throw new ScrapeError('That file is too large', 413)
+  }
+
+  const reader = response.body?.getReader()
+  if (!reader) return new Uint8Array()
+
+  const chunks: Uint8Array[] = []
+  let size = 0
+  while (truncate ? size < limit : size <= limit) {
+    const { value, done } = await reader.read()
+    if (done) break
+    chunks.push(value)
+    size += value.length
+  }
+
+  if (size > limit && !truncate) {
+    await reader.cancel()
+    throw new ScrapeError('That file is too large', 413)
+  }
+  if (size >= limit) await reader.cancel()
+
+  const bytes = new Uint8Array(Math.min(size, limit))
+  let offset = 0
+  for (const chunk of chunks) {
+    const part = chunk.subarray(0, bytes.length - offset)
+    bytes.set(part, offset)
+    offset += part.length
+    if (offset === bytes.length) break
+  }
+  return bytes
+}
+
+const charsetOf = (contentType: string) => {
+  const charset = contentType.match(/charset=["']?([\w-]+)/i)?.[1]
+  try {
+    return new TextDecoder(charset ?? 'utf-8')
+  } catch {
+    return new TextDecoder('utf-8')
+  }
+}
+
+export const scrapePage = async (raw: string, options: ScrapeOptions = {}): Promise<ScrapedPage> => {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const { response, url } = await guardedFetch(raw, 'text/html,application/xhtml+xml', options, signal)
+
+  const contentType = response.headers.get('content-type') ?? ''
+
+  // A direct link to an image is a page with one candidate
+  if (contentType.startsWith('image/')) {
+    await response.body?.cancel()
+    return { url: url.href, images: [{ url: url.href, source: 'img' }] }
+  }
+
+  if (!/^(text\/html|application\/xhtml\+xml)/i.test(contentType)) {
+    await response.body?.cancel()
+    throw new ScrapeError('That link isn\'t a web page or an image', 422)
+  }
+
+  const html = charsetOf(contentType).decode(await readBody(response, MAX_PAGE_BYTES, true))
+  return { url: url.href, ...extractPageMetadata(html, url.href) }
+}
+
+export const fetchImage = async (raw: string, options: ScrapeOptions = {}): Promise<FetchedImage> => {
+  const signal = AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS)
+  const { response } = await guardedFetch(raw, 'image/avif,image/webp,image/*', options, signal)
+
+  const bytes = await readBody(response, MAX_IMAGE_BYTES, false)
+  const image = sniffImage(bytes)
+  if (!image) {
+    throw new ScrapeError('That link isn\'t a supported image', 422)
+  }
+
+  return { bytes, contentType: image.contentType, extension: image.extension }
+}
+
+// Copies an image found on a page. The page is scraped again and the image has to be one
+// of its candidates, so the import can't be pointed at arbitrary URLs.
+export const importImage = async (
+  pageUrl: string,
+  imageUrl: string,
+  options: ScrapeOptions = {},
+): Promise<FetchedImage> => {
+  const page = await scrapePage(pageUrl, options)
+  if (!page.images.some((image) => image.url === imageUrl)) {
+    throw new ScrapeError('That image isn\'t on the page anymore', 422)
+  }
+
+  return fetchImage(imageUrl, options)
+}
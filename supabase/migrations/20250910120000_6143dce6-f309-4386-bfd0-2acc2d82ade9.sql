@@ -0,0 +1,84 @@
+-- Create assistant conversations table
+CREATE TABLE public.assistant_conversations (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL,
+  title TEXT NOT NULL DEFAULT 'New conversation',
+  -- Rolling summary of the turns that no longer fit in the model context
+  summary TEXT,
+  summarized_until TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.assistant_conversations ENABLE ROW LEVEL SECURITY;
+
+-- Create assistant messages table
+CREATE TABLE public.assistant_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID NOT NULL REFERENCES public.assistant_conversations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant')),
+  content TEXT NOT NULL,
+  data JSONB,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.assistant_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_assistant_conversations_user ON public.assistant_conversations(user_id, updated_at DESC);
+CREATE INDEX idx_assistant_messages_conversation ON public.assistant_messages(conversation_id, created_at);
+
+-- Create RLS policies for assistant_conversations
+CREATE POLICY "Users can view their own assistant conversations" ON public.assistant_conversations
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own assistant conversations" ON public.assistant_conversations
+  FOR INSERT WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own assistant conversations" ON public.assistant_conversations
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own assistant conversations" ON public.assistant_conversations
+  FOR DELETE USING (auth.uid() = user_id);
+
+-- Create RLS policies for assistant_messages
+CREATE POLICY "Users can view messages in their assistant conversations" ON public.assistant_messages
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can add messages to their assistant conversations" ON public.assistant_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    conversation_id IN (
+      SELECT id FROM public.assistant_conversations
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- Action cards record their outcome on the message that proposed them
+CREATE POLICY "Users can update their own assistant messages" ON public.assistant_messages
+  FOR UPDATE USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_assistant_conversations_updated_at
+  BEFORE UPDATE ON public.assistant_conversations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Keep the conversation list ordered by latest activity
+CREATE OR REPLACE FUNCTION public.touch_assistant_conversation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  UPDATE public.assistant_conversations
+  SET updated_at = now()
+  WHERE id = NEW.conversation_id;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_assistant_message_created
+  AFTER INSERT ON public.assistant_messages
+  FOR EACH ROW EXECUTE FUNCTION public.touch_assistant_conversation();
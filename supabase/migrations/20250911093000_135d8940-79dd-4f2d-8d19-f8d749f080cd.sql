@@ -0,0 +1,7 @@
+-- Saved pins are part of the board they were saved into, so they are as visible as the board
+DROP POLICY IF EXISTS "Users can view their own saved pins" ON public.saved_pins;
+
+CREATE POLICY "Anyone can view saved pins" 
+ON public.saved_pins 
+FOR SELECT 
+USING (true);
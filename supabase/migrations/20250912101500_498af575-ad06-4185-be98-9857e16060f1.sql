@@ -0,0 +1,56 @@
+-- Keyset pagination over the feed walks this index in order
+CREATE INDEX IF NOT EXISTS idx_pins_created_at_id ON public.pins (created_at DESC, id DESC);
+
+-- One page of the feed, newest first, with the author profile joined in.
+-- Pass the created_at and id of the last pin of the previous page to continue after it.
+CREATE OR REPLACE FUNCTION public.get_pins_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30,
+  search TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE (
+      cursor_created_at IS NULL
+      OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+    )
+    AND (
+      search IS NULL
+      OR p.title ILIKE '%' || search || '%'
+      OR p.description ILIKE '%' || search || '%'
+    )
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
@@ -0,0 +1,161 @@
+-- Search moves to search_pins, so the feed no longer takes a search term
+DROP FUNCTION IF EXISTS public.get_pins_feed(TIMESTAMP WITH TIME ZONE, UUID, INTEGER, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_pins_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+-- Board and people matches use their own indexes; pins reuse idx_pins_search
+CREATE INDEX IF NOT EXISTS idx_boards_search ON public.boards USING GIN(to_tsvector('english', name));
+CREATE INDEX IF NOT EXISTS idx_profiles_search ON public.profiles USING GIN(to_tsvector('simple', COALESCE(full_name, '')));
+
+-- Ranked full-text search over pins. A pin matches on its own title and description,
+-- the name of its board, or its author's name; filter narrows to one of those
+-- ('pins', 'boards', 'people') or 'all'. Snippets mark matches with {{ and }}.
+CREATE OR REPLACE FUNCTION public.search_pins(
+  search_query TEXT,
+  filter TEXT DEFAULT 'all',
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  board_name TEXT,
+  matched_on TEXT,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS english,
+      websearch_to_tsquery('simple', search_query) AS simple
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      pr.full_name AS author_full_name,
+      pr.email AS author_email,
+      pr.avatar_url AS author_avatar_url,
+      b.name AS board_name,
+      CASE
+        WHEN filter IN ('all', 'pins')
+          AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+          THEN ts_rank(to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')), q.english)
+        ELSE 0
+      END AS pin_rank,
+      CASE
+        WHEN filter IN ('all', 'boards')
+          AND to_tsvector('english', b.name) @@ q.english
+          THEN ts_rank(to_tsvector('english', b.name), q.english) * 0.8
+        ELSE 0
+      END AS board_rank,
+      CASE
+        WHEN filter IN ('all', 'people')
+          AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+          THEN ts_rank(to_tsvector('simple', COALESCE(pr.full_name, '')), q.simple) * 0.6
+        ELSE 0
+      END AS person_rank,
+      q.english AS query
+    FROM public.pins p
+    CROSS JOIN q
+    JOIN public.boards b ON b.id = p.board_id
+    LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+    WHERE (
+        filter IN ('all', 'pins')
+        AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'boards')
+        AND to_tsvector('english', b.name) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'people')
+        AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+      )
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.image_url,
+    m.original_url,
+    m.user_id,
+    m.board_id,
+    m.created_at,
+    m.is_nsfw,
+    m.author_full_name,
+    m.author_email,
+    m.author_avatar_url,
+    m.board_name,
+    CASE
+      WHEN m.pin_rank >= GREATEST(m.board_rank, m.person_rank) THEN 'pin'
+      WHEN m.board_rank >= m.person_rank THEN 'board'
+      ELSE 'person'
+    END,
+    GREATEST(m.pin_rank, m.board_rank, m.person_rank)::REAL,
+    ts_headline(
+      'english',
+      m.title || ' — ' || COALESCE(m.description, ''),
+      m.query,
+      'StartSel="{{", StopSel="}}", MaxWords=24, MinWords=8, MaxFragments=2'
+    )
+  FROM matches m
+  ORDER BY GREATEST(m.pin_rank, m.board_rank, m.person_rank) DESC, m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
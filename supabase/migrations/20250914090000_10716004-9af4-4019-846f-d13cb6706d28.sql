@@ -0,0 +1,193 @@
+-- Indexes for the per-viewer lookups and the recent-engagement window
+CREATE INDEX IF NOT EXISTS idx_follows_follower_id ON public.follows(follower_id);
+CREATE INDEX IF NOT EXISTS idx_likes_created_at ON public.likes(created_at);
+CREATE INDEX IF NOT EXISTS idx_comments_created_at ON public.comments(created_at);
+CREATE INDEX IF NOT EXISTS idx_saved_pins_created_at ON public.saved_pins(created_at);
+CREATE INDEX IF NOT EXISTS idx_pins_user_created_at ON public.pins(user_id, created_at DESC, id DESC);
+
+-- Scores every pin for one viewer at a fixed point in time. It reads nothing but its
+-- arguments and table data, so the same seed data always produces the same ranking.
+--   follow_score:     3 when the author is followed by the viewer
+--   similarity_score: 2 * sum of ln(1 + overlap) over boards the pin is on, where overlap is
+--                     how many of the viewer's saved pins that (someone else's) board also holds
+--   engagement_score: ln(1 + likes, comments and saves in the 7 days before as_of)
+--   score:            (1 + the three above) / sqrt(age in days + 2)
+-- The viewer's own pins and pins they already saved are left out.
+CREATE OR REPLACE FUNCTION public.rank_pins_for_user(
+  viewer UUID,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  pin_id UUID,
+  follow_score REAL,
+  similarity_score REAL,
+  engagement_score REAL,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH followed AS (
+    SELECT following_id AS user_id
+    FROM public.follows
+    WHERE follower_id = viewer
+  ),
+  viewer_saves AS (
+    SELECT DISTINCT sp.pin_id
+    FROM public.saved_pins sp
+    WHERE sp.user_id = viewer
+      AND sp.created_at <= as_of
+  ),
+  board_pins AS (
+    SELECT p.id AS pin_id, p.board_id
+    FROM public.pins p
+    UNION
+    SELECT sp.pin_id, sp.board_id
+    FROM public.saved_pins sp
+    WHERE sp.created_at <= as_of
+  ),
+  similar_boards AS (
+    SELECT bp.board_id, COUNT(*) AS overlap
+    FROM board_pins bp
+    JOIN viewer_saves vs ON vs.pin_id = bp.pin_id
+    JOIN public.boards b ON b.id = bp.board_id
+    WHERE b.user_id <> viewer
+    GROUP BY bp.board_id
+  ),
+  pin_similarity AS (
+    SELECT bp.pin_id, SUM(ln(1 + sb.overlap)) AS similarity
+    FROM board_pins bp
+    JOIN similar_boards sb ON sb.board_id = bp.board_id
+    GROUP BY bp.pin_id
+  ),
+  engagement AS (
+    SELECT e.pin_id, COUNT(*) AS events
+    FROM (
+      SELECT l.pin_id FROM public.likes l
+      WHERE l.created_at > as_of - INTERVAL '7 days' AND l.created_at <= as_of
+      UNION ALL
+      SELECT c.pin_id FROM public.comments c
+      WHERE c.created_at > as_of - INTERVAL '7 days' AND c.created_at <= as_of
+      UNION ALL
+      SELECT sp.pin_id FROM public.saved_pins sp
+      WHERE sp.created_at > as_of - INTERVAL '7 days' AND sp.created_at <= as_of
+    ) e
+    GROUP BY e.pin_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      CASE WHEN p.user_id IN (SELECT user_id FROM followed) THEN 3.0 ELSE 0.0 END AS follow_score,
+      2.0 * COALESCE(ps.similarity, 0) AS similarity_score,
+      ln(1 + COALESCE(e.events, 0)) AS engagement_score,
+      GREATEST(EXTRACT(EPOCH FROM (as_of - p.created_at)) / 86400.0, 0) AS age_days
+    FROM public.pins p
+    LEFT JOIN pin_similarity ps ON ps.pin_id = p.id
+    LEFT JOIN engagement e ON e.pin_id = p.id
+    WHERE p.created_at <= as_of
+      AND (viewer IS NULL OR p.user_id <> viewer)
+      AND p.id NOT IN (SELECT vs.pin_id FROM viewer_saves vs)
+  )
+  SELECT
+    s.id,
+    s.follow_score::REAL,
+    s.similarity_score::REAL,
+    s.engagement_score::REAL,
+    ((1 + s.follow_score + s.similarity_score + s.engagement_score) / sqrt(s.age_days + 2))::REAL
+  FROM scored s;
+$$;
+
+-- "For You" page for the signed-in user. Pass the as_of of the first page to every later
+-- page so scores don't shift underneath the offset.
+CREATE OR REPLACE FUNCTION public.get_for_you_feed(
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url,
+    r.score
+  FROM public.rank_pins_for_user(auth.uid(), as_of) r
+  JOIN public.pins p ON p.id = r.pin_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  ORDER BY r.score DESC, p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+-- Pins from people the signed-in user follows, newest first, paged like get_pins_feed
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  JOIN public.follows f ON f.following_id = p.user_id AND f.follower_id = auth.uid()
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
@@ -0,0 +1,51 @@
+-- Add secret boards: a private board, and everything pinned or saved into it,
+-- is only visible to the board's owner
+ALTER TABLE public.boards
+ADD COLUMN is_private BOOLEAN NOT NULL DEFAULT false;
+
+-- Create a security definer function to check if a user may see a board.
+-- Pin and saved pin policies go through it so they don't depend on boards RLS.
+CREATE OR REPLACE FUNCTION public.user_can_view_board(user_uuid uuid, board_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM public.boards
+    WHERE id = board_uuid AND (NOT is_private OR user_id = user_uuid)
+  );
+$$;
+
+-- Replace the open boards policy
+DROP POLICY IF EXISTS "Users can view all boards" ON public.boards;
+
+CREATE POLICY "Users can view public boards and their own"
+ON public.boards
+FOR SELECT
+USING (NOT is_private OR auth.uid() = user_id);
+
+-- Pins on a secret board are hidden with it
+DROP POLICY IF EXISTS "Users can view all pins" ON public.pins;
+
+CREATE POLICY "Users can view pins on boards they can see"
+ON public.pins
+FOR SELECT
+USING (auth.uid() = user_id OR public.user_can_view_board(auth.uid(), board_id));
+
+-- Saved pins are as visible as the board they were saved into
+DROP POLICY IF EXISTS "Anyone can view saved pins" ON public.saved_pins;
+
+CREATE POLICY "Users can view saved pins on boards they can see"
+ON public.saved_pins
+FOR SELECT
+USING (auth.uid() = user_id OR public.user_can_view_board(auth.uid(), board_id));
+
+-- Only the owner can save pins into a secret board
+DROP POLICY IF EXISTS "Users can create their own saved pins" ON public.saved_pins;
+
+CREATE POLICY "Users can create their own saved pins"
+ON public.saved_pins
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.user_can_view_board(auth.uid(), board_id));
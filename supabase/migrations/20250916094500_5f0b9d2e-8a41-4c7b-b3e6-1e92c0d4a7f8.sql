@@ -0,0 +1,129 @@
+-- Create board_collaborators table so a board can be curated by a team.
+-- Editors can add, save and reorder pins on the board; viewers can see it even when it's secret.
+CREATE TABLE public.board_collaborators (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(user_id) ON DELETE CASCADE,
+  role TEXT NOT NULL DEFAULT 'editor' CHECK (role IN ('editor', 'viewer')),
+  invited_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(board_id, user_id)
+);
+
+ALTER TABLE public.board_collaborators ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_board_collaborators_user_id ON public.board_collaborators(user_id);
+
+-- Create security definer functions for board access, so policies on boards, pins and
+-- saved_pins never query each other through RLS
+CREATE OR REPLACE FUNCTION public.user_owns_board(user_uuid uuid, board_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM public.boards
+    WHERE id = board_uuid AND user_id = user_uuid
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_can_view_board(user_uuid uuid, board_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT EXISTS(
+    SELECT 1 FROM public.boards b
+    WHERE b.id = board_uuid
+      AND (
+        NOT b.is_private
+        OR b.user_id = user_uuid
+        OR EXISTS(
+          SELECT 1 FROM public.board_collaborators bc
+          WHERE bc.board_id = b.id AND bc.user_id = user_uuid
+        )
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.user_can_edit_board(user_uuid uuid, board_uuid uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT public.user_owns_board(user_uuid, board_uuid) OR EXISTS(
+    SELECT 1 FROM public.board_collaborators
+    WHERE board_id = board_uuid AND user_id = user_uuid AND role = 'editor'
+  );
+$$;
+
+-- RLS policies for board_collaborators
+CREATE POLICY "Users can view collaborators of boards they can see"
+ON public.board_collaborators
+FOR SELECT
+USING (public.user_can_view_board(auth.uid(), board_id));
+
+CREATE POLICY "Board owners can invite collaborators"
+ON public.board_collaborators
+FOR INSERT
+WITH CHECK (
+  auth.uid() = invited_by
+  AND public.user_owns_board(auth.uid(), board_id)
+  AND NOT public.user_owns_board(user_id, board_id)
+);
+
+CREATE POLICY "Board owners can change collaborator roles"
+ON public.board_collaborators
+FOR UPDATE
+USING (public.user_owns_board(auth.uid(), board_id));
+
+CREATE POLICY "Board owners can remove collaborators"
+ON public.board_collaborators
+FOR DELETE
+USING (public.user_owns_board(auth.uid(), board_id));
+
+CREATE POLICY "Collaborators can leave boards"
+ON public.board_collaborators
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Collaborators can see secret boards they were invited to
+DROP POLICY IF EXISTS "Users can view public boards and their own" ON public.boards;
+
+CREATE POLICY "Users can view public boards and boards they collaborate on"
+ON public.boards
+FOR SELECT
+USING (public.user_can_view_board(auth.uid(), id));
+
+-- Pins can only be created on boards the user owns or edits
+DROP POLICY IF EXISTS "Users can create their own pins" ON public.pins;
+
+CREATE POLICY "Users can create their own pins"
+ON public.pins
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.user_can_edit_board(auth.uid(), board_id));
+
+-- Editors can arrange pins on boards they edit, including pins added by others
+CREATE POLICY "Board editors can update pins on their boards"
+ON public.pins
+FOR UPDATE
+USING (public.user_can_edit_board(auth.uid(), board_id));
+
+-- Pins can only be saved into boards the user owns or edits
+DROP POLICY IF EXISTS "Users can create their own saved pins" ON public.saved_pins;
+
+CREATE POLICY "Users can create their own saved pins"
+ON public.saved_pins
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.user_can_edit_board(auth.uid(), board_id));
+
+CREATE POLICY "Board editors can remove saved pins from their boards"
+ON public.saved_pins
+FOR DELETE
+USING (public.user_can_edit_board(auth.uid(), board_id));
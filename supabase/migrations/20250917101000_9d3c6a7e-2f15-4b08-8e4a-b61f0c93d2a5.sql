@@ -0,0 +1,95 @@
+-- Create board_sections table for sub-organizing pins within a board
+CREATE TABLE public.board_sections (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  board_id UUID NOT NULL REFERENCES public.boards(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  created_by UUID NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.board_sections ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_board_sections_board_id ON public.board_sections(board_id, created_at);
+
+CREATE TRIGGER update_board_sections_updated_at
+BEFORE UPDATE ON public.board_sections
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- RLS policies for board_sections
+CREATE POLICY "Users can view sections of boards they can see"
+ON public.board_sections
+FOR SELECT
+USING (public.user_can_view_board(auth.uid(), board_id));
+
+CREATE POLICY "Board editors can create sections"
+ON public.board_sections
+FOR INSERT
+WITH CHECK (auth.uid() = created_by AND public.user_can_edit_board(auth.uid(), board_id));
+
+CREATE POLICY "Board editors can rename sections"
+ON public.board_sections
+FOR UPDATE
+USING (public.user_can_edit_board(auth.uid(), board_id));
+
+CREATE POLICY "Board editors can delete sections"
+ON public.board_sections
+FOR DELETE
+USING (public.user_can_edit_board(auth.uid(), board_id));
+
+-- Pins and saved pins optionally sit in a section; deleting a section leaves them unsorted
+ALTER TABLE public.pins
+ADD COLUMN section_id UUID REFERENCES public.board_sections(id) ON DELETE SET NULL;
+
+ALTER TABLE public.saved_pins
+ADD COLUMN section_id UUID REFERENCES public.board_sections(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_pins_section_id ON public.pins(section_id) WHERE section_id IS NOT NULL;
+CREATE INDEX idx_saved_pins_section_id ON public.saved_pins(section_id) WHERE section_id IS NOT NULL;
+
+-- A section only holds entries from its own board. Moving an entry to another board
+-- without naming a section there drops it back to unsorted.
+CREATE OR REPLACE FUNCTION public.check_section_board()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF NEW.section_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.board_id IS DISTINCT FROM OLD.board_id AND NEW.section_id IS NOT DISTINCT FROM OLD.section_id THEN
+    NEW.section_id := NULL;
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.board_sections
+    WHERE id = NEW.section_id AND board_id = NEW.board_id
+  ) THEN
+    RAISE EXCEPTION 'Section % does not belong to board %', NEW.section_id, NEW.board_id
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_pins_section_board
+BEFORE INSERT OR UPDATE OF section_id, board_id ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.check_section_board();
+
+CREATE TRIGGER check_saved_pins_section_board
+BEFORE INSERT OR UPDATE OF section_id, board_id ON public.saved_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.check_section_board();
+
+-- Editors can file saved pins into sections on boards they edit
+CREATE POLICY "Board editors can update saved pins on their boards"
+ON public.saved_pins
+FOR UPDATE
+USING (public.user_can_edit_board(auth.uid(), board_id));
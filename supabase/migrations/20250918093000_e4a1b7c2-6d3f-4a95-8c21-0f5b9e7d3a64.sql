@@ -0,0 +1,176 @@
+-- Add a manual order for pins within a board. Pins created on a board and pins saved into it
+-- share one fractional position space per board; lower positions come first.
+ALTER TABLE public.pins
+ADD COLUMN position DOUBLE PRECISION;
+
+ALTER TABLE public.saved_pins
+ADD COLUMN position DOUBLE PRECISION;
+
+-- Backfill the current newest-first order, spaced out so later moves rarely need a renumber
+WITH entries AS (
+  SELECT 'pin' AS kind, id, board_id, created_at FROM public.pins
+  UNION ALL
+  SELECT 'saved' AS kind, id, board_id, created_at FROM public.saved_pins
+),
+ranked AS (
+  SELECT kind, id, row_number() OVER (PARTITION BY board_id ORDER BY created_at DESC, id) * 1024.0 AS position
+  FROM entries
+),
+ranked_pins AS (
+  UPDATE public.pins p
+  SET position = r.position
+  FROM ranked r
+  WHERE r.kind = 'pin' AND r.id = p.id
+)
+UPDATE public.saved_pins s
+SET position = r.position
+FROM ranked r
+WHERE r.kind = 'saved' AND r.id = s.id;
+
+ALTER TABLE public.pins ALTER COLUMN position SET NOT NULL;
+ALTER TABLE public.saved_pins ALTER COLUMN position SET NOT NULL;
+
+CREATE INDEX idx_pins_board_position ON public.pins(board_id, position);
+CREATE INDEX idx_saved_pins_board_position ON public.saved_pins(board_id, position);
+
+-- Every entry on a board, across both tables
+CREATE OR REPLACE FUNCTION public.board_entries(target_board_id UUID)
+RETURNS TABLE (kind TEXT, id UUID, position DOUBLE PRECISION)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+  SELECT 'pin', p.id, p.position FROM public.pins p WHERE p.board_id = target_board_id
+  UNION ALL
+  SELECT 'saved', s.id, s.position FROM public.saved_pins s WHERE s.board_id = target_board_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.board_entries(UUID) FROM PUBLIC, anon, authenticated;
+
+-- New entries, and pins moved to another board, go to the top of the board
+CREATE OR REPLACE FUNCTION public.set_board_position()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.board_id IS NOT DISTINCT FROM OLD.board_id THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT COALESCE(min(e.position), 0) - 1024
+  INTO NEW.position
+  FROM public.board_entries(NEW.board_id) e;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_pins_board_position
+BEFORE INSERT OR UPDATE OF board_id ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.set_board_position();
+
+CREATE TRIGGER set_saved_pins_board_position
+BEFORE INSERT OR UPDATE OF board_id ON public.saved_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.set_board_position();
+
+-- Move a board entry ('pin' or 'saved') to just after another one, or to the top when
+-- after_kind/after_id are null. The neighbour below is looked up here rather than trusted
+-- from the client, and moves on the same board are serialized with a row lock, so two
+-- editors dropping into the same gap get distinct positions in the order their writes land.
+-- Returns the new position; renumbered is true when the board's gaps ran out and every
+-- entry was respaced, in which case clients should reload the order.
+CREATE OR REPLACE FUNCTION public.move_board_entry(
+  target_board_id UUID,
+  entry_kind TEXT,
+  entry_id UUID,
+  after_kind TEXT DEFAULT NULL,
+  after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (entry_position DOUBLE PRECISION, renumbered BOOLEAN)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  lower_position DOUBLE PRECISION;
+  upper_position DOUBLE PRECISION;
+  new_position DOUBLE PRECISION;
+  did_renumber BOOLEAN := false;
+BEGIN
+  IF NOT public.user_can_edit_board(auth.uid(), target_board_id) THEN
+    RAISE EXCEPTION 'Not allowed to reorder this board' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  PERFORM 1 FROM public.boards WHERE id = target_board_id FOR UPDATE;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.board_entries(target_board_id) e
+    WHERE e.kind = entry_kind AND e.id = entry_id
+  ) THEN
+    RAISE EXCEPTION 'Entry is not on this board' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  FOR attempt IN 1..2 LOOP
+    IF after_id IS NULL THEN
+      lower_position := NULL;
+    ELSE
+      SELECT e.position INTO lower_position
+      FROM public.board_entries(target_board_id) e
+      WHERE e.kind = after_kind AND e.id = after_id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Anchor entry is not on this board' USING ERRCODE = 'no_data_found';
+      END IF;
+    END IF;
+
+    -- The first other entry after the anchor, in the same order clients display
+    SELECT e.position INTO upper_position
+    FROM public.board_entries(target_board_id) e
+    WHERE NOT (e.kind = entry_kind AND e.id = entry_id)
+      AND (
+        lower_position IS NULL
+        OR (e.position, e.kind, e.id) > (lower_position, after_kind, after_id)
+      )
+    ORDER BY e.position, e.kind, e.id
+    LIMIT 1;
+
+    new_position := CASE
+      WHEN lower_position IS NULL AND upper_position IS NULL THEN 0
+      WHEN lower_position IS NULL THEN upper_position - 1024
+      WHEN upper_position IS NULL THEN lower_position + 1024
+      ELSE (lower_position + upper_position) / 2
+    END;
+
+    EXIT WHEN lower_position IS NULL OR upper_position IS NULL
+      OR (new_position > lower_position AND new_position < upper_position);
+
+    -- Out of precision between the neighbours: respace the whole board and retry once.
+    -- Both tables are updated in one statement so they are ranked from the same snapshot.
+    WITH ranked AS (
+      SELECT e.kind, e.id, row_number() OVER (ORDER BY e.position, e.kind, e.id) * 1024.0 AS respaced
+      FROM public.board_entries(target_board_id) e
+    ),
+    respaced_pins AS (
+      UPDATE public.pins p SET position = r.respaced
+      FROM ranked r WHERE r.kind = 'pin' AND r.id = p.id
+    )
+    UPDATE public.saved_pins s SET position = r.respaced
+    FROM ranked r WHERE r.kind = 'saved' AND r.id = s.id;
+
+    did_renumber := true;
+  END LOOP;
+
+  IF entry_kind = 'pin' THEN
+    UPDATE public.pins SET position = new_position WHERE id = entry_id;
+  ELSE
+    UPDATE public.saved_pins SET position = new_position WHERE id = entry_id;
+  END IF;
+
+  RETURN QUERY SELECT new_position, did_renumber;
+END;
+$$;
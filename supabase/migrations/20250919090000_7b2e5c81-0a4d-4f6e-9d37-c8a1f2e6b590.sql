@@ -0,0 +1,132 @@
+-- Apply one action to many pins at once. items is a JSON array of {"kind": "pin" | "saved", "id": uuid}:
+-- "pin" is a pin created on a board, "saved" a saved_pins row on a board it was saved into.
+-- Actions:
+--   move      put the entry on target_board_id
+--   copy      save the pin into target_board_id
+--   delete    delete the pin, or remove the saved entry from its board
+--   set_nsfw  set is_nsfw on the underlying pin to nsfw
+-- Runs with the caller's RLS, so each item is only changed when the caller could change it
+-- directly. Items that can't be applied are skipped and reported with a message; everything
+-- else commits together in this one transaction.
+CREATE OR REPLACE FUNCTION public.bulk_update_pins(
+  items JSONB,
+  action TEXT,
+  target_board_id UUID DEFAULT NULL,
+  nsfw BOOLEAN DEFAULT NULL
+)
+RETURNS TABLE (item_kind TEXT, item_id UUID, ok BOOLEAN, message TEXT)
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  item JSONB;
+  kind TEXT;
+  entry_id UUID;
+  source_pin_id UUID;
+  affected INTEGER;
+  can_target BOOLEAN;
+BEGIN
+  IF action NOT IN ('move', 'copy', 'delete', 'set_nsfw') THEN
+    RAISE EXCEPTION 'Unknown bulk action %', action USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF action IN ('move', 'copy') AND target_board_id IS NULL THEN
+    RAISE EXCEPTION 'A target board is required to % pins', action USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF action = 'set_nsfw' AND nsfw IS NULL THEN
+    RAISE EXCEPTION 'nsfw is required to set the NSFW flag' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF jsonb_typeof(items) <> 'array' OR jsonb_array_length(items) > 200 THEN
+    RAISE EXCEPTION 'items must be an array of at most 200 entries' USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  can_target := target_board_id IS NULL OR public.user_can_edit_board(auth.uid(), target_board_id);
+
+  FOR item IN SELECT * FROM jsonb_array_elements(items) LOOP
+    kind := item->>'kind';
+    entry_id := (item->>'id')::UUID;
+    affected := 0;
+
+    IF kind NOT IN ('pin', 'saved') THEN
+      RETURN QUERY SELECT kind, entry_id, false, 'Unknown item kind';
+      CONTINUE;
+    END IF;
+
+    IF NOT can_target THEN
+      RETURN QUERY SELECT kind, entry_id, false, 'You can''t add pins to that board';
+      CONTINUE;
+    END IF;
+
+    IF kind = 'pin' THEN
+      source_pin_id := entry_id;
+    ELSE
+      SELECT s.pin_id INTO source_pin_id FROM public.saved_pins s WHERE s.id = entry_id;
+    END IF;
+
+    IF source_pin_id IS NULL OR NOT EXISTS (SELECT 1 FROM public.pins p WHERE p.id = source_pin_id) THEN
+      RETURN QUERY SELECT kind, entry_id, false, 'Pin not found';
+      CONTINUE;
+    END IF;
+
+    IF action = 'move' THEN
+      IF kind = 'pin' THEN
+        UPDATE public.pins SET board_id = target_board_id
+        WHERE id = entry_id AND board_id <> target_board_id;
+      ELSIF EXISTS (
+        SELECT 1 FROM public.saved_pins s
+        WHERE s.board_id = target_board_id AND s.pin_id = source_pin_id AND s.id <> entry_id
+      ) THEN
+        RETURN QUERY SELECT kind, entry_id, false, 'Already saved to that board';
+        CONTINUE;
+      ELSE
+        UPDATE public.saved_pins SET board_id = target_board_id
+        WHERE id = entry_id AND board_id <> target_board_id;
+      END IF;
+      GET DIAGNOSTICS affected = ROW_COUNT;
+
+    ELSIF action = 'copy' THEN
+      IF EXISTS (SELECT 1 FROM public.pins p WHERE p.id = source_pin_id AND p.board_id = target_board_id)
+        OR EXISTS (
+          SELECT 1 FROM public.saved_pins s
+          WHERE s.board_id = target_board_id AND s.pin_id = source_pin_id AND s.user_id = auth.uid()
+        )
+      THEN
+        RETURN QUERY SELECT kind, entry_id, false, 'Already on that board';
+        CONTINUE;
+      END IF;
+
+      INSERT INTO public.saved_pins (user_id, pin_id, board_id)
+      VALUES (auth.uid(), source_pin_id, target_board_id);
+      GET DIAGNOSTICS affected = ROW_COUNT;
+
+    ELSIF action = 'delete' THEN
+      IF kind = 'pin' THEN
+        DELETE FROM public.pins WHERE id = entry_id;
+      ELSE
+        DELETE FROM public.saved_pins WHERE id = entry_id;
+      END IF;
+      GET DIAGNOSTICS affected = ROW_COUNT;
+
+    ELSE
+      UPDATE public.pins SET is_nsfw = nsfw WHERE id = source_pin_id;
+      GET DIAGNOSTICS affected = ROW_COUNT;
+    END IF;
+
+    IF affected = 0 THEN
+      RETURN QUERY SELECT kind, entry_id, false,
+        CASE
+          WHEN action = 'move' AND EXISTS (
+            SELECT 1 FROM public.pins p WHERE kind = 'pin' AND p.id = entry_id AND p.board_id = target_board_id
+            UNION ALL
+            SELECT 1 FROM public.saved_pins s WHERE kind = 'saved' AND s.id = entry_id AND s.board_id = target_board_id
+          ) THEN 'Already on that board'
+          ELSE 'You don''t have permission to change this pin'
+        END;
+    ELSE
+      RETURN QUERY SELECT kind, entry_id, true, NULL::TEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,116 @@
+-- Create pin_revisions table. Each row is the version of a pin as it was before one change,
+-- so the current version lives on the pin and its history here.
+CREATE TABLE public.pin_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  pin_id UUID NOT NULL REFERENCES public.pins(id) ON DELETE CASCADE,
+  edited_by UUID,
+  title TEXT NOT NULL,
+  description TEXT,
+  original_url TEXT,
+  board_id UUID NOT NULL,
+  is_nsfw BOOLEAN NOT NULL,
+  changed_fields TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.pin_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_pin_revisions_pin_id ON public.pin_revisions(pin_id, created_at DESC);
+
+-- Only the pin's owner sees its history. Rows are written by the trigger below, never directly.
+CREATE POLICY "Users can view revisions of their own pins"
+ON public.pin_revisions
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.pins p
+  WHERE p.id = pin_id AND p.user_id = auth.uid()
+));
+
+-- Record the previous version whenever an editable field changes, however the pin was updated
+CREATE OR REPLACE FUNCTION public.record_pin_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  changed TEXT[] := ARRAY[]::TEXT[];
+BEGIN
+  IF NEW.title IS DISTINCT FROM OLD.title THEN changed := changed || 'title'; END IF;
+  IF NEW.description IS DISTINCT FROM OLD.description THEN changed := changed || 'description'; END IF;
+  IF NEW.original_url IS DISTINCT FROM OLD.original_url THEN changed := changed || 'original_url'; END IF;
+  IF NEW.board_id IS DISTINCT FROM OLD.board_id THEN changed := changed || 'board_id'; END IF;
+  IF NEW.is_nsfw IS DISTINCT FROM OLD.is_nsfw THEN changed := changed || 'is_nsfw'; END IF;
+
+  IF cardinality(changed) > 0 THEN
+    INSERT INTO public.pin_revisions (pin_id, edited_by, title, description, original_url, board_id, is_nsfw, changed_fields)
+    VALUES (OLD.id, auth.uid(), OLD.title, OLD.description, OLD.original_url, OLD.board_id, OLD.is_nsfw, changed);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER record_pins_revision
+AFTER UPDATE OF title, description, original_url, board_id, is_nsfw ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.record_pin_revision();
+
+-- The owner update policy doesn't look at the destination board, so check it here:
+-- a pin can only be moved to a board the user owns or edits
+CREATE OR REPLACE FUNCTION public.check_pin_board_move()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.board_id IS DISTINCT FROM OLD.board_id
+    AND NOT public.user_can_edit_board(auth.uid(), NEW.board_id)
+  THEN
+    RAISE EXCEPTION 'Not allowed to add pins to board %', NEW.board_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_pins_board_move
+BEFORE UPDATE OF board_id ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.check_pin_board_move();
+
+-- Put a pin back the way it was in a revision. The restore is itself an update, so the
+-- version it replaces is recorded and can be restored in turn. A revision's board is only
+-- restored if the user can still pin to it.
+CREATE OR REPLACE FUNCTION public.restore_pin_revision(revision_id UUID)
+RETURNS SETOF public.pins
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  revision public.pin_revisions%ROWTYPE;
+BEGIN
+  SELECT * INTO revision FROM public.pin_revisions WHERE id = revision_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Revision not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  RETURN QUERY
+  UPDATE public.pins p
+  SET
+    title = revision.title,
+    description = revision.description,
+    original_url = revision.original_url,
+    is_nsfw = revision.is_nsfw,
+    board_id = CASE
+      WHEN public.user_can_edit_board(auth.uid(), revision.board_id) THEN revision.board_id
+      ELSE p.board_id
+    END
+  WHERE p.id = revision.pin_id AND p.user_id = auth.uid()
+  RETURNING p.*;
+END;
+$$;
@@ -0,0 +1,7 @@
+-- Enforce the same limits as the client's upload pipeline on the storage side, so images
+-- uploaded around it are held to them too
+UPDATE storage.buckets
+SET
+  file_size_limit = 10485760,
+  allowed_mime_types = ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif', 'image/avif']
+WHERE id IN ('pin-images', 'avatars', 'group-images');
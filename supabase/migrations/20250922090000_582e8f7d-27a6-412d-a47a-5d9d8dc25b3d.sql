@@ -0,0 +1,284 @@
+-- The image's size and a blurhash placeholder, so the grid can reserve each pin's box and
+-- paint something in it before the image arrives. Uploads fill these in; older pins are
+-- filled in by the backfill-pin-images function and stay NULL if their image can't be read.
+ALTER TABLE public.pins
+  ADD COLUMN width INTEGER CHECK (width > 0),
+  ADD COLUMN height INTEGER CHECK (height > 0),
+  ADD COLUMN aspect_ratio REAL GENERATED ALWAYS AS (width::REAL / height) STORED,
+  ADD COLUMN blurhash TEXT;
+
+-- What the backfill still has to look at
+CREATE INDEX idx_pins_missing_dimensions ON public.pins (id) WHERE width IS NULL;
+
+-- The feeds return the new columns, and a changed return type means recreating them
+DROP FUNCTION IF EXISTS public.get_pins_feed(TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.get_following_feed(TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.get_for_you_feed(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.search_pins(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_pins_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  JOIN public.follows f ON f.following_id = p.user_id AND f.follower_id = auth.uid()
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_for_you_feed(
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url,
+    r.score
+  FROM public.rank_pins_for_user(auth.uid(), as_of) r
+  JOIN public.pins p ON p.id = r.pin_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  ORDER BY r.score DESC, p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_pins(
+  search_query TEXT,
+  filter TEXT DEFAULT 'all',
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  board_name TEXT,
+  matched_on TEXT,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS english,
+      websearch_to_tsquery('simple', search_query) AS simple
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      pr.full_name AS author_full_name,
+      pr.email AS author_email,
+      pr.avatar_url AS author_avatar_url,
+      b.name AS board_name,
+      CASE
+        WHEN filter IN ('all', 'pins')
+          AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+          THEN ts_rank(to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')), q.english)
+        ELSE 0
+      END AS pin_rank,
+      CASE
+        WHEN filter IN ('all', 'boards')
+          AND to_tsvector('english', b.name) @@ q.english
+          THEN ts_rank(to_tsvector('english', b.name), q.english) * 0.8
+        ELSE 0
+      END AS board_rank,
+      CASE
+        WHEN filter IN ('all', 'people')
+          AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+          THEN ts_rank(to_tsvector('simple', COALESCE(pr.full_name, '')), q.simple) * 0.6
+        ELSE 0
+      END AS person_rank,
+      q.english AS query
+    FROM public.pins p
+    CROSS JOIN q
+    JOIN public.boards b ON b.id = p.board_id
+    LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+    WHERE (
+        filter IN ('all', 'pins')
+        AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'boards')
+        AND to_tsvector('english', b.name) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'people')
+        AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+      )
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.image_url,
+    m.original_url,
+    m.user_id,
+    m.board_id,
+    m.created_at,
+    m.is_nsfw,
+    m.width,
+    m.height,
+    m.blurhash,
+    m.author_full_name,
+    m.author_email,
+    m.author_avatar_url,
+    m.board_name,
+    CASE
+      WHEN m.pin_rank >= GREATEST(m.board_rank, m.person_rank) THEN 'pin'
+      WHEN m.board_rank >= m.person_rank THEN 'board'
+      ELSE 'person'
+    END,
+    GREATEST(m.pin_rank, m.board_rank, m.person_rank)::REAL,
+    ts_headline(
+      'english',
+      m.title || ' — ' || COALESCE(m.description, ''),
+      m.query,
+      'StartSel="{{", StopSel="}}", MaxWords=24, MinWords=8, MaxFragments=2'
+    )
+  FROM matches m
+  ORDER BY GREATEST(m.pin_rank, m.board_rank, m.person_rank) DESC, m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
@@ -0,0 +1,502 @@
+-- Engagement counts kept on the rows they describe, so cards and profiles don't count
+-- likes, comments, saves and follows on every view. Triggers keep them current and
+-- reconcile_engagement_counts repairs any drift.
+ALTER TABLE public.pins
+  ADD COLUMN like_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN comment_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN save_count INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.profiles
+  ADD COLUMN follower_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN following_count INTEGER NOT NULL DEFAULT 0;
+
+-- Adds one to or takes one from the pins counter named by the trigger's argument.
+-- Likes, comments and saves all point at their pin through pin_id.
+CREATE OR REPLACE FUNCTION public.bump_pin_count()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    EXECUTE format('UPDATE public.pins SET %1$I = %1$I + 1 WHERE id = $1', TG_ARGV[0]) USING NEW.pin_id;
+  ELSE
+    EXECUTE format('UPDATE public.pins SET %1$I = GREATEST(%1$I - 1, 0) WHERE id = $1', TG_ARGV[0]) USING OLD.pin_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER count_pin_likes
+AFTER INSERT OR DELETE ON public.likes
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_pin_count('like_count');
+
+CREATE TRIGGER count_pin_comments
+AFTER INSERT OR DELETE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_pin_count('comment_count');
+
+CREATE TRIGGER count_pin_saves
+AFTER INSERT OR DELETE ON public.saved_pins
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_pin_count('save_count');
+
+CREATE OR REPLACE FUNCTION public.bump_follow_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    UPDATE public.profiles SET follower_count = follower_count + 1 WHERE user_id = NEW.following_id;
+    UPDATE public.profiles SET following_count = following_count + 1 WHERE user_id = NEW.follower_id;
+  ELSE
+    UPDATE public.profiles SET follower_count = GREATEST(follower_count - 1, 0) WHERE user_id = OLD.following_id;
+    UPDATE public.profiles SET following_count = GREATEST(following_count - 1, 0) WHERE user_id = OLD.follower_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER count_follows
+AFTER INSERT OR DELETE ON public.follows
+FOR EACH ROW
+EXECUTE FUNCTION public.bump_follow_counts();
+
+-- Owners may update their own pins and profile, but not their counts. The counting
+-- functions above run as their owner, so only statements from the API roles are held back.
+-- Deliberately not SECURITY DEFINER: current_user has to be the caller.
+CREATE OR REPLACE FUNCTION public.protect_pin_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.like_count := 0;
+      NEW.comment_count := 0;
+      NEW.save_count := 0;
+    ELSE
+      NEW.like_count := OLD.like_count;
+      NEW.comment_count := OLD.comment_count;
+      NEW.save_count := OLD.save_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_pins_counts
+BEFORE INSERT OR UPDATE ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_pin_counts();
+
+CREATE OR REPLACE FUNCTION public.protect_profile_counts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+BEGIN
+  IF current_user IN ('anon', 'authenticated') THEN
+    IF TG_OP = 'INSERT' THEN
+      NEW.follower_count := 0;
+      NEW.following_count := 0;
+    ELSE
+      NEW.follower_count := OLD.follower_count;
+      NEW.following_count := OLD.following_count;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_profiles_counts
+BEFORE INSERT OR UPDATE ON public.profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_profile_counts();
+
+-- A like or a follow isn't an edit, so counter changes (and the image details the
+-- backfill fills in) leave updated_at alone. Generated columns aren't computed yet in a
+-- BEFORE trigger, so aspect_ratio is left out of the comparison too.
+DROP TRIGGER IF EXISTS update_pins_updated_at ON public.pins;
+CREATE TRIGGER update_pins_updated_at
+  BEFORE UPDATE ON public.pins
+  FOR EACH ROW
+  WHEN (
+    to_jsonb(NEW) - ARRAY['updated_at', 'like_count', 'comment_count', 'save_count', 'width', 'height', 'aspect_ratio', 'blurhash']
+    IS DISTINCT FROM
+    to_jsonb(OLD) - ARRAY['updated_at', 'like_count', 'comment_count', 'save_count', 'width', 'height', 'aspect_ratio', 'blurhash']
+  )
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+DROP TRIGGER IF EXISTS update_profiles_updated_at ON public.profiles;
+CREATE TRIGGER update_profiles_updated_at
+  BEFORE UPDATE ON public.profiles
+  FOR EACH ROW
+  WHEN (
+    to_jsonb(NEW) - ARRAY['updated_at', 'follower_count', 'following_count']
+    IS DISTINCT FROM
+    to_jsonb(OLD) - ARRAY['updated_at', 'follower_count', 'following_count']
+  )
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recounts everything and fixes the rows that disagree, returning how many were fixed.
+-- Run it from the SQL editor or with the service role after restoring data or if counts
+-- look off; the API roles can't call it.
+CREATE OR REPLACE FUNCTION public.reconcile_engagement_counts()
+RETURNS TABLE (
+  pins_repaired INTEGER,
+  profiles_repaired INTEGER
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  WITH actual AS (
+    SELECT
+      p.id,
+      (SELECT count(*) FROM public.likes l WHERE l.pin_id = p.id)::INTEGER AS like_count,
+      (SELECT count(*) FROM public.comments c WHERE c.pin_id = p.id)::INTEGER AS comment_count,
+      (SELECT count(*) FROM public.saved_pins s WHERE s.pin_id = p.id)::INTEGER AS save_count
+    FROM public.pins p
+  )
+  UPDATE public.pins p
+  SET
+    like_count = a.like_count,
+    comment_count = a.comment_count,
+    save_count = a.save_count
+  FROM actual a
+  WHERE p.id = a.id
+    AND (p.like_count, p.comment_count, p.save_count) IS DISTINCT FROM (a.like_count, a.comment_count, a.save_count);
+  GET DIAGNOSTICS pins_repaired = ROW_COUNT;
+
+  WITH actual AS (
+    SELECT
+      pr.user_id,
+      (SELECT count(*) FROM public.follows f WHERE f.following_id = pr.user_id)::INTEGER AS follower_count,
+      (SELECT count(*) FROM public.follows f WHERE f.follower_id = pr.user_id)::INTEGER AS following_count
+    FROM public.profiles pr
+  )
+  UPDATE public.profiles pr
+  SET
+    follower_count = a.follower_count,
+    following_count = a.following_count
+  FROM actual a
+  WHERE pr.user_id = a.user_id
+    AND (pr.follower_count, pr.following_count) IS DISTINCT FROM (a.follower_count, a.following_count);
+  GET DIAGNOSTICS profiles_repaired = ROW_COUNT;
+
+  RETURN NEXT;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_engagement_counts() FROM PUBLIC, anon, authenticated;
+
+-- Fill in the counts for everything that already exists
+SELECT public.reconcile_engagement_counts();
+
+-- The feeds return the counts with each pin, so cards can show them straight away
+DROP FUNCTION IF EXISTS public.get_pins_feed(TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.get_following_feed(TIMESTAMP WITH TIME ZONE, UUID, INTEGER);
+DROP FUNCTION IF EXISTS public.get_for_you_feed(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE);
+DROP FUNCTION IF EXISTS public.search_pins(TEXT, TEXT, INTEGER, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.get_pins_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  like_count INTEGER,
+  comment_count INTEGER,
+  save_count INTEGER,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    p.like_count,
+    p.comment_count,
+    p.save_count,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_following_feed(
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  like_count INTEGER,
+  comment_count INTEGER,
+  save_count INTEGER,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    p.like_count,
+    p.comment_count,
+    p.save_count,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url
+  FROM public.pins p
+  JOIN public.follows f ON f.following_id = p.user_id AND f.follower_id = auth.uid()
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_created_at IS NULL
+    OR (p.created_at, p.id) < (cursor_created_at, cursor_id)
+  ORDER BY p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
+
+CREATE OR REPLACE FUNCTION public.get_for_you_feed(
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  like_count INTEGER,
+  comment_count INTEGER,
+  save_count INTEGER,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    p.like_count,
+    p.comment_count,
+    p.save_count,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url,
+    r.score
+  FROM public.rank_pins_for_user(auth.uid(), as_of) r
+  JOIN public.pins p ON p.id = r.pin_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  ORDER BY r.score DESC, p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
+
+CREATE OR REPLACE FUNCTION public.search_pins(
+  search_query TEXT,
+  filter TEXT DEFAULT 'all',
+  page_size INTEGER DEFAULT 30,
+  page_offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  like_count INTEGER,
+  comment_count INTEGER,
+  save_count INTEGER,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  board_name TEXT,
+  matched_on TEXT,
+  rank REAL,
+  snippet TEXT
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH q AS (
+    SELECT
+      websearch_to_tsquery('english', search_query) AS english,
+      websearch_to_tsquery('simple', search_query) AS simple
+  ),
+  matches AS (
+    SELECT
+      p.*,
+      pr.full_name AS author_full_name,
+      pr.email AS author_email,
+      pr.avatar_url AS author_avatar_url,
+      b.name AS board_name,
+      CASE
+        WHEN filter IN ('all', 'pins')
+          AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+          THEN ts_rank(to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')), q.english)
+        ELSE 0
+      END AS pin_rank,
+      CASE
+        WHEN filter IN ('all', 'boards')
+          AND to_tsvector('english', b.name) @@ q.english
+          THEN ts_rank(to_tsvector('english', b.name), q.english) * 0.8
+        ELSE 0
+      END AS board_rank,
+      CASE
+        WHEN filter IN ('all', 'people')
+          AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+          THEN ts_rank(to_tsvector('simple', COALESCE(pr.full_name, '')), q.simple) * 0.6
+        ELSE 0
+      END AS person_rank,
+      q.english AS query
+    FROM public.pins p
+    CROSS JOIN q
+    JOIN public.boards b ON b.id = p.board_id
+    LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+    WHERE (
+        filter IN ('all', 'pins')
+        AND to_tsvector('english', p.title || ' ' || COALESCE(p.description, '')) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'boards')
+        AND to_tsvector('english', b.name) @@ q.english
+      )
+      OR (
+        filter IN ('all', 'people')
+        AND to_tsvector('simple', COALESCE(pr.full_name, '')) @@ q.simple
+      )
+  )
+  SELECT
+    m.id,
+    m.title,
+    m.description,
+    m.image_url,
+    m.original_url,
+    m.user_id,
+    m.board_id,
+    m.created_at,
+    m.is_nsfw,
+    m.width,
+    m.height,
+    m.blurhash,
+    m.like_count,
+    m.comment_count,
+    m.save_count,
+    m.author_full_name,
+    m.author_email,
+    m.author_avatar_url,
+    m.board_name,
+    CASE
+      WHEN m.pin_rank >= GREATEST(m.board_rank, m.person_rank) THEN 'pin'
+      WHEN m.board_rank >= m.person_rank THEN 'board'
+      ELSE 'person'
+    END,
+    GREATEST(m.pin_rank, m.board_rank, m.person_rank)::REAL,
+    ts_headline(
+      'english',
+      m.title || ' — ' || COALESCE(m.description, ''),
+      m.query,
+      'StartSel="{{", StopSel="}}", MaxWords=24, MinWords=8, MaxFragments=2'
+    )
+  FROM matches m
+  ORDER BY GREATEST(m.pin_rank, m.board_rank, m.person_rank) DESC, m.created_at DESC, m.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100)
+  OFFSET GREATEST(page_offset, 0);
+$$;
@@ -0,0 +1,58 @@
+-- Rows joined with the profile of whoever wrote them, so pages load authors in the same
+-- query as the rows instead of looking each profile up afterwards.
+--
+-- The views run as the caller (security_invoker), so the underlying tables' RLS still
+-- decides which rows come back. Profiles are readable by everyone; the author columns are
+-- NULL only when the profile row is missing.
+--
+-- The column lists are fixed when a view is created: a migration that adds columns to
+-- one of these tables has to recreate its view for the new columns to show up here.
+
+CREATE VIEW public.pins_with_author
+WITH (security_invoker = true)
+AS
+SELECT
+  p.*,
+  pr.full_name AS author_full_name,
+  pr.email AS author_email,
+  pr.avatar_url AS author_avatar_url
+FROM public.pins p
+LEFT JOIN public.profiles pr ON pr.user_id = p.user_id;
+
+CREATE VIEW public.comments_with_author
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  pr.full_name AS author_full_name,
+  pr.email AS author_email,
+  pr.avatar_url AS author_avatar_url
+FROM public.comments c
+LEFT JOIN public.profiles pr ON pr.user_id = c.user_id;
+
+CREATE VIEW public.messages_with_author
+WITH (security_invoker = true)
+AS
+SELECT
+  m.*,
+  pr.full_name AS author_full_name,
+  pr.email AS author_email,
+  pr.avatar_url AS author_avatar_url
+FROM public.group_messages m
+LEFT JOIN public.profiles pr ON pr.user_id = m.user_id;
+
+CREATE VIEW public.members_with_profile
+WITH (security_invoker = true)
+AS
+SELECT
+  gm.*,
+  pr.full_name AS profile_full_name,
+  pr.email AS profile_email,
+  pr.avatar_url AS profile_avatar_url
+FROM public.group_members gm
+LEFT JOIN public.profiles pr ON pr.user_id = gm.user_id;
+
+GRANT SELECT ON public.pins_with_author TO anon, authenticated;
+GRANT SELECT ON public.comments_with_author TO anon, authenticated;
+GRANT SELECT ON public.messages_with_author TO authenticated;
+GRANT SELECT ON public.members_with_profile TO authenticated;
@@ -0,0 +1,186 @@
+-- Threaded replies, edit tracking and @mentions for pin comments.
+--
+-- A reply points at the comment it answers (parent_id) and at the top-level comment of its
+-- thread (root_id), so a page of threads loads in one query. Threads nest two levels below
+-- the top-level comment at most.
+ALTER TABLE public.comments
+  ADD COLUMN parent_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  ADD COLUMN root_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  ADD COLUMN depth SMALLINT NOT NULL DEFAULT 0 CHECK (depth BETWEEN 0 AND 2),
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_comments_pin_threads ON public.comments (pin_id, created_at DESC, id DESC) WHERE parent_id IS NULL;
+CREATE INDEX idx_comments_root ON public.comments (root_id, created_at);
+
+-- Works out where a new comment sits from its parent and keeps that fixed afterwards, so
+-- clients only ever choose the pin, the parent and the text. edited_at moves when the text does.
+CREATE OR REPLACE FUNCTION public.place_comment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = ''
+AS $$
+DECLARE
+  parent public.comments%ROWTYPE;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    NEW.pin_id := OLD.pin_id;
+    NEW.parent_id := OLD.parent_id;
+    NEW.root_id := OLD.root_id;
+    NEW.depth := OLD.depth;
+    NEW.created_at := OLD.created_at;
+    NEW.edited_at := CASE WHEN NEW.content IS DISTINCT FROM OLD.content THEN now() ELSE OLD.edited_at END;
+    RETURN NEW;
+  END IF;
+
+  NEW.edited_at := NULL;
+
+  IF NEW.parent_id IS NULL THEN
+    NEW.root_id := NULL;
+    NEW.depth := 0;
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM public.comments WHERE id = NEW.parent_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Comment % no longer exists', NEW.parent_id USING ERRCODE = 'foreign_key_violation';
+  END IF;
+
+  IF parent.pin_id <> NEW.pin_id THEN
+    RAISE EXCEPTION 'A reply must be on the same pin as the comment it answers' USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF parent.depth >= 2 THEN
+    RAISE EXCEPTION 'Replies nest at most two levels deep' USING ERRCODE = 'check_violation';
+  END IF;
+
+  NEW.depth := parent.depth + 1;
+  NEW.root_id := COALESCE(parent.root_id, parent.id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER place_comment
+BEFORE INSERT OR UPDATE ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.place_comment();
+
+-- Notifications for a user, written by triggers. Mentions are the only kind so far.
+CREATE TABLE public.notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Who the notification is for
+  user_id UUID NOT NULL,
+  -- Who caused it
+  actor_id UUID NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('mention')),
+  pin_id UUID REFERENCES public.pins(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES public.comments(id) ON DELETE CASCADE,
+  read_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user ON public.notifications (user_id, created_at DESC);
+CREATE INDEX idx_notifications_comment ON public.notifications (comment_id);
+
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can mark their own notifications read"
+ON public.notifications
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications
+FOR DELETE
+USING (auth.uid() = user_id);
+
+-- Mentions are written into comments as @[Name](user id). Each user mentioned gets one
+-- notification per comment: editing a comment notifies only people it didn't mention before.
+-- Self-mentions and ids without a profile are skipped, and a comment notifies 20 people at most.
+CREATE OR REPLACE FUNCTION public.notify_comment_mentions()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  INSERT INTO public.notifications (user_id, actor_id, type, pin_id, comment_id)
+  SELECT mentioned.user_id, NEW.user_id, 'mention', NEW.pin_id, NEW.id
+  FROM (
+    SELECT DISTINCT pr.user_id
+    FROM regexp_matches(
+      NEW.content,
+      '@\[[^\]]*\]\(([0-9a-fA-F]{8}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{4}-[0-9a-fA-F]{12})\)',
+      'g'
+    ) AS m(parts)
+    JOIN public.profiles pr ON pr.user_id = m.parts[1]::UUID
+    WHERE pr.user_id <> NEW.user_id
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.notifications n
+        WHERE n.comment_id = NEW.id
+          AND n.user_id = pr.user_id
+          AND n.type = 'mention'
+      )
+    LIMIT 20
+  ) AS mentioned;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER notify_comment_mentions
+AFTER INSERT OR UPDATE OF content ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.notify_comment_mentions();
+
+-- The view's column list was fixed when it was created, so it's rebuilt to pick up the new columns
+DROP VIEW public.comments_with_author;
+
+CREATE VIEW public.comments_with_author
+WITH (security_invoker = true)
+AS
+SELECT
+  c.*,
+  pr.full_name AS author_full_name,
+  pr.email AS author_email,
+  pr.avatar_url AS author_avatar_url
+FROM public.comments c
+LEFT JOIN public.profiles pr ON pr.user_id = c.user_id;
+
+GRANT SELECT ON public.comments_with_author TO anon, authenticated;
+
+-- A page of a pin's threads, newest thread first, with every reply in them. Pages by the
+-- top-level comments' (created_at, id), so replies never split across pages.
+CREATE OR REPLACE FUNCTION public.get_comment_threads(
+  target_pin_id UUID,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 20
+)
+RETURNS SETOF public.comments_with_author
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH roots AS (
+    SELECT c.id
+    FROM public.comments c
+    WHERE c.pin_id = target_pin_id
+      AND c.parent_id IS NULL
+      AND (cursor_created_at IS NULL OR (c.created_at, c.id) < (cursor_created_at, cursor_id))
+    ORDER BY c.created_at DESC, c.id DESC
+    LIMIT LEAST(GREATEST(page_size, 1), 100)
+  )
+  SELECT v.*
+  FROM public.comments_with_author v
+  WHERE v.id IN (SELECT id FROM roots)
+     OR v.root_id IN (SELECT id FROM roots)
+  ORDER BY v.created_at, v.id;
+$$;
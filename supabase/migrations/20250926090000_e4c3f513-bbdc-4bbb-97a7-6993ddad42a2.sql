@@ -0,0 +1,6 @@
+-- Realtime for an open pin: its comments as they're posted, edited and deleted, and its
+-- like, comment and save counts, which the bump_pin_count triggers keep on the pin row.
+-- Comments are fetched again through comments_with_author on arrival for their author,
+-- and deletes only need the id, so neither table needs REPLICA IDENTITY FULL.
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.pins;
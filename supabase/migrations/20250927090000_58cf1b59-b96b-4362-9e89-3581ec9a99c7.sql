@@ -0,0 +1,183 @@
+-- Bound the For You ranking and page it by keyset.
+-- rank_pins_for_user used to score every pin in the table on every page request, and
+-- get_for_you_feed skipped through the result with OFFSET, which brought back the full
+-- scan the keyset feeds got rid of. Only candidates are scored now:
+--   pins posted in the 30 days before as_of
+--   pins from people the viewer follows, posted in the 180 days before as_of
+--   pins liked, commented on or saved in the 7 days before as_of
+-- The signals and the score itself are unchanged.
+CREATE OR REPLACE FUNCTION public.rank_pins_for_user(
+  viewer UUID,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  pin_id UUID,
+  follow_score REAL,
+  similarity_score REAL,
+  engagement_score REAL,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  WITH followed AS (
+    SELECT following_id AS user_id
+    FROM public.follows
+    WHERE follower_id = viewer
+  ),
+  viewer_saves AS (
+    SELECT DISTINCT sp.pin_id
+    FROM public.saved_pins sp
+    WHERE sp.user_id = viewer
+      AND sp.created_at <= as_of
+  ),
+  engagement AS (
+    SELECT e.pin_id, COUNT(*) AS events
+    FROM (
+      SELECT l.pin_id FROM public.likes l
+      WHERE l.created_at > as_of - INTERVAL '7 days' AND l.created_at <= as_of
+      UNION ALL
+      SELECT c.pin_id FROM public.comments c
+      WHERE c.created_at > as_of - INTERVAL '7 days' AND c.created_at <= as_of
+      UNION ALL
+      SELECT sp.pin_id FROM public.saved_pins sp
+      WHERE sp.created_at > as_of - INTERVAL '7 days' AND sp.created_at <= as_of
+    ) e
+    GROUP BY e.pin_id
+  ),
+  candidates AS (
+    SELECT p.id AS pin_id
+    FROM public.pins p
+    WHERE p.created_at > as_of - INTERVAL '30 days' AND p.created_at <= as_of
+    UNION
+    SELECT p.id
+    FROM public.pins p
+    JOIN followed f ON f.user_id = p.user_id
+    WHERE p.created_at > as_of - INTERVAL '180 days' AND p.created_at <= as_of
+    UNION
+    SELECT e.pin_id
+    FROM engagement e
+  ),
+  -- Other people's boards holding pins the viewer saved, and how many of them
+  similar_boards AS (
+    SELECT bp.board_id, COUNT(*) AS overlap
+    FROM (
+      SELECT p.id AS pin_id, p.board_id
+      FROM public.pins p
+      JOIN viewer_saves vs ON vs.pin_id = p.id
+      UNION
+      SELECT sp.pin_id, sp.board_id
+      FROM public.saved_pins sp
+      JOIN viewer_saves vs ON vs.pin_id = sp.pin_id
+      WHERE sp.created_at <= as_of
+    ) bp
+    JOIN public.boards b ON b.id = bp.board_id
+    WHERE b.user_id <> viewer
+    GROUP BY bp.board_id
+  ),
+  candidate_boards AS (
+    SELECT p.id AS pin_id, p.board_id
+    FROM public.pins p
+    JOIN candidates c ON c.pin_id = p.id
+    UNION
+    SELECT sp.pin_id, sp.board_id
+    FROM public.saved_pins sp
+    JOIN candidates c ON c.pin_id = sp.pin_id
+    WHERE sp.created_at <= as_of
+  ),
+  pin_similarity AS (
+    SELECT cb.pin_id, SUM(ln(1 + sb.overlap)) AS similarity
+    FROM candidate_boards cb
+    JOIN similar_boards sb ON sb.board_id = cb.board_id
+    GROUP BY cb.pin_id
+  ),
+  scored AS (
+    SELECT
+      p.id,
+      CASE WHEN p.user_id IN (SELECT user_id FROM followed) THEN 3.0 ELSE 0.0 END AS follow_score,
+      2.0 * COALESCE(ps.similarity, 0) AS similarity_score,
+      ln(1 + COALESCE(e.events, 0)) AS engagement_score,
+      GREATEST(EXTRACT(EPOCH FROM (as_of - p.created_at)) / 86400.0, 0) AS age_days
+    FROM candidates c
+    JOIN public.pins p ON p.id = c.pin_id
+    LEFT JOIN pin_similarity ps ON ps.pin_id = p.id
+    LEFT JOIN engagement e ON e.pin_id = p.id
+    WHERE p.created_at <= as_of
+      AND (viewer IS NULL OR p.user_id <> viewer)
+      AND p.id NOT IN (SELECT vs.pin_id FROM viewer_saves vs)
+  )
+  SELECT
+    s.id,
+    s.follow_score::REAL,
+    s.similarity_score::REAL,
+    s.engagement_score::REAL,
+    ((1 + s.follow_score + s.similarity_score + s.engagement_score) / sqrt(s.age_days + 2))::REAL
+  FROM scored s;
+$$;
+
+-- "For You" page for the signed-in user, after the (score, created_at, id) of the last pin
+-- on the previous page. Pass the as_of of the first page to every later page so scores
+-- don't shift between pages.
+DROP FUNCTION IF EXISTS public.get_for_you_feed(INTEGER, INTEGER, TIMESTAMP WITH TIME ZONE);
+
+CREATE OR REPLACE FUNCTION public.get_for_you_feed(
+  cursor_score REAL DEFAULT NULL,
+  cursor_created_at TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  cursor_id UUID DEFAULT NULL,
+  page_size INTEGER DEFAULT 30,
+  as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS TABLE (
+  id UUID,
+  title TEXT,
+  description TEXT,
+  image_url TEXT,
+  original_url TEXT,
+  user_id UUID,
+  board_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE,
+  is_nsfw BOOLEAN,
+  width INTEGER,
+  height INTEGER,
+  blurhash TEXT,
+  like_count INTEGER,
+  comment_count INTEGER,
+  save_count INTEGER,
+  author_full_name TEXT,
+  author_email TEXT,
+  author_avatar_url TEXT,
+  score REAL
+)
+LANGUAGE sql
+STABLE
+SET search_path = ''
+AS $$
+  SELECT
+    p.id,
+    p.title,
+    p.description,
+    p.image_url,
+    p.original_url,
+    p.user_id,
+    p.board_id,
+    p.created_at,
+    p.is_nsfw,
+    p.width,
+    p.height,
+    p.blurhash,
+    p.like_count,
+    p.comment_count,
+    p.save_count,
+    pr.full_name,
+    pr.email,
+    pr.avatar_url,
+    r.score
+  FROM public.rank_pins_for_user(auth.uid(), as_of) r
+  JOIN public.pins p ON p.id = r.pin_id
+  LEFT JOIN public.profiles pr ON pr.user_id = p.user_id
+  WHERE cursor_score IS NULL
+    OR (r.score, p.created_at, p.id) < (cursor_score, cursor_created_at, cursor_id)
+  ORDER BY r.score DESC, p.created_at DESC, p.id DESC
+  LIMIT LEAST(GREATEST(page_size, 1), 100);
+$$;
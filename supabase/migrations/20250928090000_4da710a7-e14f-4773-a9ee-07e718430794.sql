@@ -0,0 +1,24 @@
+-- Messages can only be updated to record an action card's outcome. Nothing else about a
+-- stored turn may change: moving a message to another conversation would put words in
+-- that conversation's history and summaries.
+REVOKE UPDATE ON public.assistant_messages FROM anon, authenticated;
+GRANT UPDATE (data) ON public.assistant_messages TO authenticated;
+
+DROP POLICY IF EXISTS "Users can update their own assistant messages" ON public.assistant_messages;
+
+CREATE POLICY "Users can update their own assistant messages" ON public.assistant_messages
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (
+    auth.uid() = user_id AND
+    conversation_id IN (
+      SELECT id FROM public.assistant_conversations
+      WHERE user_id = auth.uid()
+    )
+  );
+
+-- Conversations can't be handed to someone else either
+DROP POLICY IF EXISTS "Users can update their own assistant conversations" ON public.assistant_conversations;
+
+CREATE POLICY "Users can update their own assistant conversations" ON public.assistant_conversations
+  FOR UPDATE USING (auth.uid() = user_id)
+  WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,8 @@
+-- Saved pins show on the board, so saving into a board is up to the people who can edit
+-- it, not just whoever is saving
+DROP POLICY IF EXISTS "Users can create their own saved pins" ON public.saved_pins;
+
+CREATE POLICY "Users can create their own saved pins"
+ON public.saved_pins
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.user_can_edit_board(auth.uid(), board_id));
@@ -0,0 +1,35 @@
+-- A pin can only be put on a board the user owns or edits, whether it's created there or
+-- moved there, or it could land on someone else's secret board
+DROP POLICY IF EXISTS "Users can create their own pins" ON public.pins;
+
+CREATE POLICY "Users can create their own pins"
+ON public.pins
+FOR INSERT
+WITH CHECK (auth.uid() = user_id AND public.user_can_edit_board(auth.uid(), board_id));
+
+-- The owner update policy doesn't look at the destination board, so check it here
+CREATE OR REPLACE FUNCTION public.check_pin_board_move()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NEW.board_id IS DISTINCT FROM OLD.board_id
+    AND NOT public.user_can_edit_board(auth.uid(), NEW.board_id)
+  THEN
+    RAISE EXCEPTION 'Not allowed to add pins to board %', NEW.board_id
+      USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS check_pins_board_move ON public.pins;
+
+CREATE TRIGGER check_pins_board_move
+BEFORE UPDATE OF board_id ON public.pins
+FOR EACH ROW
+EXECUTE FUNCTION public.check_pin_board_move();
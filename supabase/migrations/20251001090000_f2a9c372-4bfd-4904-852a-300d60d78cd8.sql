@@ -0,0 +1,3 @@
+-- Pins stay editable by their owner only. Editors change pins added by others through
+-- definer functions that write just the columns they're allowed to, never through RLS.
+DROP POLICY IF EXISTS "Board editors can update pins on their boards" ON public.pins;
@@ -0,0 +1,50 @@
+-- Savers can move their own entries between boards they own or edit. Nobody else gets
+-- UPDATE on saved_pins; editors file entries through set_board_entry_section below.
+DROP POLICY IF EXISTS "Board editors can update saved pins on their boards" ON public.saved_pins;
+DROP POLICY IF EXISTS "Users can update their own saved pins" ON public.saved_pins;
+
+CREATE POLICY "Users can update their own saved pins"
+ON public.saved_pins
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id AND public.user_can_edit_board(auth.uid(), board_id));
+
+-- File a board entry ('pin' or 'saved') into a section of its board, or back to unsorted
+-- when target_section_id is null. Editors may do this to anyone's entry on a board they
+-- edit, so only section_id is written; check_section_board still vets the section.
+CREATE OR REPLACE FUNCTION public.set_board_entry_section(
+  entry_kind TEXT,
+  entry_id UUID,
+  target_section_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = ''
+AS $$
+DECLARE
+  entry_board_id UUID;
+BEGIN
+  IF entry_kind = 'pin' THEN
+    SELECT board_id INTO entry_board_id FROM public.pins WHERE id = entry_id;
+  ELSIF entry_kind = 'saved' THEN
+    SELECT board_id INTO entry_board_id FROM public.saved_pins WHERE id = entry_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown entry kind %', entry_kind USING ERRCODE = 'invalid_parameter_value';
+  END IF;
+
+  IF entry_board_id IS NULL THEN
+    RAISE EXCEPTION 'Entry not found' USING ERRCODE = 'no_data_found';
+  END IF;
+
+  IF NOT public.user_can_edit_board(auth.uid(), entry_board_id) THEN
+    RAISE EXCEPTION 'Not allowed to organize this board' USING ERRCODE = 'insufficient_privilege';
+  END IF;
+
+  IF entry_kind = 'pin' THEN
+    UPDATE public.pins SET section_id = target_section_id WHERE id = entry_id;
+  ELSE
+    UPDATE public.saved_pins SET section_id = target_section_id WHERE id = entry_id;
+  END IF;
+END;
+$$;
@@ -0,0 +1,145 @@
+-- Checks the For You ranking against a small seeded graph. Run with `supabase test db`;
+-- everything is inserted inside the transaction and rolled back at the end.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- a: the viewer   b: someone a follows   c: shares a's taste   d: a stranger
+INSERT INTO auth.users (id, email) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'viewer@example.com'),
+  ('00000000-0000-0000-0000-00000000000b', 'followed@example.com'),
+  ('00000000-0000-0000-0000-00000000000c', 'similar@example.com'),
+  ('00000000-0000-0000-0000-00000000000d', 'stranger@example.com');
+
+INSERT INTO public.follows (follower_id, following_id) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b');
+
+INSERT INTO public.boards (id, user_id, name) VALUES
+  ('00000000-0000-0000-0000-0000000000ba', '00000000-0000-0000-0000-00000000000a', 'Viewer'),
+  ('00000000-0000-0000-0000-0000000000bb', '00000000-0000-0000-0000-00000000000b', 'Followed'),
+  ('00000000-0000-0000-0000-0000000000bc', '00000000-0000-0000-0000-00000000000c', 'Similar'),
+  ('00000000-0000-0000-0000-0000000000bd', '00000000-0000-0000-0000-00000000000d', 'Stranger');
+
+-- Ages are relative to the as_of every check below uses, 2025-06-30 12:00 UTC
+INSERT INTO public.pins (id, user_id, board_id, title, image_url, created_at) VALUES
+  -- followed author, 2 days old: (1 + 3) / sqrt(4) = 2
+  ('00000000-0000-0000-0000-000000000001', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000bb', 'followed', 'https://example.com/1.jpg', '2025-06-28 12:00+00'),
+  -- stranger, 2 days old, nothing else: 1 / sqrt(4) = 0.5
+  ('00000000-0000-0000-0000-000000000002', '00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000bd', 'plain', 'https://example.com/2.jpg', '2025-06-28 12:00+00'),
+  -- stranger, 2 days old, two likes this week: (1 + ln 3) / 2 = 1.049
+  ('00000000-0000-0000-0000-000000000003', '00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000bd', 'liked', 'https://example.com/3.jpg', '2025-06-28 12:00+00'),
+  -- on a board that holds a pin the viewer saved, 2 days old: (1 + 2 ln 2) / 2 = 1.193
+  ('00000000-0000-0000-0000-000000000004', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000bc', 'similar', 'https://example.com/4.jpg', '2025-06-28 12:00+00'),
+  -- saved by the viewer already, so left out
+  ('00000000-0000-0000-0000-000000000006', '00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-0000000000bc', 'saved', 'https://example.com/6.jpg', '2025-06-20 12:00+00'),
+  -- the viewer's own, left out
+  ('00000000-0000-0000-0000-000000000007', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-0000000000ba', 'own', 'https://example.com/7.jpg', '2025-06-29 12:00+00'),
+  -- stranger, 200 days old and untouched: not a candidate
+  ('00000000-0000-0000-0000-000000000008', '00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000bd', 'stale', 'https://example.com/8.jpg', '2024-12-12 12:00+00'),
+  -- followed author, 100 days old: a candidate through the follow, 4 / sqrt(102) = 0.396
+  ('00000000-0000-0000-0000-000000000009', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-0000000000bb', 'followed old', 'https://example.com/9.jpg', '2025-03-22 12:00+00'),
+  -- stranger, 100 days old, liked yesterday: a candidate through engagement, (1 + ln 2) / sqrt(102) = 0.168
+  ('00000000-0000-0000-0000-000000000010', '00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-0000000000bd', 'revived', 'https://example.com/10.jpg', '2025-03-22 12:00+00');
+
+INSERT INTO public.saved_pins (user_id, pin_id, board_id, created_at) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000006', '00000000-0000-0000-0000-0000000000ba', '2025-06-21 12:00+00');
+
+INSERT INTO public.likes (user_id, pin_id, created_at) VALUES
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-000000000003', '2025-06-29 12:00+00'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-000000000003', '2025-06-29 12:00+00'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-000000000010', '2025-06-29 12:00+00');
+
+SELECT results_eq(
+  $$
+    SELECT pin_id FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+    ORDER BY score DESC, pin_id
+  $$,
+  $$
+    VALUES
+      ('00000000-0000-0000-0000-000000000001'::UUID),
+      ('00000000-0000-0000-0000-000000000004'::UUID),
+      ('00000000-0000-0000-0000-000000000003'::UUID),
+      ('00000000-0000-0000-0000-000000000002'::UUID),
+      ('00000000-0000-0000-0000-000000000009'::UUID),
+      ('00000000-0000-0000-0000-000000000010'::UUID)
+  $$,
+  'pins rank by follow, then similarity, then engagement, damped by age'
+);
+
+SELECT is(
+  (SELECT follow_score FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+   WHERE pin_id = '00000000-0000-0000-0000-000000000001'),
+  3::REAL,
+  'a followed author scores 3'
+);
+
+SELECT is(
+  (SELECT round(similarity_score::NUMERIC, 3) FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+   WHERE pin_id = '00000000-0000-0000-0000-000000000004'),
+  round((2 * ln(2))::NUMERIC, 3),
+  'one shared pin on a board scores 2 ln 2'
+);
+
+SELECT is(
+  (SELECT round(engagement_score::NUMERIC, 3) FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+   WHERE pin_id = '00000000-0000-0000-0000-000000000003'),
+  round(ln(3)::NUMERIC, 3),
+  'two likes this week score ln 3'
+);
+
+SELECT is_empty(
+  $$
+    SELECT 1 FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+    WHERE pin_id IN ('00000000-0000-0000-0000-000000000006', '00000000-0000-0000-0000-000000000007')
+  $$,
+  'the viewer''s own and saved pins are left out'
+);
+
+SELECT is_empty(
+  $$
+    SELECT 1 FROM public.rank_pins_for_user('00000000-0000-0000-0000-00000000000a', '2025-06-30 12:00+00')
+    WHERE pin_id = '00000000-0000-0000-0000-000000000008'
+  $$,
+  'old pins nobody follows or touched aren''t scored'
+);
+
+-- The feed pages by keyset for the signed-in viewer
+SELECT set_config('request.jwt.claims', '{"sub": "00000000-0000-0000-0000-00000000000a"}', true);
+
+SELECT results_eq(
+  $$ SELECT id FROM public.get_for_you_feed(page_size => 4, as_of => '2025-06-30 12:00+00') $$,
+  $$
+    VALUES
+      ('00000000-0000-0000-0000-000000000001'::UUID),
+      ('00000000-0000-0000-0000-000000000004'::UUID),
+      ('00000000-0000-0000-0000-000000000003'::UUID),
+      ('00000000-0000-0000-0000-000000000002'::UUID)
+  $$,
+  'the first page is the top of the ranking'
+);
+
+SELECT results_eq(
+  $$
+    SELECT f.id
+    FROM (
+      SELECT * FROM public.get_for_you_feed(page_size => 4, as_of => '2025-06-30 12:00+00') OFFSET 3
+    ) last_on_page,
+    LATERAL public.get_for_you_feed(
+      cursor_score => last_on_page.score,
+      cursor_created_at => last_on_page.created_at,
+      cursor_id => last_on_page.id,
+      page_size => 4,
+      as_of => '2025-06-30 12:00+00'
+    ) f
+  $$,
+  $$
+    VALUES
+      ('00000000-0000-0000-0000-000000000009'::UUID),
+      ('00000000-0000-0000-0000-000000000010'::UUID)
+  $$,
+  'the next page starts after the cursor'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -1,3 +1,4 @@
+/// <reference types="vitest" />
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -19,6 +20,11 @@ export default defineConfig(({ mode }) => ({
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  // Unit tests live next to the code they cover. The edge functions have their own,
+  // run with `deno test`.
+  test: {
+    include: ["src/**/*.test.ts"],
+  },
   // Performance optimizations for production builds
   build: {
     // Enable CSS code splitting for better caching